@@ -0,0 +1,109 @@
+/**
+ * Altitude references and the ICAO standard atmosphere.
+ *
+ * An altitude only means something together with its datum: height
+ * above mean sea level (MSL), height above ground level (AGL), or
+ * pressure altitude (PA), the altitude the standard atmosphere assigns
+ * to the ambient pressure. Flight levels are pressure altitudes in
+ * hundreds of feet.
+ */
+
+import { Quantity, convert } from './quantity';
+import { LengthUnit, PressureUnit } from './units';
+
+export type AltitudeReference = 'MSL' | 'AGL' | 'PA';
+
+/** A length quantity tagged with the datum it is measured from. */
+export interface Altitude<U extends LengthUnit = LengthUnit> extends Quantity<U> {
+  reference: AltitudeReference;
+}
+
+/** Standard sea-level pressure of the ISA. */
+export const STANDARD_PRESSURE: Quantity<'hPa'> = { value: 1013.25, unit: 'hPa' };
+
+// ISA constants: sea-level pressure (Pa) and temperature (K), the
+// tropospheric lapse rate (K/m) and the pressure exponent g0·M/(R·L)
+const P0 = 101325;
+const T0 = 288.15;
+const LAPSE = 0.0065;
+const EXPONENT = 5.255877;
+const TROPOPAUSE = 11000;
+const TROPOPAUSE_T = T0 - LAPSE * TROPOPAUSE;
+const TROPOPAUSE_P = P0 * Math.pow(TROPOPAUSE_T / T0, EXPONENT);
+// g0·M/(R·T) at the tropopause, per metre
+const STRATOSPHERE_K = 9.80665 * 0.0289644 / (8.31446 * TROPOPAUSE_T);
+
+/**
+ * Pressure at an altitude in the ISA. Valid up to 20 km (the top of the
+ * isothermal layer).
+ */
+export function isaPressure(altitude: Quantity<LengthUnit>): Quantity<'hPa'> {
+  const h = convert(altitude, 'm').value;
+  const pa =
+    h <= TROPOPAUSE
+      ? P0 * Math.pow(1 - (LAPSE * h) / T0, EXPONENT)
+      : TROPOPAUSE_P * Math.exp(-STRATOSPHERE_K * (h - TROPOPAUSE));
+  return { value: pa / 100, unit: 'hPa' };
+}
+
+/** The ISA altitude at which `pressure` is found; the inverse of `isaPressure`. */
+export function isaAltitude(pressure: Quantity<PressureUnit>): Quantity<'m'> {
+  const p = convert(pressure, 'Pa').value;
+  const h =
+    p >= TROPOPAUSE_P
+      ? (T0 / LAPSE) * (1 - Math.pow(p / P0, 1 / EXPONENT))
+      : TROPOPAUSE - Math.log(p / TROPOPAUSE_P) / STRATOSPHERE_K;
+  return { value: h, unit: 'm' };
+}
+
+export interface AltitudeContext {
+  /** Terrain elevation above MSL. Needed to convert to or from AGL. */
+  terrain?: Quantity<LengthUnit>;
+  /** Altimeter setting. Defaults to standard pressure. */
+  qnh?: Quantity<PressureUnit>;
+}
+
+/**
+ * Re-express an altitude against another reference, keeping its unit.
+ * Pressure altitude is derived from MSL by the ISA offset of `qnh`: an
+ * altimeter set to QNH reads MSL altitude, one set to 1013.25 hPa reads
+ * pressure altitude. Throws if AGL is involved and no terrain elevation
+ * is given.
+ */
+export function convertAltitudeReference<U extends LengthUnit>(
+  alt: Altitude<U>,
+  to: AltitudeReference,
+  { terrain, qnh = STANDARD_PRESSURE }: AltitudeContext = {}
+): Altitude<U> {
+  if (alt.reference === to) return alt;
+  if ((alt.reference === 'AGL' || to === 'AGL') && !terrain) {
+    throw new Error(`Converting altitude between ${alt.reference} and ${to} needs a terrain elevation`);
+  }
+  const unit = alt.unit;
+  const terrainValue = terrain ? convert(terrain, unit).value : 0;
+  const qnhOffset = convert(isaAltitude(qnh), unit).value;
+
+  let msl: number;
+  if (alt.reference === 'MSL') msl = alt.value;
+  else if (alt.reference === 'AGL') msl = alt.value + terrainValue;
+  else msl = alt.value - qnhOffset;
+
+  const value = to === 'MSL' ? msl : to === 'AGL' ? msl - terrainValue : msl + qnhOffset;
+  return { value, unit, reference: to };
+}
+
+/** Flight level for a pressure altitude: hundreds of feet, rounded. */
+export function flightLevel(pressureAltitude: Quantity<LengthUnit>): number {
+  return Math.round(convert(pressureAltitude, 'ft').value / 100);
+}
+
+/** Pressure altitude of a flight level. */
+export function fromFlightLevel(level: number): Altitude<'ft'> {
+  return { value: level * 100, unit: 'ft', reference: 'PA' };
+}
+
+/** Format a pressure altitude as a flight level, e.g. `FL350` or `FL055`. */
+export function formatFlightLevel(pressureAltitude: Quantity<LengthUnit>): string {
+  const fl = flightLevel(pressureAltitude);
+  return `FL${String(Math.max(0, fl)).padStart(3, '0')}`;
+}
@@ -0,0 +1,72 @@
+/**
+ * Angle and heading helpers.
+ *
+ * All functions work in degrees and treat angles as points on a circle,
+ * so 359° and 1° are two degrees apart rather than 358. Use `convert`
+ * with the `deg` and `rad` units to move between degrees and radians.
+ */
+
+/** Normalise an angle into the range [0, 360). */
+export function normalizeDegrees(deg: number): number {
+  const r = ((deg % 360) + 360) % 360;
+  // guard against -0 and float noise landing exactly on 360
+  return r === 360 || Object.is(r, -0) ? 0 : r;
+}
+
+/** Normalise an angle into the range (-180, 180]. */
+export function normalizeSignedDegrees(deg: number): number {
+  const r = normalizeDegrees(deg);
+  return r > 180 ? r - 360 : r;
+}
+
+/**
+ * Signed difference that turns `from` into `to` along the shorter way
+ * round. Positive values are clockwise. The result lies in (-180, 180].
+ */
+export function shortestAngleDelta(from: number, to: number): number {
+  return normalizeSignedDegrees(to - from);
+}
+
+/** Unsigned angular distance between two angles, in [0, 180]. */
+export function angularDistance(a: number, b: number): number {
+  return Math.abs(shortestAngleDelta(a, b));
+}
+
+/**
+ * Interpolate between two angles along the shorter arc, so halfway
+ * between 350° and 10° is 0°, not 180°. The result is normalised into
+ * [0, 360).
+ */
+export function interpolateAngle(from: number, to: number, t: number): number {
+  return normalizeDegrees(from + shortestAngleDelta(from, to) * t);
+}
+
+/**
+ * Pick the angle from `candidates` closest to `deg`, taking wrap-around
+ * into account.
+ */
+export function nearestAngle(deg: number, candidates: number[]): number {
+  return candidates.reduce((best, cur) =>
+    angularDistance(deg, cur) < angularDistance(deg, best) ? cur : best
+  );
+}
+
+export type CompassPoints = 4 | 8 | 16 | 32;
+
+const compass32 = [
+  'N', 'NbE', 'NNE', 'NEbN', 'NE', 'NEbE', 'ENE', 'EbN',
+  'E', 'EbS', 'ESE', 'SEbE', 'SE', 'SEbS', 'SSE', 'SbE',
+  'S', 'SbW', 'SSW', 'SWbS', 'SW', 'SWbW', 'WSW', 'WbS',
+  'W', 'WbN', 'WNW', 'NWbW', 'NW', 'NWbN', 'NNW', 'NbW',
+];
+
+/**
+ * Name the compass point nearest to a heading, e.g. `NNE` for 20° on a
+ * 16-point rose. Use 4 points for cardinals only, 8 to add the
+ * intercardinals, and 32 for the by-points (`NbE`).
+ */
+export function compassPoint(deg: number, points: CompassPoints = 16): string {
+  const stride = 32 / points;
+  const index = Math.round(normalizeDegrees(deg) / (360 / points)) % points;
+  return compass32[index * stride];
+}
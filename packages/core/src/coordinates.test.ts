@@ -0,0 +1,80 @@
+import { LonLat } from './geo';
+import { formatCoordinate, fromMGRS, fromUTM, parseCoordinate, toMGRS, toUTM } from './coordinates';
+
+// reference grid positions agree with the proj4js mgrs package to the metre
+test.each<[string, LonLat, string, string]>([
+  ['Eiffel Tower', [2.2945, 48.8583], '31U 448251 5411943', '31UDQ 48251 11943'],
+  ['San Francisco', [-122.4194, 37.7749], '10S 551130 4180998', '10SEG 51130 80998'],
+  ['Sydney', [151.2093, -33.8688], '56H 334368 6250948', '56HLH 34368 50948'],
+  ['the equator at Greenwich', [0, 0], '31N 166021 0', '31NAA 66021 00000'],
+  ['just south-west of it', [-0.000001, -0.000001], '30M 833978 9999999', '30MZE 33978 99999'],
+  ['the antimeridian near 80°S', [179.999, -79.999], '60C 558118 1117027', '60CWS 58118 17027'],
+  ['the southern limit', [0, -80], '31C 441867 1116915', '31CDM 41867 16915'],
+  ['the northern limit', [-180, 84], '1X 465005 9329005', '1XDP 65005 29005'],
+])('%s is %s, %s', (_, position, utm, mgrs) => {
+  expect(formatCoordinate(position, 'utm')).toBe(utm);
+  expect(toMGRS(position)).toBe(mgrs);
+});
+
+test.each<[string, LonLat, string]>([
+  ['west of the Norway exception', [2.9, 60], '31V'],
+  ['inside the Norway exception', [3.5, 60], '32V'],
+  ['Norway at the regular zone edge', [5.999999, 60], '32V'],
+  ['Svalbard west of 9°E', [8.9, 78], '31X'],
+  ['Svalbard east of 9°E', [9.1, 78], '33X'],
+  ['Svalbard west of 21°E', [20.9, 80], '33X'],
+  ['Svalbard east of 21°E', [21.1, 80], '35X'],
+  ['Svalbard west of 33°E', [32.9, 83.9], '35X'],
+  ['Svalbard east of 33°E', [33.1, 83.9], '37X'],
+  ['the band X northern limit', [0, 84], '31X'],
+  ['zone 60 at the antimeridian', [179.999999, 10], '60P'],
+  ['zone 1 at the antimeridian', [-180, 10], '1P'],
+])('%s is in %s and survives a round trip', (_, position, zoneBand) => {
+  const utm = toUTM(position);
+  expect(`${utm.zone}${utm.band}`).toBe(zoneBand);
+  const [lon, lat] = fromUTM(utm);
+  expect(lon).toBeCloseTo(position[0], 9);
+  expect(lat).toBeCloseTo(position[1], 9);
+});
+
+test('MGRS references resolve to the south-west corner of their square', () => {
+  const [lon, lat] = fromMGRS('31UDQ 48251 11943');
+  expect(lon).toBeCloseTo(2.2945, 4);
+  expect(lat).toBeCloseTo(48.8583, 4);
+  expect(toMGRS([2.2945, 48.8583], 2)).toBe('31UDQ 48 11');
+  expect(fromMGRS('31UDQ4811')).toEqual(fromMGRS('31UDQ 48000 11000'));
+  // rows repeat every 2000 km, so the band picks the repetition
+  expect(fromMGRS('31CDM 41867 16915')[1]).toBeCloseTo(-80, 4);
+  expect(fromMGRS('1XDP 65005 29005')[1]).toBeCloseTo(84, 4);
+});
+
+test.each([
+  [() => toUTM([0, 84.5]), 'Latitude 84.5 is outside the UTM range (-80 to 84)'],
+  [() => toUTM([0, -90]), 'Latitude -90 is outside the UTM range (-80 to 84)'],
+  [() => toMGRS([0, 90]), 'Latitude 90 is outside the UTM range (-80 to 84)'],
+  [() => fromUTM({ zone: 61, band: 'N', easting: 500000, northing: 0 }), 'UTM zone 61 is out of range (1 to 60)'],
+  [() => fromUTM({ zone: 31, band: 'I', easting: 500000, northing: 0 }), 'Unknown latitude band I'],
+  [() => fromMGRS('31UDQ 482 11'), 'needs an even number of up to 10 digits'],
+  [() => fromMGRS('31UXQ 48251 11943'), 'Column letter X is not used in zone 31'],
+  [() => fromMGRS('31U'), '"31U" is not a valid MGRS reference'],
+])('%s throws', (fn, message) => {
+  expect(fn).toThrow(message);
+});
+
+test.each<[string, LonLat]>([
+  ['37.7749, -122.4194', [-122.4194, 37.7749]],
+  ['37°46\'29.6"N 122°25\'9.8"W', [-122.41939, 37.77489]],
+  ['N37 46.494 W122 25.164', [-122.4194, 37.7749]],
+  ['10S 551130 4180998', [-122.41941, 37.77489]],
+  ['10SEG 51130 80998', [-122.41941, 37.77489]],
+])('parseCoordinate reads %s', (text, [lon, lat]) => {
+  const parsed = parseCoordinate(text);
+  expect(parsed[0]).toBeCloseTo(lon, 4);
+  expect(parsed[1]).toBeCloseTo(lat, 4);
+});
+
+test('formatCoordinate carries rounded seconds into minutes', () => {
+  expect(formatCoordinate([-122.4194, 37.7749], 'dms')).toBe('37°46\'30"N 122°25\'10"W');
+  expect(formatCoordinate([0.9999999, 59.9999999], 'dms')).toBe('60°00\'00"N 1°00\'00"E');
+  expect(formatCoordinate([-122.4194, 37.7749], 'ddm', { precision: 2 })).toBe('37°46.49\'N 122°25.16\'W');
+});
@@ -0,0 +1,335 @@
+/**
+ * Coordinate notation: parsing and formatting of positions as decimal
+ * degrees, degrees-minutes-seconds, UTM and MGRS.
+ *
+ * UTM uses the Krüger series on WGS84, accurate to well under a
+ * millimetre within a zone. UTM strings carry a latitude band letter
+ * (`10S 551234 4180123`), the same letter MGRS uses, rather than an N/S
+ * hemisphere flag.
+ */
+
+import { LonLat, normalizeLongitude } from './geo';
+
+export type CoordinateFormat = 'decimal' | 'dms' | 'ddm' | 'utm' | 'mgrs';
+
+export interface UTMCoordinate {
+  zone: number;
+  /** Latitude band letter, C–X. */
+  band: string;
+  easting: number;
+  northing: number;
+}
+
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const K0 = 0.9996;
+const FALSE_EASTING = 500000;
+const FALSE_NORTHING = 10000000;
+const BANDS = 'CDEFGHJKLMNPQRSTUVWX';
+
+// Krüger series coefficients, computed once from the WGS84 flattening
+const N = WGS84_F / (2 - WGS84_F);
+const E = Math.sqrt(WGS84_F * (2 - WGS84_F));
+const A = (WGS84_A / (1 + N)) * (1 + N ** 2 / 4 + N ** 4 / 64 + N ** 6 / 256);
+const ALPHA = [
+  0,
+  N / 2 - (2 / 3) * N ** 2 + (5 / 16) * N ** 3 + (41 / 180) * N ** 4 - (127 / 288) * N ** 5 + (7891 / 37800) * N ** 6,
+  (13 / 48) * N ** 2 - (3 / 5) * N ** 3 + (557 / 1440) * N ** 4 + (281 / 630) * N ** 5 - (1983433 / 1935360) * N ** 6,
+  (61 / 240) * N ** 3 - (103 / 140) * N ** 4 + (15061 / 26880) * N ** 5 + (167603 / 181440) * N ** 6,
+  (49561 / 161280) * N ** 4 - (179 / 168) * N ** 5 + (6601661 / 7257600) * N ** 6,
+  (34729 / 80640) * N ** 5 - (3418889 / 1995840) * N ** 6,
+  (212378941 / 319334400) * N ** 6,
+];
+const BETA = [
+  0,
+  N / 2 - (2 / 3) * N ** 2 + (37 / 96) * N ** 3 - (1 / 360) * N ** 4 - (81 / 512) * N ** 5 + (96199 / 604800) * N ** 6,
+  (1 / 48) * N ** 2 + (1 / 15) * N ** 3 - (437 / 1440) * N ** 4 + (46 / 105) * N ** 5 - (1118711 / 3870720) * N ** 6,
+  (17 / 480) * N ** 3 - (37 / 840) * N ** 4 - (209 / 4480) * N ** 5 + (5569 / 90720) * N ** 6,
+  (4397 / 161280) * N ** 4 - (11 / 504) * N ** 5 - (830251 / 7257600) * N ** 6,
+  (4583 / 161280) * N ** 5 - (108847 / 3991680) * N ** 6,
+  (20648693 / 638668800) * N ** 6,
+];
+
+const rad = (deg: number) => (deg * Math.PI) / 180;
+const deg = (r: number) => (r * 180) / Math.PI;
+
+/**
+ * Project a position to UTM. Throws outside the UTM latitude limits
+ * (80°S to 84°N). Honours the Norway and Svalbard zone exceptions.
+ */
+export function toUTM([lon, lat]: LonLat): UTMCoordinate {
+  if (!(lat >= -80 && lat <= 84)) {
+    throw new Error(`Latitude ${lat} is outside the UTM range (-80 to 84)`);
+  }
+  lon = normalizeLongitude(lon);
+  let zone = Math.floor((lon + 180) / 6) + 1;
+  const band = latitudeBand(lat);
+  // Norway and Svalbard exceptions
+  if (band === 'V' && zone === 31 && lon >= 3) zone = 32;
+  if (band === 'X') {
+    if (zone === 32) zone = lon < 9 ? 31 : 33;
+    if (zone === 34) zone = lon < 21 ? 33 : 35;
+    if (zone === 36) zone = lon < 33 ? 35 : 37;
+  }
+  return { ...projectToZone([lon, lat], zone), zone, band };
+}
+
+function projectToZone([lon, lat]: LonLat, zone: number) {
+  const lambda0 = rad((zone - 1) * 6 - 180 + 3);
+  const phi = rad(lat);
+  const lambda = rad(lon) - lambda0;
+
+  const tau = Math.tan(phi);
+  const sigma = Math.sinh(E * Math.atanh((E * tau) / Math.sqrt(1 + tau * tau)));
+  const tauP = tau * Math.sqrt(1 + sigma * sigma) - sigma * Math.sqrt(1 + tau * tau);
+  const xiP = Math.atan2(tauP, Math.cos(lambda));
+  const etaP = Math.asinh(Math.sin(lambda) / Math.sqrt(tauP * tauP + Math.cos(lambda) ** 2));
+
+  let xi = xiP;
+  let eta = etaP;
+  for (let j = 1; j <= 6; j++) {
+    xi += ALPHA[j] * Math.sin(2 * j * xiP) * Math.cosh(2 * j * etaP);
+    eta += ALPHA[j] * Math.cos(2 * j * xiP) * Math.sinh(2 * j * etaP);
+  }
+  const easting = K0 * A * eta + FALSE_EASTING;
+  let northing = K0 * A * xi;
+  if (northing < 0) northing += FALSE_NORTHING;
+  return { easting, northing };
+}
+
+/** Convert a UTM coordinate back to `[lon, lat]`. */
+export function fromUTM({ zone, band, easting, northing }: UTMCoordinate): LonLat {
+  if (!(zone >= 1 && zone <= 60)) throw new Error(`UTM zone ${zone} is out of range (1 to 60)`);
+  const b = band.toUpperCase();
+  if (!BANDS.includes(b)) throw new Error(`Unknown latitude band ${band}`);
+  const south = b < 'N';
+  const x = easting - FALSE_EASTING;
+  const y = south ? northing - FALSE_NORTHING : northing;
+
+  const eta = x / (K0 * A);
+  const xi = y / (K0 * A);
+  let xiP = xi;
+  let etaP = eta;
+  for (let j = 1; j <= 6; j++) {
+    xiP -= BETA[j] * Math.sin(2 * j * xi) * Math.cosh(2 * j * eta);
+    etaP -= BETA[j] * Math.cos(2 * j * xi) * Math.sinh(2 * j * eta);
+  }
+  const sinhEtaP = Math.sinh(etaP);
+  const cosXiP = Math.cos(xiP);
+  const tauP = Math.sin(xiP) / Math.sqrt(sinhEtaP * sinhEtaP + cosXiP * cosXiP);
+
+  // Newton-Raphson for tau from tau'
+  let tau = tauP;
+  for (let i = 0; i < 20; i++) {
+    const sigma = Math.sinh(E * Math.atanh((E * tau) / Math.sqrt(1 + tau * tau)));
+    const tauI = tau * Math.sqrt(1 + sigma * sigma) - sigma * Math.sqrt(1 + tau * tau);
+    const dTau =
+      ((tauP - tauI) / Math.sqrt(1 + tauI * tauI)) *
+      ((1 + (1 - E * E) * tau * tau) / ((1 - E * E) * Math.sqrt(1 + tau * tau)));
+    tau += dTau;
+    if (Math.abs(dTau) < 1e-12) break;
+  }
+
+  const lambda0 = rad((zone - 1) * 6 - 180 + 3);
+  const lat = deg(Math.atan(tau));
+  const lon = deg(Math.atan2(sinhEtaP, cosXiP) + lambda0);
+  return [normalizeLongitude(lon), lat];
+}
+
+function latitudeBand(lat: number): string {
+  return BANDS[Math.min(Math.floor((lat + 80) / 8), BANDS.length - 1)];
+}
+
+// MGRS 100 km square letters: column sets cycle every three zones and
+// row letters are offset by five for even zones.
+const MGRS_COLUMNS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'];
+const MGRS_ROWS = 'ABCDEFGHJKLMNPQRSTUV';
+
+/**
+ * Format a position as an MGRS grid reference, e.g.
+ * `10SEG 51234 80123`. `digits` is the number of digits per axis, from
+ * 1 (10 km) to 5 (1 m). Default 5.
+ */
+export function toMGRS(lonLat: LonLat, digits = 5): string {
+  const { zone, band, easting, northing } = toUTM(lonLat);
+  const col = MGRS_COLUMNS[(zone - 1) % 3][Math.floor(easting / 100000) - 1];
+  const row = MGRS_ROWS[(Math.floor(northing / 100000) + (zone % 2 === 0 ? 5 : 0)) % 20];
+  const scale = Math.pow(10, 5 - digits);
+  const e = String(Math.floor((easting % 100000) / scale)).padStart(digits, '0');
+  const n = String(Math.floor((northing % 100000) / scale)).padStart(digits, '0');
+  return `${zone}${band}${col}${row} ${e} ${n}`;
+}
+
+/** Parse an MGRS grid reference into `[lon, lat]` (the south-west corner of the square). */
+export function fromMGRS(text: string): LonLat {
+  const m = /^\s*(\d{1,2})\s*([C-HJ-NP-X])\s*([A-HJ-NP-Z])([A-HJ-NP-V])\s*(\d*)\s*(\d*)\s*$/i.exec(text);
+  if (!m) throw new Error(`"${text}" is not a valid MGRS reference`);
+  const zone = Number(m[1]);
+  const band = m[2].toUpperCase();
+  const colLetter = m[3].toUpperCase();
+  const rowLetter = m[4].toUpperCase();
+  const digits = m[5] + m[6];
+  if (digits.length % 2 !== 0 || digits.length > 10) {
+    throw new Error(`MGRS reference "${text}" needs an even number of up to 10 digits`);
+  }
+  const half = digits.length / 2;
+  const scale = Math.pow(10, 5 - half);
+  const e = half ? Number(digits.slice(0, half)) * scale : 0;
+  const n = half ? Number(digits.slice(half)) * scale : 0;
+
+  const col = MGRS_COLUMNS[(zone - 1) % 3].indexOf(colLetter);
+  if (col < 0) throw new Error(`Column letter ${colLetter} is not used in zone ${zone}`);
+  const row = (MGRS_ROWS.indexOf(rowLetter) - (zone % 2 === 0 ? 5 : 0) + 20) % 20;
+  const easting = (col + 1) * 100000 + e;
+
+  // rows repeat every 2000 km; pick the repetition that lands in the band
+  const bandLat = -80 + BANDS.indexOf(band) * 8;
+  const bandNorthing = projectToZone([(zone - 1) * 6 - 180 + 3, bandLat], zone).northing;
+  let northing = row * 100000 + n;
+  while (northing < bandNorthing - 100000) northing += 2000000;
+  return fromUTM({ zone, band, easting, northing });
+}
+
+export interface FormatCoordinateOptions {
+  /**
+   * Decimal places: of degrees for `decimal`, of minutes for `ddm`, of
+   * seconds for `dms`. For `mgrs` the digits per axis.
+   */
+  precision?: number;
+}
+
+/**
+ * Format a position in the given notation. Decimal, DMS and DDM output
+ * lists latitude first, as people read and write coordinates.
+ */
+export function formatCoordinate(
+  [lon, lat]: LonLat,
+  format: CoordinateFormat = 'decimal',
+  { precision }: FormatCoordinateOptions = {}
+): string {
+  switch (format) {
+    case 'decimal':
+      return `${lat.toFixed(precision ?? 5)}, ${lon.toFixed(precision ?? 5)}`;
+    case 'dms':
+    case 'ddm':
+      return `${formatAngle(lat, 'NS', format, precision)} ${formatAngle(lon, 'EW', format, precision)}`;
+    case 'utm': {
+      const u = toUTM([lon, lat]);
+      return `${u.zone}${u.band} ${Math.floor(u.easting)} ${Math.floor(u.northing)}`;
+    }
+    case 'mgrs':
+      return toMGRS([lon, lat], precision ?? 5);
+  }
+}
+
+function formatAngle(v: number, hemispheres: 'NS' | 'EW', format: 'dms' | 'ddm', precision?: number) {
+  const hemi = v < 0 ? hemispheres[1] : hemispheres[0];
+  const abs = Math.abs(v);
+  let d = Math.floor(abs);
+  if (format === 'ddm') {
+    const p = precision ?? 3;
+    let m = +((abs - d) * 60).toFixed(p);
+    if (m >= 60) {
+      m -= 60;
+      d += 1;
+    }
+    return `${d}°${m.toFixed(p).padStart(p ? p + 3 : 2, '0')}'${hemi}`;
+  }
+  const p = precision ?? 0;
+  let m = Math.floor((abs - d) * 60);
+  let s = +((abs - d - m / 60) * 3600).toFixed(p);
+  // carry rounding overflow into minutes and degrees
+  if (s >= 60) {
+    s -= 60;
+    m += 1;
+  }
+  if (m >= 60) {
+    m -= 60;
+    d += 1;
+  }
+  return `${d}°${String(m).padStart(2, '0')}'${s.toFixed(p).padStart(p ? p + 3 : 2, '0')}"${hemi}`;
+}
+
+export interface ParseCoordinateOptions {
+  /** Axis order for unlabelled pairs such as `37.77, -122.44`. Default `'latlon'`. */
+  order?: 'latlon' | 'lonlat';
+}
+
+/**
+ * Parse a position written as decimal degrees (`37.77, -122.44`),
+ * degrees-minutes-seconds (`37°46'12"N 122°26'24"W`), degrees and
+ * decimal minutes, UTM (`10S 551234 4180123`) or MGRS
+ * (`10SEG 51234 80123`). Returns `[lon, lat]`. Throws an `Error` with a
+ * readable message when the text cannot be understood or lies out of
+ * range.
+ */
+export function parseCoordinate(text: string, { order = 'latlon' }: ParseCoordinateOptions = {}): LonLat {
+  const src = text.trim().toUpperCase();
+  if (!src) throw new Error('Enter a coordinate');
+
+  if (/^\d{1,2}\s*[C-HJ-NP-X]\s*[A-HJ-NP-Z][A-HJ-NP-V]\s*\d*\s*\d*$/.test(src)) {
+    return fromMGRS(src);
+  }
+  const utm = /^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d+(?:\.\d+)?)\s*(?:ME)?\s+(\d+(?:\.\d+)?)\s*(?:MN)?$/.exec(src);
+  if (utm) {
+    return fromUTM({ zone: Number(utm[1]), band: utm[2], easting: Number(utm[3]), northing: Number(utm[4]) });
+  }
+
+  const parts = splitPair(src);
+  if (!parts) throw new Error(`"${text}" is not a recognised coordinate`);
+  const [first, second] = parts.map(parseAngle);
+  let lat: number;
+  let lon: number;
+  if (first.axis === 'lon' || second.axis === 'lat') {
+    [lon, lat] = [first.value, second.value];
+  } else if (first.axis === 'lat' || second.axis === 'lon') {
+    [lat, lon] = [first.value, second.value];
+  } else if (order === 'lonlat') {
+    [lon, lat] = [first.value, second.value];
+  } else {
+    [lat, lon] = [first.value, second.value];
+  }
+  if (!(lat >= -90 && lat <= 90)) {
+    throw new Error(`Latitude ${lat} is out of range (-90 to 90)`);
+  }
+  if (!(lon >= -180 && lon <= 180)) {
+    throw new Error(`Longitude ${lon} is out of range (-180 to 180)`);
+  }
+  return [lon, lat];
+}
+
+function splitPair(src: string): [string, string] | null {
+  const byComma = src.split(/[,;]/);
+  if (byComma.length === 2) return [byComma[0], byComma[1]];
+  if (byComma.length > 2) return null;
+  // hemisphere letters after each half: 37 46 12 N 122 26 24 W
+  const suffixed = /^(.*?[NSEW])\s*(.+[NSEW])$/.exec(src);
+  if (suffixed && /\d/.test(suffixed[1])) return [suffixed[1], suffixed[2]];
+  // hemisphere letters before each half: N37 46 12 W122 26 24
+  const prefixed = /^([NSEW].*?)\s*([NSEW].*)$/.exec(src);
+  if (prefixed) return [prefixed[1], prefixed[2]];
+  // plain numbers: split evenly, e.g. "37.77 -122.44" or "37 46 12 122 26 24"
+  const tokens = src.split(/\s+/);
+  if (tokens.length % 2 !== 0) return null;
+  const half = tokens.length / 2;
+  return [tokens.slice(0, half).join(' '), tokens.slice(half).join(' ')];
+}
+
+function parseAngle(part: string): { value: number; axis?: 'lat' | 'lon' } {
+  const hemi = /[NSEW]/.exec(part)?.[0];
+  const body = part.replace(/[NSEW]/g, ' ').trim();
+  if (!/^[+\-−]?\d/.test(body) || /[^\d\s.+\-−°º:'′’"″”D]/.test(body)) {
+    throw new Error(`"${part.trim()}" is not a recognised angle`);
+  }
+  const numbers = (body.match(/\d+(?:\.\d+)?/g) ?? []).map(Number);
+  if (numbers.length === 0 || numbers.length > 3) {
+    throw new Error(`"${part.trim()}" is not a recognised angle`);
+  }
+  const [d, m = 0, s = 0] = numbers;
+  if (m >= 60 || s >= 60) throw new Error(`Minutes and seconds in "${part.trim()}" must be below 60`);
+  let value = d + m / 60 + s / 3600;
+  if (/^[\-−]/.test(body)) value = -value;
+  if (hemi === 'S' || hemi === 'W') value = -Math.abs(value);
+  const axis = hemi === 'N' || hemi === 'S' ? 'lat' : hemi ? 'lon' : undefined;
+  return { value, axis };
+}
@@ -0,0 +1,73 @@
+import { formatDuration, joinDuration, orderSegments, parseDuration, splitDuration } from './duration';
+
+test.each([
+  ['PT1H30M', 5400],
+  ['P2D', 172800],
+  ['P1W', 604800],
+  ['P1DT2H3M4S', 93784],
+  ['PT1.5S', 1.5],
+  ['PT0,25S', 0.25],
+  ['pt90m', 5400],
+  ['-PT1H', -3600],
+  ['1h30m', 5400],
+  ['1h 30m 15s', 5415],
+  ['1.5h', 5400],
+  ['250ms', 0.25],
+  ['2 days 3 hours', 183600],
+  ['1:30', 5400],
+  ['1:30:15.5', 5415.5],
+  ['90', 90],
+  ['−45s', -45],
+])('parseDuration(%s) is %f seconds', (text, seconds) => {
+  expect(parseDuration(text)).toBe(seconds);
+});
+
+test.each([
+  ['', 'Enter a duration'],
+  ['P1Y', 'Years and months have no fixed length; use weeks, days or smaller units'],
+  ['P1M', 'Years and months have no fixed length'],
+  ['P', '"P" is not a valid ISO 8601 duration'],
+  ['PT', '"PT" is not a valid ISO 8601 duration'],
+  ['P1DT', '"P1DT" is not a valid ISO 8601 duration'],
+  ['PT1S2M', '"PT1S2M" is not a valid ISO 8601 duration'],
+  ['P1H', '"P1H" is not a valid ISO 8601 duration'],
+  ['1:75', 'Minutes and seconds in "1:75" must be below 60'],
+  ['1h 2h', '"1h 2h" is not a recognised duration'],
+  ['3 fortnights', '"3 fortnights" is not a recognised duration'],
+  ['soon', '"soon" is not a recognised duration'],
+])('parseDuration(%s) throws', (text, message) => {
+  expect(() => parseDuration(text)).toThrow(message);
+});
+
+test.each([
+  [0, 'PT0S', '0s'],
+  [5400, 'PT1H30M', '1h30m'],
+  [93784, 'P1DT2H3M4S', '1d2h3m4s'],
+  [172800, 'P2D', '2d'],
+  [1.5, 'PT1.5S', '1s500ms'],
+  [0.001, 'PT0.001S', '1ms'],
+  [-90, '-PT1M30S', '-1m30s'],
+])('formatDuration(%f) is %s and %s', (seconds, iso, compact) => {
+  expect(formatDuration(seconds)).toBe(iso);
+  expect(formatDuration(seconds, 'compact')).toBe(compact);
+  expect(parseDuration(iso)).toBe(seconds);
+  expect(parseDuration(compact)).toBe(seconds);
+});
+
+test('splitDuration carries into the largest segment and rounds the smallest', () => {
+  expect(splitDuration(93784, ['hours', 'minutes'])).toEqual({ hours: 26, minutes: 3 });
+  expect(splitDuration(89, ['minutes'])).toEqual({ minutes: 1 });
+  expect(splitDuration(3599.9996, ['minutes', 'seconds', 'milliseconds'])).toEqual({
+    minutes: 60,
+    seconds: 0,
+    milliseconds: 0,
+  });
+  expect(splitDuration(-5, ['seconds'])).toEqual({ seconds: 0 });
+  expect(() => splitDuration(5, [])).toThrow('A duration needs at least one segment');
+});
+
+test('joinDuration borrows across segments', () => {
+  expect(joinDuration({ hours: 1, minutes: -1 })).toBe(3540);
+  expect(joinDuration({ seconds: 0.1, milliseconds: 200 })).toBe(0.3);
+  expect(orderSegments(['seconds', 'days', 'seconds'])).toEqual(['days', 'seconds']);
+});
@@ -0,0 +1,174 @@
+/**
+ * Durations: splitting a number of seconds into calendar-free segments
+ * (days, hours, minutes, seconds, milliseconds), and reading and
+ * writing them as ISO 8601 (`PT1H30M`) or compact text (`1h30m`).
+ *
+ * Only units of fixed length are supported. A day is taken as 24 hours;
+ * ISO years and months are rejected because their length depends on
+ * the calendar.
+ */
+
+export type DurationSegment = 'days' | 'hours' | 'minutes' | 'seconds' | 'milliseconds';
+
+/** Length of each segment in seconds, largest first. */
+export const durationSegmentSeconds: Record<DurationSegment, number> = {
+  days: 86400,
+  hours: 3600,
+  minutes: 60,
+  seconds: 1,
+  milliseconds: 0.001,
+};
+
+const ORDER = Object.keys(durationSegmentSeconds) as DurationSegment[];
+
+/** Sort segments largest first and drop duplicates. */
+export function orderSegments(segments: DurationSegment[]): DurationSegment[] {
+  return ORDER.filter((s) => segments.includes(s));
+}
+
+/**
+ * Split a non-negative duration into the given segments. The largest
+ * segment takes whatever does not fit below it (e.g. 26 hours when
+ * there is no day segment); the smallest is rounded.
+ */
+export function splitDuration(
+  seconds: number,
+  segments: DurationSegment[]
+): Partial<Record<DurationSegment, number>> {
+  const ordered = orderSegments(segments);
+  if (ordered.length === 0) throw new Error('A duration needs at least one segment');
+  const smallest = durationSegmentSeconds[ordered[ordered.length - 1]];
+  // count in units of the smallest segment, so the rest is integer maths
+  let rest = Math.round(Math.max(0, seconds) / smallest);
+  const parts: Partial<Record<DurationSegment, number>> = {};
+  for (const segment of ordered) {
+    const size = Math.round(durationSegmentSeconds[segment] / smallest);
+    parts[segment] = Math.floor(rest / size);
+    rest -= parts[segment]! * size;
+  }
+  return parts;
+}
+
+/** Total seconds of a set of segment values. Values may be negative or fractional. */
+export function joinDuration(parts: Partial<Record<DurationSegment, number>>): number {
+  const ms = ORDER.reduce((sum, s) => sum + (parts[s] ?? 0) * durationSegmentSeconds[s] * 1000, 0);
+  return Math.round(ms) / 1000;
+}
+
+export type DurationFormat = 'iso' | 'compact';
+
+/**
+ * Format a duration in seconds as ISO 8601 (`P1DT2H30M`, `PT1.5S`) or
+ * compact text (`1d2h30m`, `1s500ms`). Zero is `PT0S` or `0s`;
+ * negative durations get a leading minus. Precision is one
+ * millisecond.
+ */
+export function formatDuration(seconds: number, format: DurationFormat = 'iso'): string {
+  const sign = seconds < 0 ? '-' : '';
+  const { days, hours, minutes, seconds: s, milliseconds: ms } = splitDuration(
+    Math.abs(seconds),
+    ORDER
+  ) as Record<DurationSegment, number>;
+
+  if (format === 'compact') {
+    const text = ([
+      [days, 'd'],
+      [hours, 'h'],
+      [minutes, 'm'],
+      [s, 's'],
+      [ms, 'ms'],
+    ] as const)
+      .filter(([n]) => n > 0)
+      .map(([n, unit]) => `${n}${unit}`)
+      .join('');
+    return text ? sign + text : '0s';
+  }
+
+  const fraction = ms ? `.${String(ms).padStart(3, '0').replace(/0+$/, '')}` : '';
+  const time =
+    (hours ? `${hours}H` : '') + (minutes ? `${minutes}M` : '') + (s || ms ? `${s}${fraction}S` : '');
+  if (!days && !time) return 'PT0S';
+  return `${sign}P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`;
+}
+
+const UNIT_ALIASES: Record<string, DurationSegment> = {
+  d: 'days',
+  day: 'days',
+  days: 'days',
+  h: 'hours',
+  hr: 'hours',
+  hrs: 'hours',
+  hour: 'hours',
+  hours: 'hours',
+  m: 'minutes',
+  min: 'minutes',
+  mins: 'minutes',
+  minute: 'minutes',
+  minutes: 'minutes',
+  s: 'seconds',
+  sec: 'seconds',
+  secs: 'seconds',
+  second: 'seconds',
+  seconds: 'seconds',
+  ms: 'milliseconds',
+  msec: 'milliseconds',
+  millisecond: 'milliseconds',
+  milliseconds: 'milliseconds',
+};
+
+/**
+ * Parse a duration written as ISO 8601 (`PT1H30M`, `P2D`, `P1W`),
+ * compact text (`1h30m`, `1h 30m 15s`, `1.5h`, `250ms`), a clock
+ * (`1:30` for hours and minutes, `1:30:15`) or a plain number of
+ * seconds. Returns seconds. Throws an `Error` with a readable message
+ * when the text cannot be understood.
+ */
+export function parseDuration(text: string): number {
+  let src = text.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (!src) throw new Error('Enter a duration');
+  let sign = 1;
+  if (/^[-−]/.test(src)) {
+    sign = -1;
+    src = src.slice(1).trim();
+  }
+  const num = (s: string | undefined) => (s ? Number(s.replace(',', '.')) : 0);
+
+  if (src.startsWith('p')) {
+    const [date, time, extra] = src.slice(1).split('t');
+    if (/[ym]/.test(date)) {
+      throw new Error('Years and months have no fixed length; use weeks, days or smaller units');
+    }
+    const n = '(\\d+(?:[.,]\\d+)?)';
+    const d = new RegExp(`^(?:${n}w)?(?:${n}d)?$`).exec(date);
+    const t = time === undefined ? [] : new RegExp(`^(?:${n}h)?(?:${n}m)?(?:${n}s)?$`).exec(time);
+    if (!d || !t || extra !== undefined || time === '' || src === 'p') {
+      throw new Error(`"${text.trim()}" is not a valid ISO 8601 duration`);
+    }
+    return (
+      sign *
+      joinDuration({ days: num(d[1]) * 7 + num(d[2]), hours: num(t[1]), minutes: num(t[2]), seconds: num(t[3]) })
+    );
+  }
+
+  const clock = /^(\d+):(\d{1,2})(?::(\d{1,2}(?:[.,]\d+)?))?$/.exec(src);
+  if (clock) {
+    if (num(clock[2]) >= 60 || num(clock[3]) >= 60) {
+      throw new Error(`Minutes and seconds in "${text.trim()}" must be below 60`);
+    }
+    return sign * joinDuration({ hours: num(clock[1]), minutes: num(clock[2]), seconds: num(clock[3]) });
+  }
+
+  if (/^\d+(?:[.,]\d+)?$/.test(src)) return sign * num(src);
+
+  const parts: Partial<Record<DurationSegment, number>> = {};
+  const rest = src.replace(/(\d+(?:[.,]\d+)?) ?([a-z]+) ?/g, (_, value: string, unit: string) => {
+    const segment = UNIT_ALIASES[unit];
+    if (!segment || parts[segment] !== undefined) return '!';
+    parts[segment] = num(value);
+    return '';
+  });
+  if (rest !== '' || Object.keys(parts).length === 0) {
+    throw new Error(`"${text.trim()}" is not a recognised duration`);
+  }
+  return sign * joinDuration(parts);
+}
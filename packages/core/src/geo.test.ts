@@ -0,0 +1,105 @@
+import {
+  LonLat,
+  destination,
+  finalBearing,
+  greatCircleDistance,
+  initialBearing,
+  midpoint,
+  normalizeLongitude,
+  ringSelfIntersects,
+  sphericalArea,
+  vincentyDistance,
+  vincentyInverse,
+} from './geo';
+
+const dms = (d: number, m: number, s: number) => (d < 0 ? -1 : 1) * (Math.abs(d) + m / 60 + s / 3600);
+
+test('Vincenty reproduces the Flinders Peak to Buninyong geodesic', () => {
+  const flindersPeak: LonLat = [dms(144, 25, 29.5244), dms(-37, 57, 3.7203)];
+  const buninyong: LonLat = [dms(143, 55, 35.3839), dms(-37, 39, 10.1561)];
+  const result = vincentyInverse(flindersPeak, buninyong);
+  expect(result.distance.value).toBeCloseTo(54972.271, 3);
+  expect(result.initialBearing).toBeCloseTo(dms(306, 52, 5.37), 5);
+  expect(result.finalBearing).toBeCloseTo(dms(307, 10, 25.07), 5);
+});
+
+test('Vincenty distances along the equator and a meridian', () => {
+  expect(vincentyDistance([0, 0], [1, 0]).value).toBeCloseTo(111319.491, 3);
+  expect(vincentyDistance([0, 0], [0, 90]).value).toBeCloseTo(10001965.729, 3);
+  expect(vincentyInverse([-10, 0], [10, 0])).toMatchObject({ initialBearing: 90, finalBearing: 90 });
+  expect(vincentyDistance([5, 5], [5, 5]).value).toBe(0);
+});
+
+test('Vincenty gives up on nearly antipodal points', () => {
+  expect(() => vincentyInverse([0, 0], [179.7, 0.5])).toThrow('failed to converge');
+});
+
+describe('great circle', () => {
+  // Land's End to John o' Groats
+  const from: LonLat = [dms(-5, 42, 53), dms(50, 3, 59)];
+  const to: LonLat = [dms(-3, 4, 12), dms(58, 38, 38)];
+
+  test('haversine distance', () => {
+    expect(greatCircleDistance(from, to).value / 1000).toBeCloseTo(968.9, 1);
+    expect(greatCircleDistance([0, 0], [180, 0]).value).toBeCloseTo(Math.PI * 6371008.8, 3);
+  });
+
+  test('bearings and midpoint', () => {
+    expect(initialBearing(from, to)).toBeCloseTo(dms(9, 7, 11), 3);
+    expect(finalBearing(from, to)).toBeCloseTo(dms(11, 16, 31), 3);
+    const [lon, lat] = midpoint(from, to);
+    expect(lon).toBeCloseTo(dms(-4, 31, 50), 3);
+    expect(lat).toBeCloseTo(dms(54, 21, 44), 3);
+  });
+
+  test('destination', () => {
+    const [lon, lat] = destination([dms(-1, 43, 47), dms(53, 19, 14)], dms(96, 1, 18), { value: 124.8, unit: 'km' });
+    expect(lon).toBeCloseTo(dms(0, 8, 0), 3);
+    expect(lat).toBeCloseTo(dms(53, 11, 18), 3);
+    expect(destination([179.5, 0], 90, { value: 60, unit: 'nm' })[0]).toBeCloseTo(-179.5, 2);
+  });
+});
+
+test('normalizeLongitude wraps into [-180, 180)', () => {
+  expect(normalizeLongitude(190)).toBe(-170);
+  expect(normalizeLongitude(180)).toBe(-180);
+  expect(normalizeLongitude(-540)).toBe(-180);
+  expect(normalizeLongitude(45)).toBe(45);
+});
+
+describe('sphericalArea', () => {
+  const R2 = 6371008.8 ** 2;
+
+  // a cell bounded by meridians and parallels covers R² Δλ (sin φ2 - sin φ1)
+  test('matches the area of latitude and longitude cells', () => {
+    const degree = sphericalArea([[0, 0], [1, 0], [1, 1], [0, 1]]).value;
+    expect(degree).toBeCloseTo(R2 * (Math.PI / 180) * Math.sin(Math.PI / 180), 0);
+    const cell: LonLat[] = [[0, 0], [90, 0], [90, 60], [0, 60], [0, 0]];
+    expect(sphericalArea(cell).value / (R2 * (Math.PI / 2) * Math.sin(Math.PI / 3))).toBeCloseTo(1, 12);
+  });
+
+  test('ignores winding order and works across the antimeridian', () => {
+    const ring: LonLat[] = [[179, -1], [-179, -1], [-179, 1], [179, 1]];
+    const area = sphericalArea(ring).value;
+    expect(area).toBeCloseTo(R2 * (Math.PI / 90) * 2 * Math.sin(Math.PI / 180), 0);
+    expect(sphericalArea([...ring].reverse()).value).toBeCloseTo(area, 6);
+  });
+});
+
+test.each<[string, LonLat[], boolean]>([
+  ['a square', [[0, 0], [1, 0], [1, 1], [0, 1]], false],
+  ['a closed square', [[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]], false],
+  ['a concave ring', [[0, 0], [2, 0], [1, 1], [2, 2], [0, 2]], false],
+  ['a bow tie', [[0, 0], [1, 1], [1, 0], [0, 1]], true],
+  ['a ring touching itself', [[0, 0], [2, 0], [1, 1], [2, 2], [0, 2], [1, 1]], true],
+  ['two points', [[0, 0], [1, 1]], true],
+  ['two points and a repeat', [[0, 0], [0, 0], [1, 1]], true],
+  ['a square with repeated corners', [[0, 0], [1, 0], [1, 0], [1, 1], [0, 1], [0, 1], [0, 0]], false],
+  ['a line', [[0, 0], [1, 1], [2, 2]], true],
+  ['a line at fractional steps', [[0, 0], [0.1, 0.1], [0.3, 0.3], [0.7, 0.7]], true],
+  ['a spike doubling back', [[0, 0], [2, 0], [2, 2], [2, 1], [0, 2]], true],
+  ['a spike from a corner', [[0, 0], [3, 0], [1, 0], [1, 1]], true],
+  ['a thin sliver', [[0, 0], [1, 0], [1, 1e-6]], false],
+])('ringSelfIntersects(%s) is %s', (_, ring, expected) => {
+  expect(ringSelfIntersects(ring)).toBe(expected);
+});
@@ -0,0 +1,281 @@
+/**
+ * Geodesy helpers.
+ *
+ * Positions are `[longitude, latitude]` tuples in degrees, the same
+ * order used by GeoJSON and OpenLayers. Distances are returned as metre
+ * quantities and accepted in any length unit; areas are returned in
+ * square metres. Rings are lists of positions, with or without the
+ * closing repeat of the first. Bearings are degrees clockwise from true
+ * north in [0, 360).
+ */
+
+import { Quantity, convert } from './quantity';
+import { LengthUnit } from './units';
+import { normalizeDegrees } from './angle';
+
+export type LonLat = [number, number];
+
+/** Mean Earth radius (IUGG) in metres, used by the spherical formulas. */
+export const EARTH_RADIUS = 6371008.8;
+
+// WGS84 ellipsoid
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_B = WGS84_A * (1 - WGS84_F);
+
+const rad = (deg: number) => (deg * Math.PI) / 180;
+const deg = (r: number) => (r * 180) / Math.PI;
+
+/**
+ * Great-circle distance on a spherical Earth using the haversine
+ * formula. Accurate to about 0.5%; use `vincentyDistance` where that
+ * matters.
+ */
+export function greatCircleDistance(a: LonLat, b: LonLat): Quantity<'m'> {
+  const phi1 = rad(a[1]);
+  const phi2 = rad(b[1]);
+  const dPhi = phi2 - phi1;
+  const dLambda = rad(b[0] - a[0]);
+  const h =
+    Math.sin(dPhi / 2) ** 2 + Math.cos(phi1) * Math.cos(phi2) * Math.sin(dLambda / 2) ** 2;
+  return { value: 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(h))), unit: 'm' };
+}
+
+export interface VincentyResult {
+  distance: Quantity<'m'>;
+  initialBearing: number;
+  finalBearing: number;
+}
+
+/**
+ * Solve the inverse geodesic problem on the WGS84 ellipsoid with
+ * Vincenty's formulae. Accurate to well under a millimetre. Throws for
+ * nearly antipodal points, where the iteration does not converge.
+ */
+export function vincentyInverse(a: LonLat, b: LonLat): VincentyResult {
+  const f = WGS84_F;
+  const L = rad(b[0] - a[0]);
+  const tanU1 = (1 - f) * Math.tan(rad(a[1]));
+  const cosU1 = 1 / Math.sqrt(1 + tanU1 * tanU1);
+  const sinU1 = tanU1 * cosU1;
+  const tanU2 = (1 - f) * Math.tan(rad(b[1]));
+  const cosU2 = 1 / Math.sqrt(1 + tanU2 * tanU2);
+  const sinU2 = tanU2 * cosU2;
+
+  let lambda = L;
+  let sinLambda = 0;
+  let cosLambda = 1;
+  let sinSigma = 0;
+  let cosSigma = 1;
+  let sigma = 0;
+  let cosSqAlpha = 1;
+  let cos2SigmaM = 0;
+  let iterations = 0;
+  let lambdaPrev: number;
+  do {
+    sinLambda = Math.sin(lambda);
+    cosLambda = Math.cos(lambda);
+    const sinSqSigma =
+      (cosU2 * sinLambda) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2;
+    sinSigma = Math.sqrt(sinSqSigma);
+    if (sinSigma === 0) {
+      // coincident points
+      return { distance: { value: 0, unit: 'm' }, initialBearing: 0, finalBearing: 0 };
+    }
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    cosSqAlpha = 1 - sinAlpha * sinAlpha;
+    // equatorial lines have cosSqAlpha = 0
+    cos2SigmaM = cosSqAlpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cosSqAlpha : 0;
+    const C = (f / 16) * cosSqAlpha * (4 + f * (4 - 3 * cosSqAlpha));
+    lambdaPrev = lambda;
+    lambda =
+      L +
+      (1 - C) *
+        f *
+        sinAlpha *
+        (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM ** 2)));
+    if (++iterations > 200) {
+      throw new Error('Vincenty formula failed to converge (points nearly antipodal)');
+    }
+  } while (Math.abs(lambda - lambdaPrev) > 1e-12);
+
+  const uSq = (cosSqAlpha * (WGS84_A ** 2 - WGS84_B ** 2)) / WGS84_B ** 2;
+  const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+  const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+  const deltaSigma =
+    B *
+    sinSigma *
+    (cos2SigmaM +
+      (B / 4) *
+        (cosSigma * (-1 + 2 * cos2SigmaM ** 2) -
+          (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma ** 2) * (-3 + 4 * cos2SigmaM ** 2)));
+  const s = WGS84_B * A * (sigma - deltaSigma);
+
+  const alpha1 = Math.atan2(cosU2 * sinLambda, cosU1 * sinU2 - sinU1 * cosU2 * cosLambda);
+  const alpha2 = Math.atan2(cosU1 * sinLambda, -sinU1 * cosU2 + cosU1 * sinU2 * cosLambda);
+  return {
+    distance: { value: s, unit: 'm' },
+    initialBearing: normalizeDegrees(deg(alpha1)),
+    finalBearing: normalizeDegrees(deg(alpha2)),
+  };
+}
+
+/** Ellipsoidal (WGS84) distance between two points. See `vincentyInverse`. */
+export function vincentyDistance(a: LonLat, b: LonLat): Quantity<'m'> {
+  return vincentyInverse(a, b).distance;
+}
+
+/** Great-circle bearing when setting off from `a` towards `b`. */
+export function initialBearing(a: LonLat, b: LonLat): number {
+  const phi1 = rad(a[1]);
+  const phi2 = rad(b[1]);
+  const dLambda = rad(b[0] - a[0]);
+  const y = Math.sin(dLambda) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLambda);
+  return normalizeDegrees(deg(Math.atan2(y, x)));
+}
+
+/** Great-circle bearing on arrival at `b` when coming from `a`. */
+export function finalBearing(a: LonLat, b: LonLat): number {
+  return normalizeDegrees(initialBearing(b, a) + 180);
+}
+
+/**
+ * Point reached by travelling `distance` along a great circle from
+ * `from`, setting off on `bearing` degrees.
+ */
+export function destination(from: LonLat, bearing: number, distance: Quantity<LengthUnit>): LonLat {
+  const delta = convert(distance, 'm').value / EARTH_RADIUS;
+  const theta = rad(bearing);
+  const phi1 = rad(from[1]);
+  const lambda1 = rad(from[0]);
+  const sinPhi2 =
+    Math.sin(phi1) * Math.cos(delta) + Math.cos(phi1) * Math.sin(delta) * Math.cos(theta);
+  const phi2 = Math.asin(sinPhi2);
+  const lambda2 =
+    lambda1 +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(delta) * Math.cos(phi1),
+      Math.cos(delta) - Math.sin(phi1) * sinPhi2
+    );
+  return [normalizeLongitude(deg(lambda2)), deg(phi2)];
+}
+
+/** Half-way point along the great circle between `a` and `b`. */
+export function midpoint(a: LonLat, b: LonLat): LonLat {
+  const phi1 = rad(a[1]);
+  const phi2 = rad(b[1]);
+  const lambda1 = rad(a[0]);
+  const dLambda = rad(b[0] - a[0]);
+  const bx = Math.cos(phi2) * Math.cos(dLambda);
+  const by = Math.cos(phi2) * Math.sin(dLambda);
+  const phi3 = Math.atan2(
+    Math.sin(phi1) + Math.sin(phi2),
+    Math.sqrt((Math.cos(phi1) + bx) ** 2 + by * by)
+  );
+  const lambda3 = lambda1 + Math.atan2(by, Math.cos(phi1) + bx);
+  return [normalizeLongitude(deg(lambda3)), deg(phi3)];
+}
+
+/** Wrap a longitude into [-180, 180). */
+export function normalizeLongitude(lon: number): number {
+  return normalizeDegrees(lon + 180) - 180;
+}
+
+function openRing(ring: LonLat[]): LonLat[] {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return ring.length > 1 && first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+}
+
+/**
+ * Area enclosed by a ring on a spherical Earth, from the spherical
+ * excess of its edges. Winding order does not matter.
+ */
+export function sphericalArea(ring: LonLat[]): Quantity<'m2'> {
+  const points = openRing(ring);
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const dLambda = rad(normalizeLongitude(b[0] - a[0]));
+    sum += dLambda * (2 + Math.sin(rad(a[1])) + Math.sin(rad(b[1])));
+  }
+  return { value: Math.abs((sum * EARTH_RADIUS * EARTH_RADIUS) / 2), unit: 'm2' };
+}
+
+/**
+ * Ring of `segments` points at `radius` around `center`, approximating
+ * a circle for formats without one, such as GeoJSON. The ring is open.
+ */
+export function circleRing(center: LonLat, radius: Quantity<LengthUnit>, segments = 64): LonLat[] {
+  return Array.from({ length: segments }, (_, i) => destination(center, (360 * i) / segments, radius));
+}
+
+/**
+ * Whether a ring crosses or touches itself, treating edges as straight
+ * lines in longitude and latitude: two non-adjacent edges meet, or an
+ * edge doubles back along the one before it. Repeated consecutive
+ * points are ignored. Rings with fewer than three distinct points or no
+ * area count as degenerate and return true.
+ */
+export function ringSelfIntersects(ring: LonLat[]): boolean {
+  const points = openRing(ring).filter((p, i, all) => i === 0 || !samePoint(p, all[i - 1]));
+  if (points.length > 1 && samePoint(points[0], points[points.length - 1])) points.pop();
+  const n = points.length;
+  if (n < 3 || hasNoArea(points)) return true;
+  for (let i = 0; i < n; i++) {
+    if (doublesBack(points[i], points[(i + 1) % n], points[(i + 2) % n])) return true;
+    for (let j = i + 1; j < n; j++) {
+      // edges sharing a vertex
+      if (j === i + 1 || (i === 0 && j === n - 1)) continue;
+      if (segmentsIntersect(points[i], points[(i + 1) % n], points[j], points[(j + 1) % n])) return true;
+    }
+  }
+  return false;
+}
+
+// relative tolerance for collinearity, well above rounding error
+const COLLINEAR = 1e-12;
+
+const samePoint = (a: LonLat, b: LonLat) => a[0] === b[0] && a[1] === b[1];
+
+const cross = (o: LonLat, a: LonLat, b: LonLat) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+function hasNoArea(points: LonLat[]): boolean {
+  let twiceArea = 0;
+  for (let i = 1; i < points.length - 1; i++) twiceArea += cross(points[0], points[i], points[i + 1]);
+  const lons = points.map((p) => p[0]);
+  const lats = points.map((p) => p[1]);
+  const size = (Math.max(...lons) - Math.min(...lons)) * (Math.max(...lats) - Math.min(...lats));
+  return Math.abs(twiceArea) <= COLLINEAR * size;
+}
+
+// the edge b→c turns back along a→b
+function doublesBack(a: LonLat, b: LonLat, c: LonLat): boolean {
+  const ab = Math.hypot(b[0] - a[0], b[1] - a[1]);
+  const bc = Math.hypot(c[0] - b[0], c[1] - b[1]);
+  const dot = (b[0] - a[0]) * (c[0] - b[0]) + (b[1] - a[1]) * (c[1] - b[1]);
+  return dot < 0 && Math.abs(cross(a, b, c)) <= COLLINEAR * ab * bc;
+}
+
+function segmentsIntersect(a: LonLat, b: LonLat, c: LonLat, d: LonLat): boolean {
+  const orient = (p: LonLat, q: LonLat, r: LonLat) =>
+    Math.sign((q[0] - p[0]) * (r[1] - p[1]) - (q[1] - p[1]) * (r[0] - p[0]));
+  const onSegment = (p: LonLat, q: LonLat, r: LonLat) =>
+    Math.min(p[0], q[0]) <= r[0] && r[0] <= Math.max(p[0], q[0]) &&
+    Math.min(p[1], q[1]) <= r[1] && r[1] <= Math.max(p[1], q[1]);
+  const o1 = orient(a, b, c);
+  const o2 = orient(a, b, d);
+  const o3 = orient(c, d, a);
+  const o4 = orient(c, d, b);
+  if (o1 !== o2 && o3 !== o4) return true;
+  return (
+    (o1 === 0 && onSegment(a, b, c)) ||
+    (o2 === 0 && onSegment(a, b, d)) ||
+    (o3 === 0 && onSegment(c, d, a)) ||
+    (o4 === 0 && onSegment(c, d, b))
+  );
+}
@@ -1 +1,11 @@
-export * from './quantity';
\ No newline at end of file
+export * from './units';
+export * from './quantity';
+export * from './locale';
+export * from './angle';
+export * from './magnetic';
+export * from './geo';
+export * from './coordinates';
+export * from './altitude';
+export * from './scale';
+export * from './duration';
+export * from './time';
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { formatQuantity, parseQuantity } from './locale';
+
+test.each([
+  ['29.92 inHg', { value: 29.92, unit: 'inHg' }],
+  ['29.92"Hg', { value: 29.92, unit: 'inHg' }],
+  ['29.92 inches of mercury', { value: 29.92, unit: 'inHg' }],
+  ['1013 mb', { value: 1013, unit: 'hPa' }],
+])('parseQuantity reads %s', (text, expected) => {
+  expect(parseQuantity(text, 'en')).toEqual(expected);
+});
+
+test('inches are not mistaken for inches of mercury', () => {
+  expect(parseQuantity('12 in', 'en')).toBeNull();
+  expect(parseQuantity('12 inches', 'en')).toBeNull();
+});
+
+test('separators follow the locale', () => {
+  expect(parseQuantity('1.200,5 ft', 'de')).toEqual({ value: 1200.5, unit: 'ft' });
+  expect(parseQuantity('1,200.5 ft', 'en')).toEqual({ value: 1200.5, unit: 'ft' });
+  expect(parseQuantity('1.2.3 ft', 'en')).toBeNull();
+  expect(parseQuantity('35', 'en', { dimension: 'speed', defaultUnit: 'kts' })).toEqual({ value: 35, unit: 'kts' });
+  expect(parseQuantity('35 kt', 'en', { dimension: 'length' })).toBeNull();
+  expect(formatQuantity({ value: 29.921, unit: 'inHg' }, { locale: 'en' })).toMatch(/^29\.92\s?inHg$/);
+});
@@ -0,0 +1,95 @@
+/**
+ * Locale-aware formatting and parsing of quantities.
+ *
+ * Formatting is delegated to `Intl.NumberFormat`. Units that `Intl`
+ * knows about (metres, feet, km/h, ...) use its localised unit strings;
+ * the rest fall back to the symbol or English name from the unit
+ * registry. Parsing accepts the number conventions of a locale followed
+ * by an optional unit suffix or alias.
+ */
+
+import { Quantity } from './quantity';
+import { Dimension, Unit, UnitOf, getUnit, lookupUnit } from './units';
+
+export interface FormatQuantityOptions {
+  /** BCP 47 locale tag(s). Defaults to the runtime locale. */
+  locale?: string | string[];
+  /** Maximum fraction digits. Defaults to the unit's registered `decimals`. */
+  precision?: number;
+  /** How the unit is rendered. Default `'short'`. */
+  unitDisplay?: 'short' | 'long' | 'narrow';
+}
+
+/**
+ * Format a quantity for display, e.g. `1.200,5 ft` in German or
+ * `35 knots` with `unitDisplay: 'long'`.
+ */
+export function formatQuantity(q: Quantity, options: FormatQuantityOptions = {}): string {
+  const { locale, unitDisplay = 'short' } = options;
+  const def = getUnit<Unit>(q.unit);
+  const precision = options.precision ?? def.decimals ?? 0;
+  const digits = { maximumFractionDigits: precision };
+  if (def.intlUnit) {
+    return new Intl.NumberFormat(locale, {
+      ...digits,
+      style: 'unit',
+      unit: def.intlUnit,
+      unitDisplay,
+    }).format(q.value);
+  }
+  const num = new Intl.NumberFormat(locale, digits).format(q.value);
+  if (unitDisplay === 'long' && def.names) {
+    const plural = new Intl.PluralRules(locale).select(q.value);
+    return `${num} ${plural === 'one' ? def.names.one : def.names.other}`;
+  }
+  const sep = def.symbol.startsWith('°') ? '' : ' ';
+  return `${num}${sep}${def.symbol}`;
+}
+
+export interface ParseQuantityOptions<D extends Dimension = Dimension> {
+  /** Only accept units of this dimension. */
+  dimension?: D;
+  /** Unit assumed when the text carries no unit suffix. */
+  defaultUnit?: UnitOf<D>;
+}
+
+/**
+ * Parse text such as `"1.200,5 ft"`, `"35 kts"` or `"-3 °C"` into a
+ * quantity. Group and decimal separators follow `locale`. Returns `null`
+ * if the number cannot be read, the unit is unknown, the unit belongs to
+ * another dimension than `options.dimension`, or no unit is given and
+ * there is no `defaultUnit`.
+ */
+export function parseQuantity<D extends Dimension = Dimension>(
+  text: string,
+  locale?: string | string[],
+  options: ParseQuantityOptions<D> = {}
+): Quantity<UnitOf<D>> | null {
+  const { group, decimal } = separators(locale);
+  const match = /^\s*([+\-−]?[\d\s.,'’]*\d)\s*(.*?)\s*$/.exec(text);
+  if (!match) return null;
+  const [, numText, unitText] = match;
+
+  let normalised = '';
+  for (const ch of numText) {
+    if (ch === decimal) normalised += '.';
+    else if (ch === '−' || ch === '-') normalised += '-';
+    else if (ch === group || /\s/.test(ch)) continue;
+    // a second separator that is neither group nor decimal is ambiguous
+    else if (/[.,'’]/.test(ch)) return null;
+    else normalised += ch;
+  }
+  const value = Number(normalised);
+  if (!Number.isFinite(value)) return null;
+
+  const unit = unitText ? lookupUnit(unitText, options.dimension) : options.defaultUnit;
+  if (!unit) return null;
+  return { value, unit: unit as UnitOf<D> };
+}
+
+function separators(locale?: string | string[]) {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  const group = parts.find((p) => p.type === 'group')?.value ?? ',';
+  const decimal = parts.find((p) => p.type === 'decimal')?.value ?? '.';
+  return { group, decimal };
+}
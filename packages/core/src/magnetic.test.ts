@@ -0,0 +1,26 @@
+import { isMagneticModelValid, magneticDeclination, magneticToTrue, trueToMagnetic } from './magnetic';
+
+// [year, altitude km, lat, lon, declination] from the WMM2025 test values
+test.each([
+  [2025, 39, -59, -8, -15.75],
+  [2025, 28, 89, -121, -99.77],
+  [2026, 62, -14, 99, -1.43],
+  [2027, 44, -43, -111, 24.31],
+  [2028, 75, 79, 125, -18.59],
+  [2029, 38, -76, 49, -64.28],
+])('declination on 1 Jan %i at %i km, %i°, %i° is %f°', (year, alt, lat, lon, expected) => {
+  const date = new Date(Date.UTC(year, 0, 1));
+  expect(magneticDeclination([lon, lat], { altitude: alt * 1000, date })).toBeCloseTo(expected, 1);
+});
+
+test('the model is valid from 2025 until 2030', () => {
+  expect(isMagneticModelValid(new Date('2024-12-31T23:59:59Z'))).toBe(false);
+  expect(isMagneticModelValid(new Date('2025-01-01T00:00:00Z'))).toBe(true);
+  expect(isMagneticModelValid(new Date('2029-12-31T23:59:59Z'))).toBe(true);
+  expect(isMagneticModelValid(new Date('2030-01-01T00:00:00Z'))).toBe(false);
+});
+
+test('headings convert between true and magnetic', () => {
+  expect(trueToMagnetic(10, 15)).toBe(355);
+  expect(magneticToTrue(355, 15)).toBe(10);
+});
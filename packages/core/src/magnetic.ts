@@ -0,0 +1,230 @@
+/**
+ * Magnetic variation from the World Magnetic Model.
+ *
+ * The WMM2025 coefficients are embedded so declination can be computed
+ * offline. The model is only valid from 2025.0 to 2030.0; other dates are
+ * extrapolated with its secular variation terms, which degrades accuracy
+ * slowly (typically well under a degree per five years away from the
+ * polar regions). Use `isMagneticModelValid` to tell the two apart.
+ */
+
+import { normalizeDegrees } from './angle';
+
+const WMM_EPOCH = 2025.0;
+const WMM_LIFESPAN = 5;
+
+// n, m, g, h, g-dot, h-dot (nT and nT/year)
+const WMM_COEFFICIENTS: ReadonlyArray<readonly [number, number, number, number, number, number]> = [
+  [1, 0, -29351.8, 0.0, 12.0, 0.0],
+  [1, 1, -1410.8, 4545.4, 9.7, -21.5],
+  [2, 0, -2556.6, 0.0, -11.6, 0.0],
+  [2, 1, 2951.1, -3133.6, -5.2, -27.7],
+  [2, 2, 1649.3, -815.1, -8.0, -12.1],
+  [3, 0, 1361.0, 0.0, -1.3, 0.0],
+  [3, 1, -2404.1, -56.6, -4.2, 4.0],
+  [3, 2, 1243.8, 237.5, 0.4, -0.3],
+  [3, 3, 453.6, -549.5, -15.6, -4.1],
+  [4, 0, 895.0, 0.0, -1.6, 0.0],
+  [4, 1, 799.5, 278.6, -2.4, -1.1],
+  [4, 2, 55.7, -133.9, -6.0, 4.1],
+  [4, 3, -281.1, 212.0, 5.6, 1.6],
+  [4, 4, 12.1, -375.6, -7.0, -4.4],
+  [5, 0, -233.2, 0.0, 0.6, 0.0],
+  [5, 1, 368.9, 45.4, 1.4, -0.5],
+  [5, 2, 187.2, 220.2, 0.0, 2.2],
+  [5, 3, -138.7, -122.9, 0.6, 0.4],
+  [5, 4, -142.0, 43.0, 2.2, 1.7],
+  [5, 5, 20.9, 106.1, 0.9, 1.9],
+  [6, 0, 64.4, 0.0, -0.2, 0.0],
+  [6, 1, 63.8, -18.4, -0.4, 0.3],
+  [6, 2, 76.9, 16.8, 0.9, -1.6],
+  [6, 3, -115.7, 48.8, 1.2, -0.4],
+  [6, 4, -40.9, -59.8, -0.9, 0.9],
+  [6, 5, 14.9, 10.9, 0.3, 0.7],
+  [6, 6, -60.7, 72.7, 0.9, 0.9],
+  [7, 0, 79.5, 0.0, 0.0, 0.0],
+  [7, 1, -77.0, -48.9, -0.1, 0.6],
+  [7, 2, -8.8, -14.4, -0.1, 0.5],
+  [7, 3, 59.3, -1.0, 0.5, -0.8],
+  [7, 4, 15.8, 23.4, -0.1, 0.0],
+  [7, 5, 2.5, -7.4, -0.8, -1.0],
+  [7, 6, -11.1, -25.1, -0.8, 0.6],
+  [7, 7, 14.2, -2.3, 0.8, -0.2],
+  [8, 0, 23.2, 0.0, -0.1, 0.0],
+  [8, 1, 10.8, 7.1, 0.2, -0.2],
+  [8, 2, -17.5, -12.6, 0.0, 0.5],
+  [8, 3, 2.0, 11.4, 0.5, -0.4],
+  [8, 4, -21.7, -9.7, -0.1, 0.4],
+  [8, 5, 16.9, 12.7, 0.3, -0.5],
+  [8, 6, 15.0, 0.7, 0.2, -0.6],
+  [8, 7, -16.8, -5.2, 0.0, 0.3],
+  [8, 8, 0.9, 3.9, 0.2, 0.2],
+  [9, 0, 4.6, 0.0, 0.0, 0.0],
+  [9, 1, 7.8, -24.8, -0.1, -0.3],
+  [9, 2, 3.0, 12.2, 0.1, 0.3],
+  [9, 3, -0.2, 8.3, 0.3, -0.3],
+  [9, 4, -2.5, -3.3, -0.3, 0.3],
+  [9, 5, -13.1, -5.2, 0.0, 0.2],
+  [9, 6, 2.4, 7.2, 0.3, -0.1],
+  [9, 7, 8.6, -0.6, -0.1, -0.2],
+  [9, 8, -8.7, 0.8, 0.1, 0.4],
+  [9, 9, -12.9, 10.0, -0.1, 0.1],
+  [10, 0, -1.3, 0.0, 0.1, 0.0],
+  [10, 1, -6.4, 3.3, 0.0, 0.0],
+  [10, 2, 0.2, 0.0, 0.1, 0.0],
+  [10, 3, 2.0, 2.4, 0.1, -0.2],
+  [10, 4, -1.0, 5.3, 0.0, 0.1],
+  [10, 5, -0.6, -9.1, -0.3, -0.1],
+  [10, 6, -0.9, 0.4, 0.0, 0.1],
+  [10, 7, 1.5, -4.2, -0.1, 0.0],
+  [10, 8, 0.9, -3.8, -0.1, -0.1],
+  [10, 9, -2.7, 0.9, 0.0, 0.2],
+  [10, 10, -3.9, -9.1, 0.0, 0.0],
+  [11, 0, 2.9, 0.0, 0.0, 0.0],
+  [11, 1, -1.5, 0.0, 0.0, 0.0],
+  [11, 2, -2.5, 2.9, 0.0, 0.1],
+  [11, 3, 2.4, -0.6, 0.0, 0.0],
+  [11, 4, -0.6, 0.2, 0.0, 0.1],
+  [11, 5, -0.1, 0.5, -0.1, 0.0],
+  [11, 6, -0.6, -0.3, 0.0, 0.0],
+  [11, 7, -0.1, -1.2, 0.0, 0.1],
+  [11, 8, 1.1, -1.7, -0.1, 0.0],
+  [11, 9, -1.0, -2.9, -0.1, 0.0],
+  [11, 10, -0.2, -1.8, -0.1, 0.0],
+  [11, 11, 2.6, -2.3, -0.1, 0.0],
+  [12, 0, -2.0, 0.0, 0.0, 0.0],
+  [12, 1, -0.2, -1.3, 0.0, 0.0],
+  [12, 2, 0.3, 0.7, 0.0, 0.0],
+  [12, 3, 1.2, 1.0, 0.0, -0.1],
+  [12, 4, -1.3, -1.4, 0.0, 0.1],
+  [12, 5, 0.6, 0.0, 0.0, 0.0],
+  [12, 6, 0.6, 0.6, 0.1, 0.0],
+  [12, 7, 0.5, -0.1, 0.0, 0.0],
+  [12, 8, -0.1, 0.8, 0.0, 0.0],
+  [12, 9, -0.4, 0.1, 0.0, 0.0],
+  [12, 10, -0.2, -1.0, -0.1, 0.0],
+  [12, 11, -1.3, 0.1, 0.0, 0.0],
+  [12, 12, -0.7, 0.2, -0.1, -0.1],
+];
+
+const MAX_DEGREE = 12;
+// WGS84 ellipsoid and the model's geomagnetic reference radius, in km
+const WGS84_A = 6378.137;
+const WGS84_F = 1 / 298.257223563;
+const GEOMAGNETIC_RADIUS = 6371.2;
+
+// Schmidt semi-normalisation factors, computed once
+const schmidt: number[][] = (() => {
+  const s: number[][] = [[1]];
+  for (let n = 1; n <= MAX_DEGREE; n++) {
+    s[n] = [];
+    s[n][0] = (s[n - 1][0] * (2 * n - 1)) / n;
+    for (let m = 1; m <= n; m++) {
+      s[n][m] = s[n][m - 1] * Math.sqrt(((n - m + 1) * (m === 1 ? 2 : 1)) / (n + m));
+    }
+  }
+  return s;
+})();
+
+export interface MagneticOptions {
+  /** Height above the WGS84 ellipsoid in metres. Default 0. */
+  altitude?: number;
+  /** Date of interest. Defaults to now. */
+  date?: Date;
+}
+
+/**
+ * Magnetic declination (variation) at a position, in degrees. Positive
+ * values are east: magnetic north lies clockwise of true north. Dates
+ * outside the model's validity window are extrapolated.
+ */
+export function magneticDeclination(
+  [lon, lat]: [number, number],
+  { altitude = 0, date = new Date() }: MagneticOptions = {}
+): number {
+  const dt = decimalYear(date) - WMM_EPOCH;
+  const phi = (lat * Math.PI) / 180;
+  const lambda = (lon * Math.PI) / 180;
+  const h = altitude / 1000;
+
+  // geodetic to geocentric spherical coordinates
+  const e2 = WGS84_F * (2 - WGS84_F);
+  const sinPhi = Math.sin(phi);
+  const rc = WGS84_A / Math.sqrt(1 - e2 * sinPhi * sinPhi);
+  const p = (rc + h) * Math.cos(phi);
+  const z = (rc * (1 - e2) + h) * sinPhi;
+  const r = Math.sqrt(p * p + z * z);
+  const phiC = Math.asin(z / r);
+
+  // associated Legendre functions (Gauss normalised) and their
+  // derivatives with respect to colatitude
+  const cosT = Math.sin(phiC);
+  const sinT = Math.cos(phiC);
+  const P: number[][] = [[1]];
+  const dP: number[][] = [[0]];
+  for (let n = 1; n <= MAX_DEGREE; n++) {
+    P[n] = [];
+    dP[n] = [];
+    for (let m = 0; m <= n; m++) {
+      if (n === m) {
+        P[n][m] = sinT * P[n - 1][m - 1];
+        dP[n][m] = sinT * dP[n - 1][m - 1] + cosT * P[n - 1][m - 1];
+      } else {
+        const k = n > 1 ? ((n - 1) * (n - 1) - m * m) / ((2 * n - 1) * (2 * n - 3)) : 0;
+        const p2 = n > 1 && m <= n - 2 ? P[n - 2][m] : 0;
+        const dp2 = n > 1 && m <= n - 2 ? dP[n - 2][m] : 0;
+        P[n][m] = cosT * P[n - 1][m] - k * p2;
+        dP[n][m] = cosT * dP[n - 1][m] - sinT * P[n - 1][m] - k * dp2;
+      }
+    }
+  }
+
+  // field components in the geocentric frame
+  let bTheta = 0;
+  let bPhi = 0;
+  let bR = 0;
+  for (const [n, m, g0, h0, gd, hd] of WMM_COEFFICIENTS) {
+    const s = schmidt[n][m];
+    const g = (g0 + gd * dt) * s;
+    const hh = (h0 + hd * dt) * s;
+    const ratio = Math.pow(GEOMAGNETIC_RADIUS / r, n + 2);
+    const cosM = Math.cos(m * lambda);
+    const sinM = Math.sin(m * lambda);
+    bR += (n + 1) * ratio * (g * cosM + hh * sinM) * P[n][m];
+    bTheta -= ratio * (g * cosM + hh * sinM) * dP[n][m];
+    bPhi += ratio * m * (g * sinM - hh * cosM) * P[n][m];
+  }
+  // at the poles the east component is undefined; nudge away from 0
+  bPhi /= Math.abs(sinT) < 1e-10 ? 1e-10 : sinT;
+
+  // rotate north/down components back to the geodetic frame
+  const north = -bTheta;
+  const down = -bR;
+  const psi = phiC - phi;
+  const x = north * Math.cos(psi) - down * Math.sin(psi);
+  const y = bPhi;
+  return (Math.atan2(y, x) * 180) / Math.PI;
+}
+
+/** Whether `date` falls inside the embedded model's 2025–2030 validity window. */
+export function isMagneticModelValid(date: Date = new Date()): boolean {
+  const dt = decimalYear(date) - WMM_EPOCH;
+  return dt >= 0 && dt < WMM_LIFESPAN;
+}
+
+/** Convert a true heading into a magnetic one given an east-positive declination. */
+export function trueToMagnetic(heading: number, declination: number): number {
+  return normalizeDegrees(heading - declination);
+}
+
+/** Convert a magnetic heading into a true one given an east-positive declination. */
+export function magneticToTrue(heading: number, declination: number): number {
+  return normalizeDegrees(heading + declination);
+}
+
+function decimalYear(date: Date): number {
+  const year = date.getUTCFullYear();
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  return year + (date.getTime() - start) / (end - start);
+}
@@ -2,11 +2,11 @@
  * Quantity types and conversion utilities.
  *
  * A `Quantity` couples a numeric value with a unit tag. You can convert
- * between compatible units using the `convert` function. Helper
- * functions provide rounding and simple formatting for display.
+ * between units of the same dimension using the `convert` function.
+ * Helper functions provide rounding and simple formatting for display.
  */
 
-export type Unit = 'm' | 'ft' | 'ms' | 'kmh' | 'mph' | 'kts';
+import { CompatibleUnit, LengthUnit, SpeedUnit, Unit, getUnit } from './units';
 
 export interface Quantity<U extends Unit = Unit> {
   /**
@@ -14,41 +14,32 @@ export interface Quantity<U extends Unit = Unit> {
    */
   value: number;
   /**
-   * Unit identifier. The same as those used in the `Unit` union.
+   * Unit identifier. One of the units known to the unit registry.
    */
   unit: U;
 }
 
-// canonical factors for each unit. These values convert a given
-// quantity to its SI base unit. For length we use metres. For
-// speed we use metres per second. Changing the canonical units
-// requires adjusting downstream conversion factors.
-const factors: Record<Unit, number> = {
-  m: 1,
-  ft: 0.3048,
-  ms: 1,
-  kmh: 1000 / 3600,
-  mph: 1609.344 / 3600,
-  kts: 1852 / 3600,
-};
-
 /**
  * Convert a quantity from one unit into another. Conversion happens via
- * the canonical unit for the dimension. Unsupported conversions will
- * throw at runtime.
+ * the canonical unit for the dimension. Converting between dimensions
+ * is rejected by the type checker and throws at runtime. Generic code
+ * can convert a `Quantity<U>` into any other `U`.
  */
-export function convert<U1 extends Unit, U2 extends Unit>(
+export function convert<U1 extends Unit, U2 extends CompatibleUnit<U1> | U1>(
   qty: Quantity<U1>,
   to: U2
 ): Quantity<U2> {
-  const fromFactor = factors[qty.unit as Unit];
-  const toFactor = factors[to];
-  if (fromFactor === undefined || toFactor === undefined) {
-    throw new Error(`Cannot convert from ${qty.unit} to ${to}`);
+  const from = getUnit<Unit>(qty.unit);
+  const target = getUnit<Unit>(to);
+  if (from.dimension !== target.dimension) {
+    throw new Error(
+      `Cannot convert from ${qty.unit} (${from.dimension}) to ${to} (${target.dimension})`
+    );
   }
+  if (from === target) return { value: qty.value, unit: to };
   // convert to canonical value then to target
-  const canonical = qty.value * fromFactor;
-  return { value: canonical / toFactor, unit: to };
+  const canonical = qty.value * from.factor + (from.offset ?? 0);
+  return { value: (canonical - (target.offset ?? 0)) / target.factor, unit: to };
 }
 
 /**
@@ -72,22 +63,28 @@ function decimals(n: number): number {
 }
 
 // Simple formatters. These return short strings appropriate for
-// display. They can be swapped out for `Intl` formatting later.
+// display, using the symbol and precision registered for each unit.
 export const format = {
-  length(q: Quantity<'m' | 'ft'>) {
-    const v = q.value;
-    return q.unit === 'ft' ? `${v.toFixed(0)} ft` : `${v.toFixed(0)} m`;
+  length(q: Quantity<LengthUnit>) {
+    return format.quantity(q);
   },
-  speed(q: Quantity<'ms' | 'kmh' | 'mph' | 'kts'>) {
-    const unit = { ms: 'm/s', kmh: 'km/h', mph: 'mph', kts: 'kt' }[q.unit];
-    return `${vtrim(vround(q.value))} ${unit}`;
+  speed(q: Quantity<SpeedUnit>) {
+    return format.quantity(q);
+  },
+  quantity(q: Quantity) {
+    const def = getUnit(q.unit);
+    const sep = def.symbol.startsWith('°') ? '' : ' ';
+    return `${vtrim(vround(q.value, def.decimals ?? 0))}${sep}${def.symbol}`;
   },
 };
 
-function vround(n: number) {
-  return Math.round(n * 100) / 100;
+function vround(n: number, places: number) {
+  const k = Math.pow(10, places);
+  return Math.round(n * k) / k;
 }
 
 function vtrim(n: number) {
+  // avoid printing "-0" for small negative values rounded away
+  if (n === 0) return '0';
   return Number.isInteger(n) ? n.toFixed(0) : n.toString();
-}
\ No newline at end of file
+}
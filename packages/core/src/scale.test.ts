@@ -0,0 +1,69 @@
+import { createScale, scaleInUnit } from './scale';
+
+test('linear scales map the range onto [0, 1] and clamp', () => {
+  const scale = createScale('linear', -50, 150);
+  expect(scale.toFraction(50)).toBe(0.5);
+  expect(scale.toFraction(-100)).toBe(0);
+  expect(scale.fromFraction(0.25)).toBe(0);
+  expect(scale.fromFraction(2)).toBe(150);
+});
+
+test('log scales give each decade the same length', () => {
+  const scale = createScale('log', 10, 10000);
+  expect(scale.toFraction(100)).toBeCloseTo(1 / 3, 12);
+  expect(scale.toFraction(1000)).toBeCloseTo(2 / 3, 12);
+  expect(scale.fromFraction(0.5)).toBeCloseTo(Math.sqrt(10) * 100, 9);
+  expect(scale.toFraction(5)).toBe(0);
+  expect(scale.toFraction(20000)).toBe(1);
+});
+
+test('log scales starting at zero are offset by 1% of the range', () => {
+  const scale = createScale('log', 0, 1000);
+  expect(scale.toFraction(0)).toBe(0);
+  expect(scale.toFraction(10)).toBeCloseTo(Math.log(2) / Math.log(101), 12);
+  expect(scale.fromFraction(scale.toFraction(123))).toBeCloseTo(123, 9);
+  expect(createScale({ type: 'log', offset: 100 }, 0, 1000).toFraction(100)).toBeCloseTo(
+    Math.log(2) / Math.log(11),
+    12
+  );
+});
+
+test('piecewise scales are linear between breakpoints', () => {
+  const scale = createScale({ type: 'piecewise', breakpoints: [{ value: 1000, at: 0.5 }] }, 0, 10000);
+  expect(scale.toFraction(500)).toBe(0.25);
+  expect(scale.toFraction(5500)).toBe(0.75);
+  expect(scale.fromFraction(0.75)).toBe(5500);
+  // breakpoints outside the range are ignored
+  const clipped = createScale({ type: 'piecewise', breakpoints: [{ value: 20000, at: 0.1 }] }, 0, 100);
+  expect(clipped.toFraction(50)).toBe(0.5);
+});
+
+test('malformed scales throw', () => {
+  expect(() =>
+    createScale({ type: 'piecewise', breakpoints: [{ value: 10, at: 0.6 }, { value: 20, at: 0.4 }] }, 0, 100)
+  ).toThrow('Scale breakpoints must increase: 20 sits at 0.4, not after 10 at 0.6');
+  expect(() => createScale({ type: 'log', offset: 0 }, 0, 100)).toThrow('Log scale offset must be positive, got 0');
+});
+
+test('ticks land exactly on fractional steps', () => {
+  const ticks = createScale('linear', 0, 1).ticks(0.1, 0.5);
+  expect(ticks.map((t) => t.value)).toEqual([0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1]);
+  expect(ticks.filter((t) => t.major).map((t) => t.value)).toEqual([0, 0.5, 1]);
+});
+
+test('log scale ticks thin out where they crowd but keep majors', () => {
+  const ticks = createScale('log', 10, 10000).ticks(10, 100);
+  const values = ticks.map((t) => t.value);
+  expect(values.slice(0, 10)).toEqual([10, 20, 30, 40, 50, 60, 70, 80, 90, 100]);
+  expect(values).toContain(1000);
+  expect(values).not.toContain(1010);
+  expect(ticks.length).toBeLessThan(100);
+});
+
+test('scaleInUnit converts breakpoints and offsets', () => {
+  expect(
+    scaleInUnit({ type: 'piecewise', breakpoints: [{ value: { value: 1, unit: 'nm' }, at: 0.5 }] }, 'm')
+  ).toEqual({ type: 'piecewise', breakpoints: [{ value: 1852, at: 0.5 }] });
+  expect(scaleInUnit({ type: 'log', offset: { value: 1, unit: 'km' } }, 'm')).toEqual({ type: 'log', offset: 1000 });
+  expect(scaleInUnit('log', 'ft')).toBe('log');
+});
@@ -0,0 +1,150 @@
+/**
+ * Scales mapping a value range onto the unit interval.
+ *
+ * Controls draw values along a track of fixed length. A scale decides
+ * where on that track each value sits, as a fraction from 0 (`min`) to
+ * 1 (`max`). Non-linear scales give more room to the part of the range
+ * where precision matters, such as low altitudes.
+ */
+
+import { Quantity, convert } from './quantity';
+import { CompatibleUnit, Unit } from './units';
+
+/** A fixed point of a piecewise scale: `value` sits at fraction `at` of the track. */
+export interface ScaleBreakpoint<T = number> {
+  value: T;
+  at: number;
+}
+
+/**
+ * Description of a scale. `'log'` is logarithmic in `value - min +
+ * offset`; the offset defaults to `min` when that is positive (a plain
+ * logarithmic scale) and to 1% of the range otherwise, so that ranges
+ * starting at zero still work. `'piecewise'` is linear between
+ * breakpoints; `min` and `max` are implicit breakpoints at 0 and 1.
+ */
+export type ScaleSpec<T = number> =
+  | 'linear'
+  | 'log'
+  | { type: 'linear' }
+  | { type: 'log'; offset?: T }
+  | { type: 'piecewise'; breakpoints: Array<ScaleBreakpoint<T>> };
+
+export interface Scale {
+  readonly type: 'linear' | 'log' | 'piecewise';
+  readonly min: number;
+  readonly max: number;
+  /** Position of `value` along the track, clamped to [0, 1]. */
+  toFraction(value: number): number;
+  /** Value at fraction `t` of the track; the inverse of `toFraction`. */
+  fromFraction(t: number): number;
+  /**
+   * Tick values every `every` units from `min`, marked major on
+   * multiples of `majorEvery`. On non-linear scales, ticks that would
+   * sit closer than `minSpacing` (a fraction of the track, default
+   * 0.015) to a kept tick are dropped; major ticks are preferred.
+   */
+  ticks(every: number, majorEvery?: number, minSpacing?: number): ScaleTick[];
+}
+
+export interface ScaleTick {
+  value: number;
+  major: boolean;
+}
+
+const clamp01 = (t: number) => Math.min(1, Math.max(0, t));
+
+/** Build a scale for the range [min, max]. Throws for malformed piecewise breakpoints. */
+export function createScale(spec: ScaleSpec = 'linear', min: number, max: number): Scale {
+  const type = typeof spec === 'string' ? spec : spec.type;
+  const range = max - min;
+  let toFraction: (v: number) => number;
+  let fromFraction: (t: number) => number;
+
+  if (type === 'log') {
+    const given = typeof spec === 'object' && spec.type === 'log' ? spec.offset : undefined;
+    const offset = given ?? (min > 0 ? min : range / 100);
+    if (!(offset > 0)) throw new Error(`Log scale offset must be positive, got ${offset}`);
+    const span = Math.log((range + offset) / offset);
+    toFraction = (v) => clamp01(Math.log((Math.max(v, min) - min + offset) / offset) / span);
+    fromFraction = (t) => min + offset * Math.exp(clamp01(t) * span) - offset;
+  } else if (type === 'piecewise') {
+    const points = [
+      { value: min, at: 0 },
+      ...(spec as { breakpoints: ScaleBreakpoint[] }).breakpoints.filter(
+        (b) => b.value > min && b.value < max
+      ),
+      { value: max, at: 1 },
+    ].sort((a, b) => a.value - b.value);
+    for (let i = 1; i < points.length; i++) {
+      if (points[i].at <= points[i - 1].at) {
+        throw new Error(
+          `Scale breakpoints must increase: ${points[i].value} sits at ${points[i].at}, ` +
+            `not after ${points[i - 1].value} at ${points[i - 1].at}`
+        );
+      }
+    }
+    const segment = (key: 'value' | 'at', x: number) => {
+      let i = 1;
+      while (i < points.length - 1 && x > points[i][key]) i++;
+      return [points[i - 1], points[i]];
+    };
+    toFraction = (v) => {
+      const [a, b] = segment('value', v);
+      return clamp01(a.at + ((v - a.value) / (b.value - a.value)) * (b.at - a.at));
+    };
+    fromFraction = (t) => {
+      const [a, b] = segment('at', clamp01(t));
+      return a.value + ((clamp01(t) - a.at) / (b.at - a.at)) * (b.value - a.value);
+    };
+  } else {
+    toFraction = (v) => clamp01((v - min) / range);
+    fromFraction = (t) => min + clamp01(t) * range;
+  }
+
+  const ticks = (every: number, majorEvery = every * 5, minSpacing = 0.015): ScaleTick[] => {
+    const all: ScaleTick[] = [];
+    // count whole intervals so float error cannot build up along the range
+    const count = Math.floor(range / every + 1e-9);
+    for (let k = 0; k <= count; k++) {
+      const v = +(min + k * every).toPrecision(12);
+      const ratio = v / majorEvery;
+      all.push({ value: v, major: Math.abs(ratio - Math.round(ratio)) < 1e-9 });
+    }
+    if (type === 'linear') return all;
+    // keep majors first, then fill in minors wherever there is room
+    const kept: number[] = [];
+    const fits = (t: number) => kept.every((k) => Math.abs(k - t) >= minSpacing);
+    const out = new Set<ScaleTick>();
+    for (const pass of [true, false]) {
+      all.forEach((tick) => {
+        if (tick.major !== pass) return;
+        const t = toFraction(tick.value);
+        if (!fits(t)) return;
+        kept.push(t);
+        out.add(tick);
+      });
+    }
+    return all.filter((tick) => out.has(tick));
+  };
+
+  return { type, min, max, toFraction, fromFraction, ticks };
+}
+
+/**
+ * Express a scale whose breakpoints are quantities in a single unit, so
+ * it can be applied to plain values in that unit.
+ */
+export function scaleInUnit<U extends Unit>(
+  spec: ScaleSpec<Quantity<U>>,
+  unit: CompatibleUnit<U> | U
+): ScaleSpec {
+  if (typeof spec === 'string' || spec.type === 'linear') return spec;
+  if (spec.type === 'log') {
+    return { type: 'log', offset: spec.offset && convert(spec.offset, unit).value };
+  }
+  return {
+    type: 'piecewise',
+    breakpoints: spec.breakpoints.map((b) => ({ value: convert(b.value, unit).value, at: b.at })),
+  };
+}
@@ -0,0 +1,89 @@
+import {
+  daysInMonth,
+  formatISOInZone,
+  fromZonedParts,
+  isTimeZone,
+  timeZoneOffset,
+  toZonedParts,
+} from './time';
+
+const clock = (year: number, month: number, day: number, hour: number, minute = 0, second = 0) => ({
+  year,
+  month,
+  day,
+  hour,
+  minute,
+  second,
+});
+
+test.each([
+  ['UTC', '2024-07-01T12:00:00Z', 0],
+  ['Europe/Berlin', '2024-01-15T12:00:00Z', 60],
+  ['Europe/Berlin', '2024-07-15T12:00:00Z', 120],
+  ['America/New_York', '2024-07-15T12:00:00Z', -240],
+  ['Asia/Kolkata', '2024-07-15T12:00:00Z', 330],
+  ['America/St_Johns', '2024-01-15T12:00:00Z', -210],
+  ['Australia/Lord_Howe', '2024-01-15T12:00:00Z', 660],
+  ['Australia/Lord_Howe', '2024-07-15T12:00:00Z', 630],
+])('%s is %i minutes from UTC at %s', (zone, iso, offset) => {
+  expect(timeZoneOffset(new Date(iso), zone)).toBe(offset);
+});
+
+test('wall-clock readings round-trip outside daylight saving changes', () => {
+  const instant = new Date('2024-07-15T12:34:56Z');
+  const parts = toZonedParts(instant, 'America/New_York');
+  expect(parts).toEqual(clock(2024, 7, 15, 8, 34, 56));
+  expect(fromZonedParts(parts, 'America/New_York')).toEqual(instant);
+  expect(toZonedParts(new Date('2024-12-31T23:30:00Z'), 'Asia/Tokyo')).toEqual(clock(2025, 1, 1, 8, 30));
+});
+
+describe('daylight saving gaps', () => {
+  test.each([
+    ['Europe/Berlin', clock(2024, 3, 31, 2, 30), '2024-03-31T01:30:00.000Z', clock(2024, 3, 31, 3, 30)],
+    ['America/New_York', clock(2024, 3, 10, 2, 30), '2024-03-10T07:30:00.000Z', clock(2024, 3, 10, 3, 30)],
+    // Lord Howe Island only moves its clocks by half an hour
+    ['Australia/Lord_Howe', clock(2024, 10, 6, 2, 15), '2024-10-05T15:45:00.000Z', clock(2024, 10, 6, 2, 45)],
+  ])('a skipped time in %s moves forward by the gap', (zone, parts, iso, shown) => {
+    const instant = fromZonedParts(parts, zone);
+    expect(instant.toISOString()).toBe(iso);
+    expect(toZonedParts(instant, zone)).toEqual(shown);
+  });
+});
+
+describe('daylight saving overlaps', () => {
+  test.each([
+    ['Europe/Berlin', clock(2024, 10, 27, 2, 30), '2024-10-27T00:30:00.000Z'],
+    ['America/New_York', clock(2024, 11, 3, 1, 30), '2024-11-03T05:30:00.000Z'],
+  ])('a repeated time in %s resolves to its first occurrence', (zone, parts, iso) => {
+    expect(fromZonedParts(parts, zone).toISOString()).toBe(iso);
+  });
+
+  test('both occurrences read the same on the wall', () => {
+    const first = new Date('2024-10-27T00:30:00Z');
+    const second = new Date('2024-10-27T01:30:00Z');
+    expect(toZonedParts(first, 'Europe/Berlin')).toEqual(toZonedParts(second, 'Europe/Berlin'));
+    expect(formatISOInZone(first, 'Europe/Berlin')).toBe('2024-10-27T02:30:00+02:00');
+    expect(formatISOInZone(second, 'Europe/Berlin')).toBe('2024-10-27T02:30:00+01:00');
+  });
+});
+
+test('out-of-range fields roll over', () => {
+  expect(fromZonedParts(clock(2024, 3, 0, 23, 60), 'UTC').toISOString()).toBe('2024-03-01T00:00:00.000Z');
+});
+
+test('formatISOInZone writes Z only for UTC zones', () => {
+  const instant = new Date('2024-03-10T14:30:00.750Z');
+  expect(formatISOInZone(instant, 'UTC')).toBe('2024-03-10T14:30:00Z');
+  expect(formatISOInZone(instant, 'Etc/GMT')).toBe('2024-03-10T14:30:00Z');
+  expect(formatISOInZone(instant, 'Africa/Abidjan')).toBe('2024-03-10T14:30:00+00:00');
+  expect(formatISOInZone(new Date('2024-01-10T14:30:00Z'), 'America/St_Johns')).toBe('2024-01-10T11:00:00-03:30');
+});
+
+test('zones and months', () => {
+  expect(isTimeZone('Europe/Berlin')).toBe(true);
+  expect(isTimeZone('Mars/Olympus_Mons')).toBe(false);
+  expect(() => toZonedParts(new Date(), 'Mars/Olympus_Mons')).toThrow();
+  expect(daysInMonth(2024, 2)).toBe(29);
+  expect(daysInMonth(2100, 2)).toBe(28);
+  expect(daysInMonth(2024, 12)).toBe(31);
+});
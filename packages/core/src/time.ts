@@ -0,0 +1,122 @@
+/**
+ * Wall-clock time in IANA time zones, using the zone data built into
+ * `Intl` so no lookup tables or network access are needed.
+ *
+ * A `ZonedParts` is what a clock on the wall of a zone shows. Turning
+ * it back into an instant is ambiguous around daylight saving changes:
+ * a repeated hour resolves to its first occurrence and a skipped hour
+ * is moved forward by the length of the gap.
+ */
+
+export interface ZonedParts {
+  year: number;
+  /** Month, 1–12. */
+  month: number;
+  day: number;
+  /** Hour, 0–23. */
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string) {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, f);
+  }
+  return f;
+}
+
+/** Whether `timeZone` is an IANA zone (or `UTC`) known to the runtime. */
+export function isTimeZone(timeZone: string): boolean {
+  try {
+    partsFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** IANA zone of the runtime, e.g. `Europe/Berlin`. */
+export function localTimeZone(): string {
+  return new Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** The wall-clock reading of an instant in a zone. Throws for unknown zones. */
+export function toZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const p of partsFormatter(timeZone).formatToParts(date)) {
+    if (p.type !== 'literal') parts[p.type] = Number(p.value);
+  }
+  const { year, month, day, hour, minute, second } = parts;
+  return { year, month, day, hour, minute, second };
+}
+
+/** Offset of a zone from UTC at an instant, in minutes east of Greenwich. */
+export function timeZoneOffset(date: Date, timeZone: string): number {
+  const p = toZonedParts(date, timeZone);
+  const asUTC = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUTC - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * The instant a zone's clock shows `parts`. Out-of-range fields roll
+ * over like `Date.UTC`, so minute 60 is the next hour and day 0 the
+ * last day of the previous month.
+ */
+export function fromZonedParts(parts: ZonedParts, timeZone: string): Date {
+  const { year, month, day, hour, minute, second } = parts;
+  const asUTC = Date.UTC(year, month - 1, day, hour, minute, second);
+  // try the offsets in force a day either side; around a daylight
+  // saving change both, one or neither may give back the same clock
+  const candidates = [-86400000, 86400000].map(
+    (d) => asUTC - timeZoneOffset(new Date(asUTC + d), timeZone) * 60000
+  );
+  const valid = candidates.filter((t) => asUTC - t === timeZoneOffset(new Date(t), timeZone) * 60000);
+  return new Date(valid.length ? Math.min(...valid) : candidates[0]);
+}
+
+/** Number of days in a month (1–12) of a year. */
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Format an instant as an ISO 8601 timestamp in a zone, with its
+ * offset: `2024-03-10T14:30:00Z` in UTC, `2024-03-10T15:30:00+01:00`
+ * in Europe/Paris. Seconds are always included; milliseconds are
+ * dropped.
+ */
+export function formatISOInZone(date: Date, timeZone: string): string {
+  const p = toZonedParts(date, timeZone);
+  const offset = timeZoneOffset(date, timeZone);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const zone =
+    offset === 0 && /^(Etc\/)?(UTC|GMT|Zulu)$/i.test(timeZone)
+      ? 'Z'
+      : `${offset < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+  return `${pad(p.year, 4)}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}${zone}`;
+}
+
+/**
+ * Short name of a zone at an instant as the runtime spells it, e.g.
+ * `UTC`, `CEST` or `GMT+2`.
+ */
+export function timeZoneName(date: Date, timeZone: string, locale?: string | string[]): string {
+  const part = new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: 'short' })
+    .formatToParts(date)
+    .find((p) => p.type === 'timeZoneName');
+  return part?.value ?? timeZone;
+}
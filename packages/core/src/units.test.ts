@@ -0,0 +1,78 @@
+import { convert, roundToStep } from './quantity';
+import { LengthUnit, Unit, dimensionOf, getUnit, isUnit, lookupUnit, registerUnit, unitsOf } from './units';
+
+test.each([
+  [{ value: 1, unit: 'ft' }, 'm', 0.3048],
+  [{ value: 1, unit: 'nm' }, 'm', 1852],
+  [{ value: 1, unit: 'mi' }, 'km', 1.609344],
+  [{ value: 100, unit: 'kts' }, 'kmh', 185.2],
+  [{ value: 1, unit: 'ms' }, 'kts', 1.943844],
+  [{ value: 1, unit: 'ha' }, 'ac', 2.471054],
+  [{ value: 1, unit: 'km2' }, 'ha', 100],
+  [{ value: 180, unit: 'deg' }, 'rad', Math.PI],
+  [{ value: 1, unit: 'd' }, 'min', 1440],
+  [{ value: 1013.25, unit: 'hPa' }, 'inHg', 29.921252],
+  [{ value: 0, unit: 'degC' }, 'K', 273.15],
+  [{ value: -40, unit: 'degC' }, 'degF', -40],
+  [{ value: 212, unit: 'degF' }, 'degC', 100],
+  [{ value: 1000, unit: 'fpm' }, 'mps', 5.08],
+] as const)('%o is %f %s', (from, to, expected) => {
+  expect(convert(from, to).value).toBeCloseTo(expected, 5);
+  expect(convert(from, to).unit).toBe(to);
+});
+
+test('conversions between dimensions throw', () => {
+  // @ts-expect-error length and speed do not mix
+  expect(() => convert({ value: 1, unit: 'm' }, 'kts')).toThrow('Cannot convert from m (length) to kts (speed)');
+  // @ts-expect-error nor do speed and vertical speed
+  expect(() => convert({ value: 1, unit: 'ms' }, 'mps')).toThrow('(speed) to mps (verticalSpeed)');
+});
+
+test('the registry answers questions about units', () => {
+  expect(isUnit('kts')).toBe(true);
+  expect(isUnit('parsec')).toBe(false);
+  expect(dimensionOf('hPa')).toBe('pressure');
+  expect(unitsOf('temperature')).toEqual(['K', 'degC', 'degF']);
+  expect(getUnit('kts').symbol).toBe('kt');
+  // @ts-expect-error not a registered unit
+  expect(() => getUnit('parsec')).toThrow('Unknown unit parsec');
+});
+
+test('unitsOf keeps the unit type for generic callers', () => {
+  const siblings = <U extends Unit>(unit: U): U[] => unitsOf<U>(dimensionOf(unit));
+  const lengths: LengthUnit[] = unitsOf('length');
+  expect(siblings('degC')).toEqual(['K', 'degC', 'degF']);
+  expect(lengths).toContain('nm');
+});
+
+test.each([
+  ['kt', undefined, 'kts'],
+  ['KNOTS', undefined, 'kts'],
+  ['m', undefined, 'm'],
+  ['m/s', 'speed', 'ms'],
+  ['m/s', 'verticalSpeed', 'mps'],
+  ['°C', undefined, 'degC'],
+  ['ft', 'speed', undefined],
+  ['', undefined, undefined],
+] as const)('lookupUnit(%s, %s) is %s', (text, dimension, expected) => {
+  expect(lookupUnit(text, dimension)).toBe(expected);
+});
+
+test('applications can register their own units', () => {
+  // an application would add furlong to UnitRegistry; keep that out of this package's types
+  const furlong = 'furlong' as LengthUnit;
+  registerUnit({ unit: furlong, dimension: 'length', factor: 201.168, symbol: 'fur', aliases: ['furlongs'] });
+  expect(roundToStep(convert({ value: 1, unit: 'mi' }, furlong).value, 0.001)).toBe(8);
+  expect(lookupUnit('furlongs')).toBe('furlong');
+  expect(unitsOf('length')).toContain('furlong');
+});
+
+test('registration rejects bad factors and dimension changes', () => {
+  expect(() => registerUnit({ unit: 'ft', dimension: 'length', factor: 0, symbol: 'ft' })).toThrow(
+    'Unit ft needs a positive, finite factor'
+  );
+  // @ts-expect-error ft is a length
+  expect(() => registerUnit({ unit: 'ft', dimension: 'speed', factor: 1, symbol: 'ft' })).toThrow(
+    'Unit ft is already registered as length, not speed'
+  );
+});
@@ -0,0 +1,442 @@
+/**
+ * Unit registry.
+ *
+ * Every unit belongs to exactly one dimension (length, speed, angle and
+ * so on). The mapping lives in two places: the `UnitRegistry` interface
+ * carries it at the type level so mismatched conversions fail to
+ * compile, and a runtime table holds the factors used by `convert` and
+ * `format`. Applications add their own units by augmenting
+ * `UnitRegistry` and calling `registerUnit`:
+ *
+ * ```ts
+ * declare module '@vizctrl/core' {
+ *   interface UnitRegistry { furlong: 'length' }
+ * }
+ * registerUnit({ unit: 'furlong', dimension: 'length', factor: 201.168, symbol: 'fur' });
+ * ```
+ */
+
+/**
+ * Maps each unit identifier to the dimension it measures. Declared as an
+ * interface so consumers can extend it through module augmentation.
+ */
+export interface UnitRegistry {
+  m: 'length';
+  ft: 'length';
+  km: 'length';
+  nm: 'length';
+  mi: 'length';
+  m2: 'area';
+  km2: 'area';
+  ha: 'area';
+  nm2: 'area';
+  mi2: 'area';
+  ac: 'area';
+  ms: 'speed';
+  kmh: 'speed';
+  mph: 'speed';
+  kts: 'speed';
+  deg: 'angle';
+  rad: 'angle';
+  s: 'time';
+  min: 'time';
+  h: 'time';
+  d: 'time';
+  Pa: 'pressure';
+  hPa: 'pressure';
+  inHg: 'pressure';
+  K: 'temperature';
+  degC: 'temperature';
+  degF: 'temperature';
+  mps: 'verticalSpeed';
+  fpm: 'verticalSpeed';
+}
+
+export type Unit = keyof UnitRegistry;
+
+export type Dimension = UnitRegistry[Unit];
+
+/** The dimension measured by unit `U`. */
+export type DimensionOf<U extends Unit> = UnitRegistry[U];
+
+/** All units measuring dimension `D`. */
+export type UnitOf<D extends Dimension> = {
+  [U in Unit]: UnitRegistry[U] extends D ? U : never;
+}[Unit];
+
+/** Units that share a dimension with `U` and can therefore be converted to. */
+export type CompatibleUnit<U extends Unit> = UnitOf<DimensionOf<U>>;
+
+export type LengthUnit = UnitOf<'length'>;
+export type AreaUnit = UnitOf<'area'>;
+export type SpeedUnit = UnitOf<'speed'>;
+export type AngleUnit = UnitOf<'angle'>;
+export type TimeUnit = UnitOf<'time'>;
+export type PressureUnit = UnitOf<'pressure'>;
+export type TemperatureUnit = UnitOf<'temperature'>;
+export type VerticalSpeedUnit = UnitOf<'verticalSpeed'>;
+
+/**
+ * Runtime description of a unit. A value `v` in this unit corresponds to
+ * `v * factor + offset` in the canonical unit of its dimension. Only
+ * temperatures need a non-zero offset.
+ */
+export interface UnitDefinition<U extends Unit = Unit> {
+  unit: U;
+  dimension: DimensionOf<U>;
+  /** Multiplier into the canonical unit of the dimension. */
+  factor: number;
+  /** Offset added after scaling. Defaults to 0. */
+  offset?: number;
+  /** Short symbol used for display, e.g. `kt`. */
+  symbol: string;
+  /** Decimal places shown by `format`. Defaults to 0. */
+  decimals?: number;
+  /**
+   * Identifier understood by `Intl.NumberFormat` with `style: 'unit'`,
+   * where one exists. Units without one are formatted with `symbol`.
+   */
+  intlUnit?: string;
+  /** Singular and plural English names used for `unitDisplay: 'long'`. */
+  names?: { one: string; other: string };
+  /** Extra spellings accepted when parsing text, e.g. `knots`. */
+  aliases?: string[];
+}
+
+// Canonical units per dimension: metres, square metres, metres per second, radians,
+// seconds, pascals and kelvin. Vertical speed shares metres per second
+// with speed but is kept apart so the two cannot be mixed up.
+const registry = new Map<string, UnitDefinition>();
+
+const builtins: UnitDefinition[] = [
+  {
+    unit: 'm',
+    dimension: 'length',
+    factor: 1,
+    symbol: 'm',
+    intlUnit: 'meter',
+    aliases: ['metre', 'metres', 'meter', 'meters'],
+  },
+  {
+    unit: 'ft',
+    dimension: 'length',
+    factor: 0.3048,
+    symbol: 'ft',
+    intlUnit: 'foot',
+    aliases: ["'", 'foot', 'feet'],
+  },
+  {
+    unit: 'km',
+    dimension: 'length',
+    factor: 1000,
+    symbol: 'km',
+    decimals: 2,
+    intlUnit: 'kilometer',
+    aliases: ['kilometre', 'kilometres', 'kilometer', 'kilometers'],
+  },
+  {
+    unit: 'nm',
+    dimension: 'length',
+    factor: 1852,
+    symbol: 'NM',
+    decimals: 2,
+    names: { one: 'nautical mile', other: 'nautical miles' },
+    aliases: ['nmi', 'nautical mile', 'nautical miles'],
+  },
+  {
+    unit: 'mi',
+    dimension: 'length',
+    factor: 1609.344,
+    symbol: 'mi',
+    decimals: 2,
+    intlUnit: 'mile',
+    aliases: ['mile', 'miles', 'sm'],
+  },
+  {
+    unit: 'm2',
+    dimension: 'area',
+    factor: 1,
+    symbol: 'm²',
+    aliases: ['sq m', 'square metres', 'square meters'],
+  },
+  {
+    unit: 'km2',
+    dimension: 'area',
+    factor: 1e6,
+    symbol: 'km²',
+    decimals: 2,
+    aliases: ['sq km', 'square kilometres', 'square kilometers'],
+  },
+  {
+    unit: 'ha',
+    dimension: 'area',
+    factor: 1e4,
+    symbol: 'ha',
+    decimals: 2,
+    intlUnit: 'hectare',
+    aliases: ['hectare', 'hectares'],
+  },
+  {
+    unit: 'nm2',
+    dimension: 'area',
+    factor: 1852 * 1852,
+    symbol: 'NM²',
+    decimals: 2,
+    names: { one: 'square nautical mile', other: 'square nautical miles' },
+    aliases: ['sq nm', 'square nautical miles'],
+  },
+  {
+    unit: 'mi2',
+    dimension: 'area',
+    factor: 1609.344 * 1609.344,
+    symbol: 'mi²',
+    decimals: 2,
+    aliases: ['sq mi', 'square miles'],
+  },
+  {
+    unit: 'ac',
+    dimension: 'area',
+    factor: 4046.8564224,
+    symbol: 'ac',
+    decimals: 2,
+    intlUnit: 'acre',
+    aliases: ['acre', 'acres'],
+  },
+  {
+    unit: 'ms',
+    dimension: 'speed',
+    factor: 1,
+    symbol: 'm/s',
+    decimals: 2,
+    intlUnit: 'meter-per-second',
+    aliases: ['metres per second', 'meters per second'],
+  },
+  {
+    unit: 'kmh',
+    dimension: 'speed',
+    factor: 1000 / 3600,
+    symbol: 'km/h',
+    decimals: 2,
+    intlUnit: 'kilometer-per-hour',
+    aliases: ['kph', 'kmph', 'kilometres per hour', 'kilometers per hour'],
+  },
+  {
+    unit: 'mph',
+    dimension: 'speed',
+    factor: 1609.344 / 3600,
+    symbol: 'mph',
+    decimals: 2,
+    intlUnit: 'mile-per-hour',
+    aliases: ['mi/h', 'miles per hour'],
+  },
+  {
+    unit: 'kts',
+    dimension: 'speed',
+    factor: 1852 / 3600,
+    symbol: 'kt',
+    decimals: 2,
+    names: { one: 'knot', other: 'knots' },
+    aliases: ['kn', 'knot', 'knots'],
+  },
+  {
+    unit: 'deg',
+    dimension: 'angle',
+    factor: Math.PI / 180,
+    symbol: '°',
+    decimals: 1,
+    names: { one: 'degree', other: 'degrees' },
+    aliases: ['degree', 'degrees'],
+  },
+  {
+    unit: 'rad',
+    dimension: 'angle',
+    factor: 1,
+    symbol: 'rad',
+    decimals: 3,
+    names: { one: 'radian', other: 'radians' },
+    aliases: ['radian', 'radians'],
+  },
+  {
+    unit: 's',
+    dimension: 'time',
+    factor: 1,
+    symbol: 's',
+    intlUnit: 'second',
+    aliases: ['sec', 'secs', 'second', 'seconds'],
+  },
+  {
+    unit: 'min',
+    dimension: 'time',
+    factor: 60,
+    symbol: 'min',
+    decimals: 1,
+    intlUnit: 'minute',
+    aliases: ['mins', 'minute', 'minutes'],
+  },
+  {
+    unit: 'h',
+    dimension: 'time',
+    factor: 3600,
+    symbol: 'h',
+    decimals: 2,
+    intlUnit: 'hour',
+    aliases: ['hr', 'hrs', 'hour', 'hours'],
+  },
+  {
+    unit: 'd',
+    dimension: 'time',
+    factor: 86400,
+    symbol: 'd',
+    decimals: 2,
+    intlUnit: 'day',
+    aliases: ['day', 'days'],
+  },
+  {
+    unit: 'Pa',
+    dimension: 'pressure',
+    factor: 1,
+    symbol: 'Pa',
+    names: { one: 'pascal', other: 'pascals' },
+    aliases: ['pascal', 'pascals'],
+  },
+  {
+    unit: 'hPa',
+    dimension: 'pressure',
+    factor: 100,
+    symbol: 'hPa',
+    names: { one: 'hectopascal', other: 'hectopascals' },
+    aliases: ['mb', 'mbar', 'millibar', 'millibars', 'hectopascal', 'hectopascals'],
+  },
+  {
+    unit: 'inHg',
+    dimension: 'pressure',
+    factor: 3386.389,
+    symbol: 'inHg',
+    decimals: 2,
+    names: { one: 'inch of mercury', other: 'inches of mercury' },
+    aliases: ['"Hg', 'inch of mercury', 'inches of mercury'],
+  },
+  {
+    unit: 'K',
+    dimension: 'temperature',
+    factor: 1,
+    symbol: 'K',
+    decimals: 1,
+    names: { one: 'kelvin', other: 'kelvin' },
+    aliases: ['kelvin'],
+  },
+  {
+    unit: 'degC',
+    dimension: 'temperature',
+    factor: 1,
+    offset: 273.15,
+    symbol: '°C',
+    decimals: 1,
+    intlUnit: 'celsius',
+    aliases: ['C', 'celsius'],
+  },
+  {
+    unit: 'degF',
+    dimension: 'temperature',
+    factor: 5 / 9,
+    offset: (459.67 * 5) / 9,
+    symbol: '°F',
+    decimals: 1,
+    intlUnit: 'fahrenheit',
+    aliases: ['F', 'fahrenheit'],
+  },
+  {
+    unit: 'mps',
+    dimension: 'verticalSpeed',
+    factor: 1,
+    symbol: 'm/s',
+    decimals: 1,
+    intlUnit: 'meter-per-second',
+  },
+  {
+    unit: 'fpm',
+    dimension: 'verticalSpeed',
+    factor: 0.3048 / 60,
+    symbol: 'fpm',
+    names: { one: 'foot per minute', other: 'feet per minute' },
+    aliases: ['ft/min', 'feet per minute'],
+  },
+];
+
+builtins.forEach((def) => registry.set(def.unit, def));
+
+/**
+ * Register a unit, or replace the definition of an existing one. A unit
+ * cannot be moved to a different dimension once registered, since values
+ * already tagged with it would silently change meaning.
+ */
+export function registerUnit<U extends Unit>(def: UnitDefinition<U>): void {
+  if (!(def.factor > 0) || !Number.isFinite(def.factor)) {
+    throw new Error(`Unit ${def.unit} needs a positive, finite factor`);
+  }
+  const existing = registry.get(def.unit);
+  if (existing && existing.dimension !== def.dimension) {
+    throw new Error(
+      `Unit ${def.unit} is already registered as ${existing.dimension}, not ${def.dimension}`
+    );
+  }
+  registry.set(def.unit, def as UnitDefinition);
+}
+
+/**
+ * Look up the definition of a unit. Throws for unknown units so typos
+ * surface immediately rather than as `NaN` further down.
+ */
+export function getUnit<U extends Unit>(unit: U): UnitDefinition<U> {
+  const def = registry.get(unit);
+  if (!def) throw new Error(`Unknown unit ${unit}`);
+  return def as UnitDefinition<U>;
+}
+
+/** Whether `unit` has been registered. */
+export function isUnit(unit: string): unit is Unit {
+  return registry.has(unit);
+}
+
+/** The dimension measured by a unit. */
+export function dimensionOf<U extends Unit>(unit: U): DimensionOf<U> {
+  return getUnit(unit).dimension;
+}
+
+/**
+ * Registered units of a dimension, in registration order. Generic code
+ * holding the dimension as `DimensionOf<U>` can pass `U` explicitly to
+ * get the units back as `U[]`.
+ */
+export function unitsOf<D extends Dimension>(dimension: D): Array<UnitOf<D>>;
+export function unitsOf<U extends Unit>(dimension: DimensionOf<U>): U[];
+export function unitsOf(dimension: Dimension): Unit[] {
+  const out: Unit[] = [];
+  registry.forEach((def) => {
+    if (def.dimension === dimension) out.push(def.unit);
+  });
+  return out;
+}
+
+/**
+ * Resolve a unit from user-facing text: its identifier, symbol or one of
+ * its aliases. Exact matches win over case-insensitive ones so `M` and
+ * `m` stay distinguishable where both exist. Pass `dimension` to resolve
+ * symbols shared between dimensions, such as `m/s`.
+ */
+export function lookupUnit(text: string, dimension?: Dimension): Unit | undefined {
+  const needle = text.trim();
+  if (!needle) return undefined;
+  const candidates: UnitDefinition[] = [];
+  registry.forEach((def) => {
+    if (!dimension || def.dimension === dimension) candidates.push(def);
+  });
+  const spellings = (def: UnitDefinition) => [def.unit as string, def.symbol, ...(def.aliases ?? [])];
+  const exact = candidates.find((def) => spellings(def).includes(needle));
+  if (exact) return exact.unit;
+  const lower = needle.toLowerCase();
+  const loose = candidates.find((def) =>
+    spellings(def).some((s) => s.toLowerCase() === lower)
+  );
+  return loose?.unit;
+}
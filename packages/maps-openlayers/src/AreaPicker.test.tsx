@@ -0,0 +1,170 @@
+import React from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { vi } from 'vitest';
+import Map from 'ol/Map';
+import MapBrowserEvent from 'ol/MapBrowserEvent';
+import Collection from 'ol/Collection';
+import { Draw, Modify } from 'ol/interaction';
+import { ModifyEvent } from 'ol/interaction/Modify';
+import VectorLayer from 'ol/layer/Vector';
+import Feature from 'ol/Feature';
+import Polygon from 'ol/geom/Polygon';
+import { fromLonLat } from 'ol/proj';
+import { LonLat } from '@vizctrl/core';
+import { PolygonGeometry } from './formats';
+import AreaPicker, { Area, AreaPickerProps } from './AreaPicker';
+
+// the picker keeps its map to itself; catch it as it attaches to the page
+function renderPicker(props: Partial<AreaPickerProps> = {}) {
+  const maps = new Set<Map>();
+  const getTargetElement = Map.prototype.getTargetElement;
+  vi.spyOn(Map.prototype, 'getTargetElement').mockImplementation(function (this: Map) {
+    maps.add(this);
+    return getTargetElement.call(this);
+  });
+  // each new shape adds a fresh Draw
+  const addInteraction = vi.spyOn(Map.prototype, 'addInteraction');
+  const onChange = vi.fn();
+  render(<AreaPicker onChange={onChange} locale="en-US" baseLayer={{ type: 'background' }} {...props} />);
+  const [map] = maps;
+  // jsdom neither lays out nor renders the map; Draw only needs pixels for snapping
+  vi.spyOn(map, 'getPixelFromCoordinate').mockImplementation((c) => [c[0], c[1]]);
+  // the area layer sits above the basemaps
+  const layers = map.getAllLayers();
+  const source = (layers[layers.length - 1] as VectorLayer<Feature>).getSource()!;
+
+  const sketch = (points: LonLat[]) =>
+    act(() => {
+      const draws = addInteraction.mock.calls.map(([i]) => i).filter((i): i is Draw => i instanceof Draw);
+      const draw = draws[draws.length - 1];
+      draw.appendCoordinates(points.map((p) => fromLonLat(p)));
+      // circles and boxes finish on their second point
+      if (points.length > 2) draw.finishDrawing();
+    });
+  const modify = (geometry: Polygon) =>
+    act(() => {
+      const feature = source.getFeatures()[0];
+      feature.setGeometry(geometry);
+      const interaction = map.getInteractions().getArray().find((i): i is Modify => i instanceof Modify)!;
+      const up = new MapBrowserEvent('pointerup', map, new MouseEvent('pointerup'));
+      interaction.dispatchEvent(new ModifyEvent('modifyend', new Collection([feature]), up));
+    });
+  const last = (): [Area | null, PolygonGeometry | null] => onChange.mock.calls[onChange.mock.calls.length - 1];
+  return { source, onChange, sketch, modify, last };
+}
+
+const corners: LonLat[] = [[0, 0], [1, 0], [1, 1], [0, 1]];
+const moved: LonLat[] = [[0, 0], [2, 0], [1, 1], [0, 1]];
+const polygon = (ring: LonLat[]) => new Polygon([[...ring, ring[0]].map((p) => fromLonLat(p))]);
+const rounded = (ring: LonLat[]) => ring.map((p) => p.map((v) => +v.toFixed(6)));
+const ringOf = (area: Area | null) => (area?.type === 'polygon' ? rounded(area.ring) : null);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+test('AreaPicker refuses a self-intersecting polygon and keeps drawing', () => {
+  const { source, onChange, sketch } = renderPicker();
+  // a bow tie
+  sketch([[0, 0], [1, 1], [1, 0], [0, 1]]);
+
+  expect(onChange).not.toHaveBeenCalled();
+  expect(document.querySelector('output')).toHaveTextContent('No area');
+  expect(screen.getByRole('alert')).toHaveTextContent('Polygon edges must not cross');
+  expect(source.getFeatures()).toHaveLength(0);
+  expect(screen.getByText(/Click to add corners/)).toBeInTheDocument();
+});
+
+test('AreaPicker reports a drawn polygon with its closed GeoJSON ring', () => {
+  const { onChange, sketch, last } = renderPicker();
+  sketch(corners);
+  expect(onChange).toHaveBeenCalledTimes(1);
+  const [area, geometry] = last();
+  expect(ringOf(area)).toEqual(corners);
+  expect(geometry?.coordinates[0]).toHaveLength(5);
+  expect(geometry?.coordinates[0][4]).toEqual(geometry?.coordinates[0][0]);
+  expect(screen.queryByText(/Click to add corners/)).toBeNull();
+});
+
+test('AreaPicker draws a circle with a ground radius and edits it', () => {
+  const { onChange, sketch, last } = renderPicker({ radiusUnit: 'km' });
+  fireEvent.click(screen.getByRole('radio', { name: 'Circle' }));
+  expect(screen.getByText('Click the centre, then the edge.')).toBeInTheDocument();
+  // a tenth of a degree of longitude on the equator
+  sketch([[0, 0], [0.1, 0]]);
+
+  const [area, geometry] = last();
+  if (area?.type !== 'circle') throw new Error('expected a circle');
+  expect(area.center.map((v) => +v.toFixed(6))).toEqual([0, 0]);
+  expect(area.radius.unit).toBe('km');
+  expect(area.radius.value).toBeCloseTo(11.132, 3);
+  // circles reach GeoJSON as 64-sided polygons
+  expect(geometry?.coordinates[0]).toHaveLength(65);
+
+  const radius = screen.getByRole('textbox', { name: 'Radius' });
+  expect(radius).toHaveValue('11.1');
+  fireEvent.change(radius, { target: { value: '5' } });
+  fireEvent.keyDown(radius, { key: 'Enter' });
+  expect(last()[0]).toEqual({ ...area, radius: { value: 5, unit: 'km' } });
+  expect(onChange).toHaveBeenCalledTimes(2);
+});
+
+test('AreaPicker draws a bounding box', () => {
+  const { sketch, last } = renderPicker({ defaultMode: 'bbox' });
+  expect(screen.getByRole('radio', { name: 'Box' })).toHaveAttribute('aria-checked', 'true');
+  sketch([[3, 2], [1, 1]]);
+  const [area, geometry] = last();
+  if (area?.type !== 'bbox') throw new Error('expected a box');
+  expect(area.bbox.map((v) => +v.toFixed(6))).toEqual([1, 1, 3, 2]);
+  expect(rounded(geometry!.coordinates[0])).toEqual([[1, 1], [3, 1], [3, 2], [1, 2], [1, 1]]);
+});
+
+test('AreaPicker takes Modify edits and refuses ones that cross', () => {
+  const { source, onChange, modify, last } = renderPicker({ defaultValue: { type: 'polygon', ring: corners } });
+  modify(polygon(moved));
+  expect(onChange).toHaveBeenCalledTimes(1);
+  expect(ringOf(last()[0])).toEqual(moved);
+
+  modify(polygon([[0, 0], [1, 1], [1, 0], [0, 1]]));
+  expect(onChange).toHaveBeenCalledTimes(1);
+  expect(screen.getByRole('alert')).toHaveTextContent('Polygon edges must not cross');
+  // the last accepted shape is put back on the map
+  const shown = (source.getFeatures()[0].getGeometry() as Polygon).getCoordinates()[0];
+  expect(shown).toEqual(polygon(moved).getCoordinates()[0]);
+});
+
+test('AreaPicker reads out the area in the chosen unit', () => {
+  const onAreaUnitChange = vi.fn();
+  const { onChange } = renderPicker({ defaultValue: { type: 'bbox', bbox: [0, 0, 1, 1] }, onAreaUnitChange });
+  const readout = document.querySelector('output')!;
+  expect(readout).toHaveTextContent('12,363.72 km²');
+  fireEvent.change(screen.getByRole('combobox', { name: 'Area unit' }), { target: { value: 'm2' } });
+  expect(onAreaUnitChange).toHaveBeenCalledWith('m2');
+  expect(readout).toHaveTextContent('12,363,718,145 m²');
+  // the unit is only for display
+  expect(onChange).not.toHaveBeenCalled();
+});
+
+test('AreaPicker undoes, redoes and abandons a redraw with Escape', () => {
+  const { source, sketch, modify, last } = renderPicker();
+  sketch(corners);
+  modify(polygon(moved));
+
+  fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+  expect(ringOf(last()[0])).toEqual(corners);
+  fireEvent.keyDown(screen.getByRole('button', { name: 'Undo' }), { key: 'z', ctrlKey: true });
+  expect(last()).toEqual([null, null]);
+  expect(screen.getByRole('button', { name: 'Undo' })).toBeDisabled();
+  fireEvent.keyDown(screen.getByRole('button', { name: 'Redo' }), { key: 'y', ctrlKey: true });
+  fireEvent.click(screen.getByRole('button', { name: 'Redo' }));
+  expect(ringOf(last()[0])).toEqual(moved);
+  expect(screen.getByRole('button', { name: 'Redo' })).toBeDisabled();
+
+  fireEvent.click(screen.getByRole('button', { name: 'Redraw' }));
+  expect(screen.getByText(/Click to add corners/)).toBeInTheDocument();
+  fireEvent.keyDown(screen.getByRole('button', { name: 'Redraw' }), { key: 'Escape' });
+  expect(screen.queryByText(/Click to add corners/)).toBeNull();
+  expect(screen.getByRole('button', { name: 'Redraw' })).toBeEnabled();
+  // the area on the map is left as it was
+  expect(source.getFeatures()).toHaveLength(1);
+});
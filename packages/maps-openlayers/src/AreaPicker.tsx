@@ -0,0 +1,388 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Map from 'ol/Map';
+import View from 'ol/View';
+import { fromLonLat, toLonLat } from 'ol/proj';
+import VectorLayer from 'ol/layer/Vector';
+import VectorSource from 'ol/source/Vector';
+import Feature from 'ol/Feature';
+import Geometry from 'ol/geom/Geometry';
+import Polygon from 'ol/geom/Polygon';
+import Circle from 'ol/geom/Circle';
+import { defaults as defaultInteractions, Draw, Modify } from 'ol/interaction';
+import { createBox } from 'ol/interaction/Draw';
+import { Fill, Stroke, Style } from 'ol/style';
+import { asArray } from 'ol/color';
+import {
+  QuantityField,
+  themeColor,
+  useControllableState,
+  useVizCtrlTheme,
+} from '@vizctrl/react';
+import {
+  AreaUnit,
+  EARTH_RADIUS,
+  LengthUnit,
+  LonLat,
+  Quantity,
+  circleRing,
+  convert,
+  formatQuantity,
+  getUnit,
+  ringSelfIntersects,
+  sphericalArea,
+  unitsOf,
+} from '@vizctrl/core';
+import { BaseLayerSpec } from './baseLayers';
+import { useBaseLayers } from './useBaseLayers';
+import { historyKeyDown, useHistory } from './useHistory';
+import { PolygonGeometry, featuresToArea } from './formats';
+import { fitFeatures, useFileDrop } from './useFileDrop';
+
+export type AreaMode = 'polygon' | 'circle' | 'bbox';
+
+/**
+ * A selected area. Polygon rings are open (the first position is not
+ * repeated) and bounding boxes are `[west, south, east, north]`.
+ */
+export type Area =
+  | { type: 'polygon'; ring: LonLat[] }
+  | { type: 'circle'; center: LonLat; radius: Quantity<LengthUnit> }
+  | { type: 'bbox'; bbox: [number, number, number, number] };
+
+/**
+ * GeoJSON geometry for an area. Circles become 64-sided polygons since
+ * GeoJSON has no circle type.
+ */
+export function areaToGeometry(area: Area): PolygonGeometry {
+  let ring: LonLat[];
+  if (area.type === 'polygon') ring = area.ring;
+  else if (area.type === 'circle') ring = circleRing(area.center, area.radius);
+  else {
+    const [w, s, e, n] = area.bbox;
+    ring = [
+      [w, s],
+      [e, s],
+      [e, n],
+      [w, n],
+    ];
+  }
+  return { type: 'Polygon', coordinates: [[...ring, ring[0]]] };
+}
+
+/** Size of an area on a spherical Earth. */
+export function areaSize(area: Area): Quantity<'m2'> {
+  if (area.type !== 'circle') return sphericalArea(areaToGeometry(area).coordinates[0]);
+  // spherical cap
+  const r = convert(area.radius, 'm').value / EARTH_RADIUS;
+  return { value: 2 * Math.PI * EARTH_RADIUS * EARTH_RADIUS * (1 - Math.cos(r)), unit: 'm2' };
+}
+
+const modeLabels: Record<AreaMode, string> = { polygon: 'Polygon', circle: 'Circle', bbox: 'Box' };
+
+export interface AreaPickerProps {
+  /** Controlled area, or null for none. */
+  value?: Area | null;
+  /** Initial area when uncontrolled. Default none. */
+  defaultValue?: Area | null;
+  /** Called with the area and its GeoJSON geometry after every edit. */
+  onChange?: (area: Area | null, geometry: PolygonGeometry | null) => void;
+  /** Controlled draw mode. */
+  mode?: AreaMode;
+  /** Initial draw mode. Default `'polygon'`. */
+  defaultMode?: AreaMode;
+  onModeChange?: (mode: AreaMode) => void;
+  /** Draw modes offered. Default all. */
+  modes?: AreaMode[];
+  /** Controlled unit for the area readout. */
+  areaUnit?: AreaUnit;
+  /** Initial area unit. Default `'km2'`. */
+  defaultAreaUnit?: AreaUnit;
+  onAreaUnitChange?: (unit: AreaUnit) => void;
+  /** Unit for new circle radii. Default `'km'`. */
+  radiusUnit?: LengthUnit;
+  /** Accept polygons whose edges cross. Default false. */
+  allowSelfIntersection?: boolean;
+  /** BCP 47 locale for the readouts. */
+  locale?: string;
+  /** Initial view centre. Default [0, 0]. */
+  defaultCenter?: LonLat;
+  /** Initial zoom level. Default 4. */
+  defaultZoom?: number;
+  /** Optional label displayed above the map. */
+  label?: string;
+  /** Basemap. Defaults to OpenStreetMap. Ignored when `layers` is given. */
+  baseLayer?: BaseLayerSpec;
+  /** Basemaps to choose from; the first is shown initially. */
+  layers?: BaseLayerSpec[];
+  /** Show a basemap switcher. Defaults to true when there is more than one basemap. */
+  layerSwitcher?: boolean;
+  /** Accept GeoJSON, KML or GPX files dropped onto the map, replacing the area. Default false. */
+  fileDrop?: boolean;
+}
+
+/**
+ * Area selection on an OpenLayers map: a polygon, a circle given by
+ * centre and radius, or a bounding box. Picking a shape starts drawing
+ * a new area; afterwards its vertices, edges or radius can be dragged.
+ * Polygons whose edges cross are refused with a message unless
+ * `allowSelfIntersection` is set. Circles are stored with a true
+ * ground radius and drawn as such in Web Mercator.
+ */
+export default function AreaPicker({
+  value: valueProp,
+  defaultValue = null,
+  onChange,
+  mode: modeProp,
+  defaultMode = 'polygon',
+  onModeChange,
+  modes = ['polygon', 'circle', 'bbox'],
+  areaUnit: areaUnitProp,
+  defaultAreaUnit = 'km2',
+  onAreaUnitChange,
+  radiusUnit = 'km',
+  allowSelfIntersection = false,
+  locale,
+  defaultCenter = [0, 0],
+  defaultZoom = 4,
+  label,
+  baseLayer = { type: 'osm' },
+  layers,
+  layerSwitcher,
+  fileDrop = false,
+}: AreaPickerProps) {
+  const [value, setValue] = useControllableState(
+    valueProp,
+    defaultValue,
+    onChange && ((next: Area | null) => onChange(next, next && areaToGeometry(next)))
+  );
+  const [mode, setMode] = useControllableState(modeProp, defaultMode, onModeChange);
+  const [areaUnit, setAreaUnit] = useControllableState(areaUnitProp, defaultAreaUnit, onAreaUnitChange);
+  const history = useHistory(value, setValue);
+  const [drawing, setDrawing] = useState(value === null);
+  const [problem, setProblem] = useState<string | null>(null);
+  const theme = useVizCtrlTheme();
+  const base = useBaseLayers(layers ?? [baseLayer], layerSwitcher);
+  const drop = useFileDrop(fileDrop, (features) => {
+    if (accept(featuresToArea(features))) setDrawing(false);
+    fitFeatures(mapRef.current, features);
+  });
+
+  const mapDiv = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<Map | null>(null);
+  const sourceRef = useRef<VectorSource | null>(null);
+  const drawRef = useRef<Draw | null>(null);
+  // the mount-only listeners and styles read state through this ref
+  const latest = useRef({ value, history, theme, radiusUnit, allowSelfIntersection });
+  latest.current = { value, history, theme, radiusUnit, allowSelfIntersection };
+
+  // accept an edited area, or refuse it and redraw the current one
+  const accept = (next: Area | null): boolean => {
+    const { history, allowSelfIntersection } = latest.current;
+    if (next?.type === 'polygon' && !allowSelfIntersection && ringSelfIntersects(next.ring)) {
+      setProblem('Polygon edges must not cross');
+      redraw();
+      return false;
+    }
+    setProblem(null);
+    history.commit(next);
+    return true;
+  };
+  const redraw = () => {
+    const source = sourceRef.current;
+    if (!source) return;
+    source.clear();
+    const { value } = latest.current;
+    if (value) source.addFeature(new Feature(areaGeometry(value)));
+  };
+
+  useEffect(() => {
+    if (!mapDiv.current) return;
+
+    const source = new VectorSource();
+    sourceRef.current = source;
+    const style = () => {
+      const { colors } = latest.current.theme;
+      return new Style({
+        stroke: new Stroke({ color: colors.fill, width: 2 }),
+        fill: new Fill({ color: [...asArray(colors.fill).slice(0, 3), 0.2] }),
+      });
+    };
+    const modify = new Modify({ source });
+    const map = new Map({
+      target: mapDiv.current,
+      layers: [...base.layers, new VectorLayer({ source, style })],
+      view: new View({ center: fromLonLat(defaultCenter), zoom: defaultZoom }),
+      interactions: defaultInteractions().extend([modify]),
+    });
+
+    modify.on('modifyend', (e) => {
+      const { value, radiusUnit } = latest.current;
+      const geometry = e.features.item(0)?.getGeometry();
+      const unit = value?.type === 'circle' ? value.radius.unit : radiusUnit;
+      if (value && geometry) accept(toArea(value.type, geometry, unit));
+    });
+
+    mapRef.current = map;
+    return () => {
+      map.setTarget(undefined);
+    };
+  }, []);
+
+  // show the area when it changes
+  useEffect(() => {
+    redraw();
+  }, [value]);
+
+  // draw a new area in the chosen mode
+  useEffect(() => {
+    const map = mapRef.current;
+    const source = sourceRef.current;
+    if (!map || !source || !drawing) return;
+    const draw =
+      mode === 'polygon'
+        ? new Draw({ source, type: 'Polygon' })
+        : new Draw({ source, type: 'Circle', geometryFunction: mode === 'bbox' ? createBox() : undefined });
+    draw.on('drawstart', () => source.clear());
+    draw.on('drawend', (e) => {
+      const geometry = e.feature.getGeometry();
+      if (geometry && accept(toArea(mode, geometry, latest.current.radiusUnit))) {
+        setDrawing(false);
+        return;
+      }
+      // Draw adds the sketch to the source after this event; take a refused one back out
+      source.once('addfeature', (added) => {
+        if (added.feature === e.feature) source.removeFeature(e.feature);
+      });
+    });
+    drawRef.current = draw;
+    map.addInteraction(draw);
+    return () => {
+      map.removeInteraction(draw);
+      drawRef.current = null;
+    };
+  }, [mode, drawing]);
+
+  const size = value && convert(areaSize(value), areaUnit);
+  const radius = value?.type === 'circle' ? value.radius : null;
+
+  return (
+    <div
+      className="vizctrl-area"
+      style={{ display: 'flex', flexDirection: 'column', gap: 4 }}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape' && drawing) {
+          drawRef.current?.abortDrawing();
+          setDrawing(value === null);
+          redraw();
+        }
+        historyKeyDown(history)(e);
+      }}
+    >
+      {label && <label>{label}</label>}
+      <div
+        ref={mapDiv}
+        {...drop.dropProps}
+        style={{ width: '100%', height: '300px', background: base.background, ...drop.dropProps.style }}
+      />
+      {base.controls}
+      {drop.controls}
+      <div role="toolbar" aria-label="Area" style={{ display: 'flex', gap: 4, flexWrap: 'wrap' }}>
+        <div role="radiogroup" aria-label="Shape" style={{ display: 'inline-flex', gap: 2 }}>
+          {modes.map((m) => (
+            <button
+              key={m}
+              type="button"
+              role="radio"
+              aria-checked={mode === m}
+              onClick={() => {
+                setMode(m);
+                setDrawing(true);
+              }}
+            >
+              {modeLabels[m]}
+            </button>
+          ))}
+        </div>
+        <button type="button" onClick={() => setDrawing(true)} disabled={drawing}>
+          Redraw
+        </button>
+        <button type="button" onClick={() => accept(null)} disabled={!value}>
+          Clear
+        </button>
+        <button type="button" onClick={history.undo} disabled={!history.canUndo}>
+          Undo
+        </button>
+        <button type="button" onClick={history.redo} disabled={!history.canRedo}>
+          Redo
+        </button>
+      </div>
+      {drawing && (
+        <div role="status" style={{ fontSize: 12 }}>
+          {mode === 'polygon'
+            ? 'Click to add corners; double-click to finish.'
+            : mode === 'circle'
+              ? 'Click the centre, then the edge.'
+              : 'Click one corner, then the opposite corner.'}
+        </div>
+      )}
+      {problem && (
+        <div role="alert" className="vizctrl-error" style={{ color: themeColor('warning'), fontSize: 12 }}>
+          {problem}
+        </div>
+      )}
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+        <output style={{ fontSize: 14 }}>{size ? formatQuantity(size, { locale }) : 'No area'}</output>
+        <select aria-label="Area unit" value={areaUnit} onChange={(e) => setAreaUnit(e.target.value as AreaUnit)}>
+          {unitsOf('area').map((u) => (
+            <option key={u} value={u}>
+              {getUnit(u).symbol}
+            </option>
+          ))}
+        </select>
+        {value?.type === 'circle' && radius && (
+          <QuantityField
+            ariaLabel="Radius"
+            value={radius.value}
+            unit={radius.unit}
+            locale={locale}
+            min={0}
+            step={radius.unit === 'm' || radius.unit === 'ft' ? 10 : 0.1}
+            onChange={(n) => n > 0 && accept({ ...value, radius: { value: n, unit: radius.unit } })}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Map geometry for an area; circles are scaled for Web Mercator. */
+function areaGeometry(area: Area): Geometry {
+  if (area.type === 'circle') {
+    const r = convert(area.radius, 'm').value / Math.cos((area.center[1] * Math.PI) / 180);
+    return new Circle(fromLonLat(area.center), r);
+  }
+  return new Polygon([areaToGeometry(area).coordinates[0].map((p) => fromLonLat(p))]);
+}
+
+/** Read an area back from a drawn or modified map geometry. */
+function toArea(type: AreaMode, geometry: Geometry, radiusUnit: LengthUnit): Area {
+  if (type === 'circle' && geometry instanceof Circle) {
+    const ll = toLonLat(geometry.getCenter());
+    const center: LonLat = [ll[0], ll[1]];
+    const metres = geometry.getRadius() * Math.cos((center[1] * Math.PI) / 180);
+    return { type, center, radius: convert({ value: metres, unit: 'm' }, radiusUnit) };
+  }
+  const ring = (geometry as Polygon).getCoordinates()[0].slice(0, -1).map((c): LonLat => {
+    const ll = toLonLat(c);
+    return [ll[0], ll[1]];
+  });
+  if (type === 'bbox') {
+    const lons = ring.map((p) => p[0]);
+    const lats = ring.map((p) => p[1]);
+    return {
+      type,
+      bbox: [Math.min(...lons), Math.min(...lats), Math.max(...lons), Math.max(...lats)],
+    };
+  }
+  return { type: 'polygon', ring };
+}
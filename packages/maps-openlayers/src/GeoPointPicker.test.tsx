@@ -0,0 +1,80 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import { vi } from 'vitest';
+import Map from 'ol/Map';
+import VectorLayer from 'ol/layer/Vector';
+import Feature from 'ol/Feature';
+import Point from 'ol/geom/Point';
+import { fromLonLat, toLonLat } from 'ol/proj';
+import GeoPointPicker, { GeoPointPickerProps } from './GeoPointPicker';
+
+// the picker keeps its map to itself; catch it as it attaches to the page
+function renderPicker(props: Partial<GeoPointPickerProps> = {}) {
+  const maps = new Set<Map>();
+  const getTargetElement = Map.prototype.getTargetElement;
+  const spy = vi.spyOn(Map.prototype, 'getTargetElement').mockImplementation(function (this: Map) {
+    maps.add(this);
+    return getTargetElement.call(this);
+  });
+  const onChange = vi.fn();
+  const onViewChange = vi.fn();
+  const all: GeoPointPickerProps = { value: [0, 0], onChange, onViewChange, baseLayer: { type: 'background' }, ...props };
+  const { rerender } = render(<GeoPointPicker {...all} />);
+  spy.mockRestore();
+  const [map] = maps;
+  const layers = map.getAllLayers();
+  const marker = (layers[layers.length - 1] as VectorLayer<Feature<Point>>).getSource()!.getFeatures()[0];
+  return {
+    map,
+    marker: marker.getGeometry()!,
+    onChange,
+    onViewChange,
+    update: (next: Partial<GeoPointPickerProps>) => rerender(<GeoPointPicker {...all} {...next} />),
+  };
+}
+
+const lonLat = (c: number[]) => toLonLat(c).map((v) => +v.toFixed(6));
+
+test('GeoPointPicker reports markers moved on the map', () => {
+  const { marker, onChange } = renderPicker();
+  marker.setCoordinates(fromLonLat([5, 6]));
+  expect(onChange).toHaveBeenCalledTimes(1);
+  expect(onChange.mock.calls[0][0][0]).toBeCloseTo(5, 9);
+  expect(onChange.mock.calls[0][0][1]).toBeCloseTo(6, 9);
+});
+
+test('GeoPointPicker moves the marker for a new value without reporting it back', () => {
+  const { map, marker, onChange, update } = renderPicker();
+  update({ value: [10, 20] });
+  expect(lonLat(marker.getCoordinates())).toEqual([10, 20]);
+  expect(onChange).not.toHaveBeenCalled();
+  // the view stays put unless following
+  expect(lonLat(map.getView().getCenter()!)).toEqual([0, 0]);
+  update({ value: [11, 21], follow: true });
+  expect(lonLat(map.getView().getCenter()!)).toEqual([11, 21]);
+  expect(onChange).not.toHaveBeenCalled();
+});
+
+test('GeoPointPicker applies a controlled view and reports only user changes', () => {
+  const { map, onViewChange, update } = renderPicker({ center: [8, 47], zoom: 6, rotation: 90 });
+  const view = map.getView();
+  expect(lonLat(view.getCenter()!)).toEqual([8, 47]);
+  expect(view.getZoom()).toBe(6);
+  expect(view.getRotation()).toBeCloseTo(Math.PI / 2);
+
+  update({ center: [9, 48], zoom: 7, rotation: 0 });
+  expect(lonLat(view.getCenter()!)).toEqual([9, 48]);
+  expect(view.getZoom()).toBe(7);
+  expect(view.getRotation()).toBe(0);
+  // the move that follows a prop change is not echoed
+  map.dispatchEvent('moveend');
+  expect(onViewChange).not.toHaveBeenCalled();
+
+  view.setZoom(9);
+  map.dispatchEvent('moveend');
+  expect(onViewChange).toHaveBeenCalledTimes(1);
+  const reported = onViewChange.mock.calls[0][0];
+  expect(reported.zoom).toBe(9);
+  expect(reported.rotation).toBe(0);
+  expect(reported.center.map((v: number) => +v.toFixed(6))).toEqual([9, 48]);
+});
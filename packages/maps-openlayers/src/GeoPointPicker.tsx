@@ -1,14 +1,25 @@
 import React, { useRef, useEffect } from 'react';
 import Map from 'ol/Map';
 import View from 'ol/View';
-import TileLayer from 'ol/layer/Tile';
-import OSM from 'ol/source/OSM';
 import { fromLonLat, toLonLat } from 'ol/proj';
 import VectorLayer from 'ol/layer/Vector';
 import VectorSource from 'ol/source/Vector';
 import Feature from 'ol/Feature';
 import Point from 'ol/geom/Point';
 import { defaults as defaultInteractions, Modify } from 'ol/interaction';
+import { CoordinateInput, useControllableState } from '@vizctrl/react';
+import type { CoordinateFormat } from '@vizctrl/core';
+import { BaseLayerSpec } from './baseLayers';
+import { useBaseLayers } from './useBaseLayers';
+import { featuresToPoint } from './formats';
+import { fitFeatures, useFileDrop } from './useFileDrop';
+
+/** Map view: centre as [longitude, latitude], zoom level and rotation in degrees clockwise. */
+export interface MapView {
+  center: [number, number];
+  zoom: number;
+  rotation: number;
+}
 
 export interface GeoPointPickerProps {
   /**
@@ -19,21 +30,99 @@ export interface GeoPointPickerProps {
    * Called when the coordinate changes. Receives [lon, lat].
    */
   onChange: (coord: [number, number]) => void;
-  /** Initial zoom level. */
+  /** Controlled view centre as [lon, lat]. */
+  center?: [number, number];
+  /** Initial view centre. Defaults to `value`. */
+  defaultCenter?: [number, number];
+  /** Controlled zoom level. */
   zoom?: number;
+  /** Initial zoom level. Default 4. */
+  defaultZoom?: number;
+  /** Controlled rotation in degrees clockwise. */
+  rotation?: number;
+  /** Initial rotation in degrees. Default 0. */
+  defaultRotation?: number;
+  /** Called when the user has finished panning, zooming or rotating. */
+  onViewChange?: (view: MapView) => void;
+  /** Controlled follow mode: recentre the view when the value changes. */
+  follow?: boolean;
+  /** Initial follow mode. Default false. */
+  defaultFollow?: boolean;
+  onFollowChange?: (follow: boolean) => void;
+  /** Show a checkbox for follow mode. Default true. */
+  followToggle?: boolean;
   /** Optional label displayed above the map. */
   label?: string;
+  /** Basemap. Defaults to OpenStreetMap. Ignored when `layers` is given. */
+  baseLayer?: BaseLayerSpec;
+  /** Basemaps to choose from; the first is shown initially. */
+  layers?: BaseLayerSpec[];
+  /** Show a basemap switcher. Defaults to true when there is more than one basemap. */
+  layerSwitcher?: boolean;
+  /** Accept GeoJSON, KML or GPX files dropped onto the map; the first position is picked. Default false. */
+  fileDrop?: boolean;
+  /**
+   * Render a `CoordinateInput` under the map for typing or pasting the
+   * position. It follows the marker and moves it on entry.
+   */
+  coordinateInput?: boolean;
+  /** Initial notation of the coordinate input. Default `'decimal'`. */
+  coordinateFormat?: CoordinateFormat;
 }
 
 /**
  * A lightweight OpenLayers adapter that renders a map and allows the
  * user to pick a single coordinate by clicking. A draggable marker
- * reflects the current value and updates when dragged.
+ * reflects the current value and updates when dragged. Optionally a
+ * coordinate text input below the map offers keyboard entry. Basemaps
+ * are read once at mount.
+ *
+ * The view is left alone when the value changes unless follow mode is
+ * on. `center`, `zoom` and `rotation` are applied whenever they change;
+ * omit them to let the map own its view.
  */
-export default function GeoPointPicker({ value, onChange, zoom = 4, label }: GeoPointPickerProps) {
+export default function GeoPointPicker({
+  value,
+  onChange,
+  center,
+  defaultCenter,
+  zoom,
+  defaultZoom = 4,
+  rotation,
+  defaultRotation = 0,
+  onViewChange,
+  follow: followProp,
+  defaultFollow = false,
+  onFollowChange,
+  followToggle = true,
+  label,
+  baseLayer = { type: 'osm' },
+  layers,
+  layerSwitcher,
+  fileDrop = false,
+  coordinateInput = false,
+  coordinateFormat,
+}: GeoPointPickerProps) {
   const mapDiv = useRef<HTMLDivElement>(null);
+  const base = useBaseLayers(layers ?? [baseLayer], layerSwitcher);
+  const drop = useFileDrop(fileDrop, (features) => {
+    onChange(featuresToPoint(features));
+    fitFeatures(mapRef.current, features);
+  });
+  const [follow, setFollow] = useControllableState(followProp, defaultFollow, onFollowChange);
   const markerRef = useRef<Feature<Point> | null>(null);
   const mapRef = useRef<Map | null>(null);
+  // the mount-only listeners read props through this ref so they never go stale
+  const latest = useRef({ value, onChange, onViewChange });
+  latest.current = { value, onChange, onViewChange };
+  // set while the value prop moves the marker, so it is not reported back
+  const syncing = useRef(false);
+  // last view reported or applied, to skip echoes
+  const view = useRef<MapView>({
+    center: center ?? defaultCenter ?? value,
+    zoom: zoom ?? defaultZoom,
+    rotation: rotation ?? defaultRotation,
+  });
 
   useEffect(() => {
     if (!mapDiv.current) return;
@@ -41,33 +130,44 @@ export default function GeoPointPicker({ value, onChange, zoom = 4, label }: Geo
     // initialise marker
     const marker = new Feature(new Point(fromLonLat(value)));
     markerRef.current = marker;
-    const vectorSource: VectorSource<Feature<Point>> = new VectorSource({ features: [marker] });
+    const vectorSource = new VectorSource<Feature>({ features: [marker] });
     const markerLayer = new VectorLayer({ source: vectorSource });
 
     const map = new Map({
       target: mapDiv.current,
-      layers: [
-        new TileLayer({ source: new OSM() }),
-        markerLayer,
-      ],
-      view: new View({ center: fromLonLat(value), zoom }),
-      interactions: defaultInteractions().extend([new Modify({ source: vectorSource as unknown as VectorSource })]),
+      layers: [...base.layers, markerLayer],
+      view: new View({
+        center: fromLonLat(view.current.center),
+        zoom: view.current.zoom,
+        rotation: toRadians(view.current.rotation),
+      }),
+      interactions: defaultInteractions().extend([new Modify({ source: vectorSource })]),
     });
 
-    // update on click
+    // move on click; the change listener below reports it
     map.on('click', (e) => {
-      const lonlat = toLonLat(e.coordinate);
       marker.getGeometry()?.setCoordinates(e.coordinate);
-      onChange([lonlat[0], lonlat[1]]);
     });
 
-    // update on drag
+    // report clicks and drags, but not moves made by the value prop
     marker.on('change', () => {
       const geom = marker.getGeometry();
-      if (geom) {
-        const ll = toLonLat(geom.getCoordinates());
-        onChange([ll[0], ll[1]]);
-      }
+      if (!geom || syncing.current) return;
+      const ll = toLonLat(geom.getCoordinates());
+      const next: [number, number] = [ll[0], ll[1]];
+      if (!sameLonLat(next, latest.current.value)) latest.current.onChange(next);
+    });
+
+    map.on('moveend', () => {
+      const v = map.getView();
+      const c = v.getCenter();
+      const z = v.getZoom();
+      if (!c || z === undefined) return;
+      const ll = toLonLat(c);
+      const next: MapView = { center: [ll[0], ll[1]], zoom: z, rotation: toDegrees(v.getRotation()) };
+      if (sameView(next, view.current)) return;
+      view.current = next;
+      latest.current.onViewChange?.(next);
     });
 
     mapRef.current = map;
@@ -76,19 +176,69 @@ export default function GeoPointPicker({ value, onChange, zoom = 4, label }: Geo
     };
   }, []);
 
-  // update marker if value prop changes
+  // move the marker when the value prop changes
   useEffect(() => {
-    if (markerRef.current && mapRef.current) {
-      const transformed = fromLonLat(value);
-      markerRef.current.getGeometry()?.setCoordinates(transformed);
-      mapRef.current.getView().setCenter(transformed);
+    const geom = markerRef.current?.getGeometry();
+    if (!geom) return;
+    const ll = toLonLat(geom.getCoordinates());
+    if (!sameLonLat([ll[0], ll[1]], value)) {
+      syncing.current = true;
+      geom.setCoordinates(fromLonLat(value));
+      syncing.current = false;
     }
-  }, [value]);
+    if (follow) mapRef.current?.getView().setCenter(fromLonLat(value));
+  }, [value[0], value[1], follow]);
+
+  // apply controlled view props
+  useEffect(() => {
+    const v = mapRef.current?.getView();
+    if (!v) return;
+    const next: MapView = {
+      center: center ?? view.current.center,
+      zoom: zoom ?? view.current.zoom,
+      rotation: rotation ?? view.current.rotation,
+    };
+    if (sameView(next, view.current)) return;
+    view.current = next;
+    if (center) v.setCenter(fromLonLat(center));
+    if (zoom !== undefined) v.setZoom(zoom);
+    if (rotation !== undefined) v.setRotation(toRadians(rotation));
+  }, [center?.[0], center?.[1], zoom, rotation]);
 
   return (
     <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
       {label && <label>{label}</label>}
-      <div ref={mapDiv} style={{ width: '100%', height: '300px' }} />
+      <div
+        ref={mapDiv}
+        {...drop.dropProps}
+        style={{ width: '100%', height: '300px', background: base.background, ...drop.dropProps.style }}
+      />
+      {base.controls}
+      {drop.controls}
+      {followToggle && (
+        <label style={{ fontSize: 12 }}>
+          <input type="checkbox" checked={follow} onChange={(e) => setFollow(e.target.checked)} /> Follow marker
+        </label>
+      )}
+      {coordinateInput && (
+        <CoordinateInput
+          value={value}
+          onChange={onChange}
+          defaultFormat={coordinateFormat}
+          label={label ? `${label} coordinate` : undefined}
+        />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+function sameLonLat(a: [number, number], b: [number, number]): boolean {
+  return Math.abs(a[0] - b[0]) < 1e-9 && Math.abs(a[1] - b[1]) < 1e-9;
+}
+
+function sameView(a: MapView, b: MapView): boolean {
+  return sameLonLat(a.center, b.center) && Math.abs(a.zoom - b.zoom) < 1e-6 && Math.abs(a.rotation - b.rotation) < 1e-6;
+}
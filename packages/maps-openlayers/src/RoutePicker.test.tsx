@@ -0,0 +1,98 @@
+import React from 'react';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { vi } from 'vitest';
+import RoutePicker, { Waypoint } from './RoutePicker';
+
+const route: Waypoint[] = [
+  { position: [0, 0], name: 'Alpha', meta: { id: 1 } },
+  { position: [1, 0], name: 'Bravo' },
+  { position: [2, 0], name: 'Charlie' },
+];
+
+function order(onChange: ReturnType<typeof vi.fn>) {
+  const [waypoints] = onChange.mock.calls[onChange.mock.calls.length - 1];
+  return (waypoints as Waypoint[]).map((w) => w.name);
+}
+
+function renderRoute() {
+  const onChange = vi.fn();
+  render(<RoutePicker defaultValue={route} onChange={onChange} baseLayer={{ type: 'background' }} />);
+  return onChange;
+}
+
+test('RoutePicker keeps focus on a waypoint moved with Alt+Arrow', () => {
+  const onChange = renderRoute();
+  const charlie = screen.getByRole('button', { name: /^Charlie:/ });
+  charlie.focus();
+  fireEvent.keyDown(charlie, { key: 'ArrowUp', altKey: true });
+  expect(order(onChange)).toEqual(['Alpha', 'Charlie', 'Bravo']);
+  expect(document.activeElement).toHaveAccessibleName(/^Charlie:/);
+  fireEvent.keyDown(document.activeElement!, { key: 'ArrowUp', altKey: true });
+  expect(order(onChange)).toEqual(['Charlie', 'Alpha', 'Bravo']);
+  expect(document.activeElement).toHaveAccessibleName(/^Charlie:/);
+});
+
+test('RoutePicker inserts, deletes and carries metadata', () => {
+  const onChange = renderRoute();
+  fireEvent.click(screen.getByRole('button', { name: 'Insert waypoint after Alpha' }));
+  const [waypoints, coordinates] = onChange.mock.calls[0];
+  expect(waypoints).toHaveLength(4);
+  expect(waypoints[0].meta).toEqual({ id: 1 });
+  expect(coordinates[1][0]).toBeCloseTo(0.5);
+  expect(coordinates[1][1]).toBeCloseTo(0);
+  fireEvent.click(screen.getByRole('button', { name: 'Delete Bravo' }));
+  expect(order(onChange)).toEqual(['Alpha', undefined, 'Charlie']);
+  expect(within(screen.getByRole('list', { name: 'Waypoints' })).getAllByRole('listitem')).toHaveLength(3);
+});
+
+test('RoutePicker undoes and redoes edits', () => {
+  const onChange = renderRoute();
+  fireEvent.click(screen.getByRole('button', { name: 'Delete Alpha' }));
+  fireEvent.click(screen.getByRole('button', { name: 'Move Charlie up' }));
+  expect(order(onChange)).toEqual(['Charlie', 'Bravo']);
+  fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+  expect(order(onChange)).toEqual(['Bravo', 'Charlie']);
+  fireEvent.keyDown(screen.getByRole('button', { name: 'Undo' }), { key: 'z', ctrlKey: true });
+  expect(order(onChange)).toEqual(['Alpha', 'Bravo', 'Charlie']);
+  expect(screen.getByRole('button', { name: 'Undo' })).toBeDisabled();
+  fireEvent.keyDown(screen.getByRole('button', { name: 'Redo' }), { key: 'z', ctrlKey: true, shiftKey: true });
+  expect(order(onChange)).toEqual(['Bravo', 'Charlie']);
+  // a new edit drops the redo stack
+  fireEvent.click(screen.getByRole('button', { name: 'Delete Bravo' }));
+  expect(screen.getByRole('button', { name: 'Redo' })).toBeDisabled();
+});
+
+test('RoutePicker shows leg distance and bearing', () => {
+  renderRoute();
+  const list = screen.getByRole('list', { name: 'Waypoints' });
+  expect(within(list).getAllByText(/111\.2 km, 090°/)).toHaveLength(2);
+  expect(screen.getByText(/Total 222\.4 km/)).toBeInTheDocument();
+});
+
+test('RoutePicker reads metadata for dropped waypoints with parseMeta', async () => {
+  const onChange = vi.fn();
+  const { container } = render(
+    <RoutePicker<{ elevation: number }>
+      onChange={onChange}
+      fileDrop
+      parseMeta={(p) => ({ elevation: Number(p.ele ?? 0) })}
+      baseLayer={{ type: 'background' }}
+    />
+  );
+  const geojson = JSON.stringify({
+    type: 'FeatureCollection',
+    features: [
+      { type: 'Feature', geometry: { type: 'Point', coordinates: [2, 1] }, properties: { name: 'Start', ele: 120 } },
+      { type: 'Feature', geometry: { type: 'Point', coordinates: [4, 3] }, properties: { name: 'End' } },
+    ],
+  });
+  // jsdom's File has no text()
+  const file = { name: 'route.geojson', text: async () => geojson };
+  const map = container.querySelector('.ol-viewport')!.parentElement!;
+  fireEvent.drop(map, { dataTransfer: { files: [file], types: ['Files'] } });
+  await waitFor(() => expect(onChange).toHaveBeenCalledTimes(1));
+  expect(onChange.mock.calls[0][0]).toEqual([
+    { position: [2, 1], name: 'Start', meta: { elevation: 120 } },
+    { position: [4, 3], name: 'End', meta: { elevation: 0 } },
+  ]);
+});
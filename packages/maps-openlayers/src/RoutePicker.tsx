@@ -0,0 +1,383 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Map from 'ol/Map';
+import View from 'ol/View';
+import { fromLonLat, toLonLat } from 'ol/proj';
+import BaseLayer from 'ol/layer/Base';
+import VectorLayer from 'ol/layer/Vector';
+import VectorSource from 'ol/source/Vector';
+import Feature, { FeatureLike } from 'ol/Feature';
+import Point from 'ol/geom/Point';
+import LineString from 'ol/geom/LineString';
+import { Coordinate } from 'ol/coordinate';
+import { defaults as defaultInteractions, Modify } from 'ol/interaction';
+import { Circle, Fill, Stroke, Style, Text } from 'ol/style';
+import { CoordinateInput, themeColor, useControllableState, useVizCtrlTheme } from '@vizctrl/react';
+import {
+  LengthUnit,
+  LonLat,
+  convert,
+  formatCoordinate,
+  formatQuantity,
+  greatCircleDistance,
+  initialBearing,
+  midpoint,
+} from '@vizctrl/core';
+import { BaseLayerSpec } from './baseLayers';
+import { useBaseLayers } from './useBaseLayers';
+import { historyKeyDown, useHistory } from './useHistory';
+import { featuresToWaypoints } from './formats';
+import { fitFeatures, useFileDrop } from './useFileDrop';
+
+/** A route waypoint. `meta` is carried through edits untouched. */
+export interface Waypoint<M = Record<string, unknown>> {
+  position: LonLat;
+  name?: string;
+  meta?: M;
+}
+
+export interface RoutePickerProps<M = Record<string, unknown>> {
+  /** Controlled waypoints. */
+  value?: Waypoint<M>[];
+  /** Initial waypoints when uncontrolled. Default none. */
+  defaultValue?: Waypoint<M>[];
+  /** Called with the waypoints and their positions after every edit. */
+  onChange?: (waypoints: Waypoint<M>[], coordinates: LonLat[]) => void;
+  /** Unit for leg and total distances. Default `'km'`. */
+  distanceUnit?: LengthUnit;
+  /** BCP 47 locale for distances. */
+  locale?: string;
+  /** Initial view centre. Defaults to the first waypoint, or [0, 0]. */
+  defaultCenter?: LonLat;
+  /** Initial zoom level. Default 4. */
+  defaultZoom?: number;
+  /** Optional label displayed above the map. */
+  label?: string;
+  /** Basemap. Defaults to OpenStreetMap. Ignored when `layers` is given. */
+  baseLayer?: BaseLayerSpec;
+  /** Basemaps to choose from; the first is shown initially. */
+  layers?: BaseLayerSpec[];
+  /** Show a basemap switcher. Defaults to true when there is more than one basemap. */
+  layerSwitcher?: boolean;
+  /** Accept GeoJSON, KML or GPX files dropped onto the map, replacing the route. Default false. */
+  fileDrop?: boolean;
+  /**
+   * Builds `meta` for waypoints read from a dropped file, from each
+   * feature's properties other than `name`. Without it those waypoints
+   * have no `meta`.
+   */
+  parseMeta?: (properties: Record<string, unknown>) => M;
+}
+
+/**
+ * Waypoint route editor. Clicking the map appends a waypoint, clicking
+ * a leg inserts one into it, dragging moves one and Shift-clicking
+ * removes one. The list beneath the map offers the same edits from the
+ * keyboard, with each leg's distance and initial bearing: Alt+Up/Down
+ * reorders the focused waypoint and Delete removes it. Ctrl+Z and
+ * Ctrl+Shift+Z undo and redo.
+ */
+export default function RoutePicker<M = Record<string, unknown>>({
+  value: valueProp,
+  defaultValue = [],
+  onChange,
+  distanceUnit = 'km',
+  locale,
+  defaultCenter,
+  defaultZoom = 4,
+  label,
+  baseLayer = { type: 'osm' },
+  layers,
+  layerSwitcher,
+  fileDrop = false,
+  parseMeta,
+}: RoutePickerProps<M>) {
+  const [value, setValue] = useControllableState(
+    valueProp,
+    defaultValue,
+    onChange && ((next: Waypoint<M>[]) => onChange(next, next.map((w) => w.position)))
+  );
+  const history = useHistory(value, setValue);
+  const [selected, setSelected] = useState<number | null>(null);
+  const current = selected !== null && selected < value.length ? selected : null;
+  const theme = useVizCtrlTheme();
+  const base = useBaseLayers(layers ?? [baseLayer], layerSwitcher);
+  const drop = useFileDrop(fileDrop, (features) => {
+    history.commit(
+      featuresToWaypoints(features).map(({ meta, ...w }) => (parseMeta ? { ...w, meta: parseMeta(meta ?? {}) } : w))
+    );
+    setSelected(null);
+    fitFeatures(mapRef.current, features);
+  });
+
+  const mapDiv = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<Map | null>(null);
+  const sources = useRef<{ points: VectorSource; line: Feature<LineString> } | null>(null);
+  const rows = useRef<Array<HTMLButtonElement | null>>([]);
+  // row to focus after the list re-renders, so a moved waypoint keeps focus
+  const focusRow = useRef<number | null>(null);
+  // the mount-only listeners and styles read state through this ref
+  const latest = useRef({ value, history, current, theme });
+  latest.current = { value, history, current, theme };
+
+  const names = value.map((w, i) => w.name ?? `Waypoint ${i + 1}`);
+  const update = (i: number, w: Waypoint<M>) => history.commit(value.map((v, j) => (j === i ? w : v)));
+  const insert = (i: number, position: LonLat) => {
+    history.commit([...value.slice(0, i), { position }, ...value.slice(i)]);
+    setSelected(i);
+  };
+  const remove = (i: number) => {
+    history.commit(value.filter((_, j) => j !== i));
+    const next = value.length > 1 ? Math.min(i, value.length - 2) : null;
+    setSelected(next);
+    focusRow.current = next;
+  };
+  const move = (i: number, to: number) => {
+    if (to < 0 || to >= value.length) return;
+    const next = [...value];
+    next.splice(to, 0, ...next.splice(i, 1));
+    history.commit(next);
+    setSelected(to);
+    focusRow.current = to;
+  };
+
+  useEffect(() => {
+    if (!mapDiv.current) return;
+
+    const points = new VectorSource();
+    const line = new Feature(new LineString([]));
+    sources.current = { points, line };
+    const pointStyle = (feature: FeatureLike) => {
+      const { theme, current } = latest.current;
+      const index = feature.get('index') as number;
+      return new Style({
+        image: new Circle({
+          radius: 9,
+          fill: new Fill({ color: index === current ? theme.colors.bug : theme.colors.thumb }),
+          stroke: new Stroke({ color: theme.colors.controlBackground, width: 2 }),
+        }),
+        text: new Text({
+          text: String(index + 1),
+          font: `bold 10px ${theme.fontFamily}`,
+          fill: new Fill({ color: theme.colors.controlBackground }),
+        }),
+      });
+    };
+    const lineStyle = () =>
+      new Style({ stroke: new Stroke({ color: latest.current.theme.colors.fill, width: 3 }) });
+
+    const routeLayers: BaseLayer[] = [
+      new VectorLayer({ source: new VectorSource({ features: [line] }), style: lineStyle }),
+      new VectorLayer({ source: points, style: pointStyle }),
+    ];
+    const modify = new Modify({ source: points });
+    const map = new Map({
+      target: mapDiv.current,
+      layers: [...base.layers, ...routeLayers],
+      view: new View({
+        center: fromLonLat(defaultCenter ?? value[0]?.position ?? [0, 0]),
+        zoom: defaultZoom,
+      }),
+      interactions: defaultInteractions().extend([modify]),
+    });
+
+    // keep the line attached to points while they are dragged
+    points.on('changefeature', () => {
+      const coords: Coordinate[] = [];
+      points.getFeatures().forEach((f) => {
+        const geometry = f.getGeometry();
+        if (geometry instanceof Point) coords[f.get('index')] = geometry.getCoordinates();
+      });
+      line.getGeometry()!.setCoordinates(coords);
+    });
+
+    map.on('click', (e) => {
+      const { value, history } = latest.current;
+      const hit = map.forEachFeatureAtPixel(e.pixel, (f) => f, {
+        hitTolerance: 4,
+        layerFilter: (l) => routeLayers.includes(l),
+      });
+      if (hit && hit.get('index') !== undefined) {
+        const i = hit.get('index') as number;
+        if (e.originalEvent.shiftKey) {
+          history.commit(value.filter((_, j) => j !== i));
+          setSelected(null);
+        } else setSelected(i);
+        return;
+      }
+      const ll = toLonLat(e.coordinate);
+      const position: LonLat = [ll[0], ll[1]];
+      const at = hit === line ? closestSegment(line.getGeometry()!.getCoordinates(), e.coordinate) + 1 : value.length;
+      history.commit([...value.slice(0, at), { position }, ...value.slice(at)]);
+      setSelected(at);
+    });
+
+    modify.on('modifyend', (e) => {
+      const { value, history } = latest.current;
+      const next = [...value];
+      e.features.forEach((f) => {
+        const geometry = f.getGeometry();
+        if (!(geometry instanceof Point)) return;
+        const ll = toLonLat(geometry.getCoordinates());
+        const i = f.get('index') as number;
+        next[i] = { ...next[i], position: [ll[0], ll[1]] };
+      });
+      history.commit(next);
+    });
+
+    mapRef.current = map;
+    return () => {
+      map.setTarget(undefined);
+    };
+  }, []);
+
+  // redraw the route when the waypoints change
+  useEffect(() => {
+    if (!sources.current) return;
+    const { points, line } = sources.current;
+    const coords = value.map((w) => fromLonLat(w.position));
+    points.clear();
+    points.addFeatures(
+      coords.map((c, index) => {
+        const f = new Feature(new Point(c));
+        f.set('index', index);
+        return f;
+      })
+    );
+    line.getGeometry()!.setCoordinates(coords);
+  }, [value]);
+
+  // restyle the selected waypoint
+  useEffect(() => {
+    sources.current?.points.changed();
+  }, [current]);
+
+  useEffect(() => {
+    if (focusRow.current === null) return;
+    rows.current[focusRow.current]?.focus();
+    focusRow.current = null;
+  });
+
+  const legs = value.slice(1).map((w, i) => {
+    const from = value[i].position;
+    return { distance: convert(greatCircleDistance(from, w.position), distanceUnit).value, bearing: initialBearing(from, w.position) };
+  });
+  const total = legs.reduce((sum, leg) => sum + leg.distance, 0);
+  const distanceText = (d: number) => formatQuantity({ value: d, unit: distanceUnit }, { locale, precision: 1 });
+
+  const rowKeyDown = (i: number) => (e: React.KeyboardEvent) => {
+    if (e.target !== e.currentTarget) return;
+    if (e.altKey && e.key === 'ArrowUp') move(i, i - 1);
+    else if (e.altKey && e.key === 'ArrowDown') move(i, i + 1);
+    else if (e.key === 'Delete' || e.key === 'Backspace') remove(i);
+    else return;
+    e.preventDefault();
+  };
+
+  return (
+    <div
+      className="vizctrl-route"
+      style={{ display: 'flex', flexDirection: 'column', gap: 4 }}
+      onKeyDown={historyKeyDown(history)}
+    >
+      {label && <label>{label}</label>}
+      <div
+        ref={mapDiv}
+        {...drop.dropProps}
+        style={{ width: '100%', height: '300px', background: base.background, ...drop.dropProps.style }}
+      />
+      {base.controls}
+      {drop.controls}
+      <div role="toolbar" aria-label="Route" style={{ display: 'flex', gap: 4 }}>
+        <button type="button" onClick={() => insert(value.length, mapCenter(mapRef.current))}>
+          Add waypoint
+        </button>
+        <button type="button" onClick={history.undo} disabled={!history.canUndo}>
+          Undo
+        </button>
+        <button type="button" onClick={history.redo} disabled={!history.canRedo}>
+          Redo
+        </button>
+      </div>
+      <ol aria-label={label ? `${label} waypoints` : 'Waypoints'} style={{ margin: 0, paddingLeft: 20 }}>
+        {value.map((w, i) => (
+          <li key={i} style={{ fontSize: 14 }}>
+            <button
+              ref={(el) => {
+                rows.current[i] = el;
+              }}
+              type="button"
+              aria-pressed={current === i}
+              onClick={() => setSelected(i)}
+              onKeyDown={rowKeyDown(i)}
+            >
+              {names[i]}: {formatCoordinate(w.position, 'decimal')}
+            </button>
+            {i > 0 && (
+              <span style={{ marginLeft: 8, fontSize: 12, color: themeColor('text') }}>
+                {distanceText(legs[i - 1].distance)}, {String(Math.round(legs[i - 1].bearing) % 360).padStart(3, '0')}°
+              </span>
+            )}{' '}
+            <button type="button" aria-label={`Move ${names[i]} up`} disabled={i === 0} onClick={() => move(i, i - 1)}>
+              ↑
+            </button>
+            <button
+              type="button"
+              aria-label={`Move ${names[i]} down`}
+              disabled={i === value.length - 1}
+              onClick={() => move(i, i + 1)}
+            >
+              ↓
+            </button>
+            {i < value.length - 1 && (
+              <button
+                type="button"
+                aria-label={`Insert waypoint after ${names[i]}`}
+                onClick={() => insert(i + 1, midpoint(w.position, value[i + 1].position))}
+              >
+                +
+              </button>
+            )}
+            <button type="button" aria-label={`Delete ${names[i]}`} onClick={() => remove(i)}>
+              ×
+            </button>
+          </li>
+        ))}
+      </ol>
+      {legs.length > 0 && <output style={{ fontSize: 12 }}>Total {distanceText(total)}</output>}
+      {current !== null && (
+        <CoordinateInput
+          label={`${names[current]} position`}
+          value={value[current].position}
+          onChange={(position) => update(current, { ...value[current], position })}
+        />
+      )}
+    </div>
+  );
+}
+
+function mapCenter(map: Map | null): LonLat {
+  const c = map?.getView().getCenter();
+  if (!c) return [0, 0];
+  const ll = toLonLat(c);
+  return [ll[0], ll[1]];
+}
+
+/** Index of the segment of `coords` nearest to `p`, in map coordinates. */
+function closestSegment(coords: Coordinate[], p: Coordinate): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i < coords.length - 1; i++) {
+    const [ax, ay] = coords[i];
+    const [bx, by] = coords[i + 1];
+    const dx = bx - ax;
+    const dy = by - ay;
+    const len = dx * dx + dy * dy;
+    const t = len ? Math.max(0, Math.min(1, ((p[0] - ax) * dx + (p[1] - ay) * dy) / len)) : 0;
+    const d = (ax + t * dx - p[0]) ** 2 + (ay + t * dy - p[1]) ** 2;
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = i;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,132 @@
+import BaseLayer from 'ol/layer/Base';
+import TileLayer from 'ol/layer/Tile';
+import Graticule from 'ol/layer/Graticule';
+import OSM from 'ol/source/OSM';
+import XYZ from 'ol/source/XYZ';
+import WMTS from 'ol/source/WMTS';
+import WMTSTileGrid from 'ol/tilegrid/WMTS';
+import TileSource from 'ol/source/Tile';
+import Stroke from 'ol/style/Stroke';
+import Text from 'ol/style/Text';
+import Fill from 'ol/style/Fill';
+import { get as getProjection } from 'ol/proj';
+import { getTopLeft, getWidth } from 'ol/extent';
+
+/**
+ * A basemap for the map pickers. Tiles can come from any server,
+ * including one on the local network or on disk, so the pickers work
+ * without internet access:
+ *
+ * - `osm`: OpenStreetMap's public tiles (the default).
+ * - `xyz`: a `{z}/{x}/{y}` URL template. Serve MBTiles or PMTiles
+ *   archives from disk through a local tile server (e.g. `mbtileserver`,
+ *   `pmtiles serve`) and point the template at it.
+ * - `wmts`: a WMTS layer in the Web Mercator (`GoogleMapsCompatible`)
+ *   tile matrix set, requested in KVP encoding.
+ * - `background`: a plain colour, for branding or printing.
+ * - `graticule`: a blank map with latitude and longitude lines.
+ * - `layer`: any OpenLayers layer, e.g. one reading PMTiles directly
+ *   with `ol-pmtiles`.
+ */
+export type BaseLayerSpec = { title?: string } & (
+  | { type: 'osm' }
+  | { type: 'xyz'; url: string; attributions?: string; maxZoom?: number }
+  | {
+      type: 'wmts';
+      url: string;
+      layer: string;
+      /** Tile matrix set identifier. Default `GoogleMapsCompatible`. */
+      matrixSet?: string;
+      /** Image format. Default `image/png`. */
+      format?: string;
+      style?: string;
+      attributions?: string;
+      maxZoom?: number;
+    }
+  | { type: 'background'; color?: string }
+  | { type: 'graticule'; color?: string }
+  | { type: 'layer'; layer: BaseLayer }
+);
+
+/** Name shown for a basemap in the layer switcher. */
+export function baseLayerTitle(spec: BaseLayerSpec): string {
+  if (spec.title) return spec.title;
+  switch (spec.type) {
+    case 'osm':
+      return 'OpenStreetMap';
+    case 'wmts':
+      return spec.layer;
+    case 'background':
+      return 'Plain';
+    case 'graticule':
+      return 'Graticule';
+    default:
+      return spec.type.toUpperCase();
+  }
+}
+
+/** Background colour behind a basemap, for `background` and `graticule` specs. */
+export function baseLayerBackground(spec: BaseLayerSpec): string | undefined {
+  if (spec.type === 'background') return spec.color ?? '#f4f1ea';
+  if (spec.type === 'graticule') return '#f4f1ea';
+  return undefined;
+}
+
+/** A graticule drawn on a blank map, also used when tiles cannot be loaded. */
+export function createGraticule(color = 'rgba(60, 60, 60, 0.5)'): Graticule {
+  return new Graticule({
+    strokeStyle: new Stroke({ color, width: 1, lineDash: [2, 4] }),
+    showLabels: true,
+    wrapX: true,
+    lonLabelStyle: new Text({ font: '10px sans-serif', textBaseline: 'bottom', fill: new Fill({ color }) }),
+    latLabelStyle: new Text({ font: '10px sans-serif', textAlign: 'end', fill: new Fill({ color }) }),
+  });
+}
+
+function wmtsSource(spec: Extract<BaseLayerSpec, { type: 'wmts' }>): WMTS {
+  const projection = getProjection('EPSG:3857')!;
+  const extent = projection.getExtent();
+  const levels = (spec.maxZoom ?? 19) + 1;
+  const size = getWidth(extent) / 256;
+  const resolutions = Array.from({ length: levels }, (_, z) => size / Math.pow(2, z));
+  return new WMTS({
+    url: spec.url,
+    layer: spec.layer,
+    matrixSet: spec.matrixSet ?? 'GoogleMapsCompatible',
+    format: spec.format ?? 'image/png',
+    style: spec.style ?? 'default',
+    attributions: spec.attributions,
+    projection,
+    tileGrid: new WMTSTileGrid({
+      origin: getTopLeft(extent),
+      resolutions,
+      matrixIds: resolutions.map((_, z) => String(z)),
+    }),
+  });
+}
+
+/**
+ * Create the OpenLayers layer for a basemap. `background` specs have
+ * no layer of their own; the map's background colour shows through.
+ */
+export function createBaseLayer(spec: BaseLayerSpec): BaseLayer | null {
+  let source: TileSource;
+  switch (spec.type) {
+    case 'osm':
+      source = new OSM();
+      break;
+    case 'xyz':
+      source = new XYZ({ url: spec.url, attributions: spec.attributions, maxZoom: spec.maxZoom });
+      break;
+    case 'wmts':
+      source = wmtsSource(spec);
+      break;
+    case 'background':
+      return null;
+    case 'graticule':
+      return createGraticule(spec.color);
+    case 'layer':
+      return spec.layer;
+  }
+  return new TileLayer({ source });
+}
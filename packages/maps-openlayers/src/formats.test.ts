@@ -0,0 +1,106 @@
+import {
+  areaToFeatures,
+  detectFormat,
+  featuresToArea,
+  featuresToPoint,
+  featuresToWaypoints,
+  readFeatures,
+  waypointsToFeatures,
+  writeFeatures,
+} from './formats';
+import { Area, areaToGeometry } from './AreaPicker';
+import type { Waypoint } from './RoutePicker';
+
+const route: Waypoint[] = [
+  { position: [10, 50], name: 'Start', meta: { alt: 5000, ok: true, tags: ['fuel'], note: 'gate 3' } },
+  { position: [11.5, 51.25] },
+];
+
+test.each(['geojson', 'kml'] as const)('waypoints and their properties survive a %s round trip', (format) => {
+  const text = writeFeatures(waypointsToFeatures(route), format);
+  expect(detectFormat(text)).toBe(format);
+  expect(featuresToWaypoints(readFeatures(text))).toEqual(route);
+});
+
+test('GPX keeps waypoint positions and names', () => {
+  const text = writeFeatures(waypointsToFeatures(route), 'gpx');
+  expect(detectFormat(text)).toBe('gpx');
+  const read = featuresToWaypoints(readFeatures(text));
+  expect(read.map((w) => [w.position, w.name])).toEqual([
+    [[10, 50], 'Start'],
+    [[11.5, 51.25], undefined],
+  ]);
+});
+
+test('GPX tracks become waypoints without elevation', () => {
+  const gpx = `<?xml version="1.0"?>
+    <gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">
+      <trk><trkseg>
+        <trkpt lat="1" lon="2"><ele>120</ele></trkpt>
+        <trkpt lat="3" lon="4"/>
+      </trkseg></trk>
+    </gpx>`;
+  const features = readFeatures(gpx);
+  expect(featuresToWaypoints(features)).toEqual([{ position: [2, 1] }, { position: [4, 3] }]);
+  expect(featuresToPoint(features)).toEqual([2, 1]);
+});
+
+test.each<Area>([
+  { type: 'circle', center: [5, 5], radius: { value: 3, unit: 'km' } },
+  { type: 'bbox', bbox: [1, 2, 3, 4] },
+  { type: 'polygon', ring: [[0, 0], [1, 0], [1, 1]] },
+])('a $type area survives GeoJSON and KML round trips', (area) => {
+  for (const format of ['geojson', 'kml'] as const) {
+    const text = writeFeatures(areaToFeatures(area, areaToGeometry(area), { id: 7 }), format);
+    const features = readFeatures(text);
+    expect(featuresToArea(features)).toEqual(area);
+    expect(features[0].properties.id).toBe(7);
+  }
+});
+
+test('GPX cannot hold areas', () => {
+  const area: Area = { type: 'bbox', bbox: [1, 2, 3, 4] };
+  expect(() => writeFeatures(areaToFeatures(area, areaToGeometry(area)), 'gpx')).toThrow(
+    'GPX can only hold points and lines'
+  );
+});
+
+test('detectFormat prefers the file extension', () => {
+  expect(detectFormat('<kml/>', 'route.GPX')).toBe('gpx');
+  expect(detectFormat('{}', 'area.json')).toBe('geojson');
+  expect(detectFormat('  <?xml version="1.0"?><kml xmlns="x">')).toBe('kml');
+  expect(() => detectFormat('lat,lon\n1,2', 'points.csv')).toThrow('Unrecognised file');
+});
+
+test.each([
+  ['{oops', /^Invalid GeoJSON: /],
+  ['{"type": "Foo"}', 'Invalid GeoJSON: unknown type "Foo"'],
+  ['{"coordinates": [1, 2]}', 'Invalid GeoJSON: missing "type"'],
+  ['{"type": "Point", "coordinates": ["a"]}', /^Invalid GeoJSON: .* is not a \[longitude, latitude\] position$/],
+  ['{"type": "Point", "coordinates": [10, 95]}', 'Invalid GeoJSON: [10, 95] is not a [longitude, latitude] position'],
+  ['<kml><Placemark>', /^Invalid KML: /],
+  ['<gpx><wpt lat="x" lon="y"/></gpx>', 'Invalid GPX: [NaN, NaN] is not a [longitude, latitude] position'],
+  ['<gpx></gpx>', 'No features with a geometry in GPX file'],
+  ['<?xml version="1.0"?><rss/>', 'Unrecognised file: expected GeoJSON, KML or GPX'],
+])('readFeatures reports %s', (text, message) => {
+  expect(() => readFeatures(text)).toThrow(message);
+});
+
+test('a file without the expected root element is refused', () => {
+  expect(() => readFeatures('<rss/>', 'kml')).toThrow('Invalid KML: root element is <rss>, expected <kml>');
+});
+
+test.each([
+  ['a circle without a center', { shape: 'circle', radius: { value: 3, unit: 'km' } }],
+  ['a circle with a bad center', { shape: 'circle', center: [5, 95], radius: { value: 3, unit: 'km' } }],
+  ['a circle without a radius', { shape: 'circle', center: [5, 5] }],
+  ['a circle with a speed radius', { shape: 'circle', center: [5, 5], radius: { value: 3, unit: 'kts' } }],
+  ['a circle with a negative radius', { shape: 'circle', center: [5, 5], radius: { value: -3, unit: 'km' } }],
+  ['a box without corners', { shape: 'bbox' }],
+  ['a box with text corners', { shape: 'bbox', bbox: ['1', 2, 3, 4] }],
+  ['a box upside down', { shape: 'bbox', bbox: [1, 4, 3, 2] }],
+])('%s is read as its polygon', (_, properties) => {
+  const ring = [[0, 0], [1, 0], [1, 1], [0, 0]];
+  const text = JSON.stringify({ type: 'Feature', geometry: { type: 'Polygon', coordinates: [ring] }, properties });
+  expect(featuresToArea(readFeatures(text))).toEqual({ type: 'polygon', ring: ring.slice(0, -1) });
+});
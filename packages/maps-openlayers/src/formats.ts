@@ -0,0 +1,363 @@
+import Feature from 'ol/Feature';
+import GeoJSON from 'ol/format/GeoJSON';
+import KML from 'ol/format/KML';
+import GPX from 'ol/format/GPX';
+import { LengthUnit, LonLat, Quantity, dimensionOf, isUnit } from '@vizctrl/core';
+import type { Area } from './AreaPicker';
+import type { Waypoint } from './RoutePicker';
+
+/**
+ * Reading and writing the vector files exchanged with the map pickers.
+ * Everything is parsed locally with the OpenLayers format readers, so
+ * nothing is fetched; KML styles and icons are ignored for that reason.
+ *
+ * Features are passed around as GeoJSON objects in longitude and
+ * latitude. GeoJSON keeps all properties. KML keeps them as text in
+ * `ExtendedData`, so values other than strings are written as JSON and
+ * listed under a `vizctrl:json` entry to be decoded when read back.
+ * GPX only has room for a name, description and a few other fields.
+ */
+
+export type GeoFileFormat = 'geojson' | 'kml' | 'gpx';
+
+export interface PointGeometry {
+  type: 'Point';
+  coordinates: LonLat;
+}
+
+export interface LineStringGeometry {
+  type: 'LineString';
+  coordinates: LonLat[];
+}
+
+export interface PolygonGeometry {
+  type: 'Polygon';
+  coordinates: LonLat[][];
+}
+
+export type GeoJSONGeometry =
+  | PointGeometry
+  | LineStringGeometry
+  | PolygonGeometry
+  | { type: 'MultiPoint'; coordinates: LonLat[] }
+  | { type: 'MultiLineString'; coordinates: LonLat[][] }
+  | { type: 'MultiPolygon'; coordinates: LonLat[][][] };
+
+export interface GeoFeature<G extends GeoJSONGeometry = GeoJSONGeometry> {
+  type: 'Feature';
+  geometry: G;
+  properties: Record<string, unknown>;
+}
+
+const formatNames: Record<GeoFileFormat, string> = { geojson: 'GeoJSON', kml: 'KML', gpx: 'GPX' };
+
+const geoJSONTypes = [
+  'FeatureCollection',
+  'Feature',
+  'Point',
+  'LineString',
+  'Polygon',
+  'MultiPoint',
+  'MultiLineString',
+  'MultiPolygon',
+  'GeometryCollection',
+];
+
+// KML ExtendedData entry naming the properties written as JSON
+const jsonKeys = 'vizctrl:json';
+
+const projections = { dataProjection: 'EPSG:4326', featureProjection: 'EPSG:4326' };
+const geoJSON = new GeoJSON(projections);
+
+function olFormat(format: GeoFileFormat) {
+  if (format === 'kml') return new KML({ extractStyles: false, showPointNames: false });
+  if (format === 'gpx') return new GPX();
+  return geoJSON;
+}
+
+/**
+ * Work out the format of a file from its name, or failing that from its
+ * first characters. Throws if it is neither GeoJSON, KML nor GPX.
+ */
+export function detectFormat(text: string, fileName?: string): GeoFileFormat {
+  const ext = fileName?.toLowerCase().match(/\.([a-z]+)$/)?.[1];
+  if (ext === 'geojson' || ext === 'json') return 'geojson';
+  if (ext === 'kml' || ext === 'gpx') return ext;
+  const start = text.trimStart();
+  if (start.startsWith('{')) return 'geojson';
+  if (/<gpx[\s>]/.test(start)) return 'gpx';
+  if (/<kml[\s>]/.test(start)) return 'kml';
+  throw new Error('Unrecognised file: expected GeoJSON, KML or GPX');
+}
+
+function parseXML(text: string, format: 'kml' | 'gpx'): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const error = doc.getElementsByTagName('parsererror')[0];
+  if (error) {
+    const reason = error.textContent?.trim().split('\n')[0];
+    throw new Error(`Invalid ${formatNames[format]}: ${reason || 'not well-formed XML'}`);
+  }
+  const root = doc.documentElement.localName;
+  if (root !== format) {
+    throw new Error(`Invalid ${formatNames[format]}: root element is <${root}>, expected <${format}>`);
+  }
+  return doc;
+}
+
+function parseGeoJSON(text: string): object {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Invalid GeoJSON: ${(e as Error).message}`);
+  }
+  const type = (json as { type?: unknown } | null)?.type;
+  if (typeof type !== 'string' || !geoJSONTypes.includes(type)) {
+    const reason = type === undefined ? 'missing "type"' : `unknown type ${JSON.stringify(type)}`;
+    throw new Error(`Invalid GeoJSON: ${reason}`);
+  }
+  return json as object;
+}
+
+/**
+ * Parse a GeoJSON, KML or GPX file into GeoJSON features. The format is
+ * detected when not given. Throws with the reason when the file is
+ * malformed or holds no features with a geometry.
+ */
+export function readFeatures(text: string, format = detectFormat(text)): GeoFeature[] {
+  const name = formatNames[format];
+  let out: GeoFeature[];
+  try {
+    const source = format === 'geojson' ? parseGeoJSON(text) : parseXML(text, format);
+    const features = olFormat(format).readFeatures(source, projections) as Feature[];
+    out = features.filter((f) => f.getGeometry()).flatMap(toGeoFeatures);
+  } catch (e) {
+    const message = (e as Error).message;
+    throw new Error(message.startsWith(`Invalid ${name}`) ? message : `Invalid ${name}: ${message}`);
+  }
+  if (!out.length) throw new Error(`No features with a geometry in ${name} file`);
+  return out;
+}
+
+// one feature per geometry, so KML MultiGeometry becomes several features
+function toGeoFeatures(feature: Feature): GeoFeature[] {
+  const object = geoJSON.writeFeatureObject(feature, projections);
+  const properties: Record<string, unknown> = { ...object.properties };
+  const encoded = properties[jsonKeys];
+  if (typeof encoded === 'string') {
+    delete properties[jsonKeys];
+    for (const key of JSON.parse(encoded) as string[]) {
+      if (typeof properties[key] === 'string') properties[key] = JSON.parse(properties[key] as string);
+    }
+  }
+  return readGeometry(object.geometry).map((geometry) => ({ type: 'Feature', geometry, properties }));
+}
+
+/**
+ * Check a parsed geometry and copy it with plain `[lon, lat]` positions.
+ * GPX and KML carry elevation and time as extra ordinates; those are
+ * dropped. Geometry collections are split into their members.
+ */
+function readGeometry(value: unknown): GeoJSONGeometry[] {
+  const { type, coordinates, geometries } = (value ?? {}) as Record<string, unknown>;
+  switch (type) {
+    case 'Point':
+      return [{ type, coordinates: position(coordinates) }];
+    case 'MultiPoint':
+    case 'LineString':
+      return [{ type, coordinates: list(coordinates).map(position) }];
+    case 'Polygon':
+    case 'MultiLineString':
+      return [{ type, coordinates: list(coordinates).map((c) => list(c).map(position)) }];
+    case 'MultiPolygon':
+      return [{ type, coordinates: list(coordinates).map((c) => list(c).map((r) => list(r).map(position))) }];
+    case 'GeometryCollection':
+      return list(geometries).flatMap(readGeometry);
+    default:
+      throw new Error(`unsupported geometry type ${JSON.stringify(type)}`);
+  }
+}
+
+function list(value: unknown): unknown[] {
+  if (!Array.isArray(value)) throw new Error(`expected a list of positions, got ${JSON.stringify(value)}`);
+  return value;
+}
+
+function position(value: unknown): LonLat {
+  const valid =
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    value.every((n) => typeof n === 'number' && Number.isFinite(n)) &&
+    Math.abs(value[1]) <= 90;
+  if (!valid) {
+    const shown = Array.isArray(value) ? `[${value.join(', ')}]` : JSON.stringify(value);
+    throw new Error(`${shown} is not a [longitude, latitude] position`);
+  }
+  return [value[0], value[1]];
+}
+
+/**
+ * Write features as GeoJSON, KML or GPX text. GPX takes points as
+ * waypoints and lines as routes; polygons cannot be written to it.
+ */
+export function writeFeatures(features: GeoFeature[], format: GeoFileFormat): string {
+  if (format === 'geojson') return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+  const gpxTypes = ['Point', 'LineString', 'MultiLineString'];
+  if (format === 'gpx' && features.some((f) => !gpxTypes.includes(f.geometry.type))) {
+    throw new Error('GPX can only hold points and lines');
+  }
+  const ol = geoJSON.readFeatures({ type: 'FeatureCollection', features }, projections) as Feature[];
+  if (format === 'kml') {
+    ol.forEach((f) => {
+      const properties = f.getProperties();
+      const keys = Object.keys(properties).filter(
+        (key) => key !== f.getGeometryName() && typeof properties[key] !== 'string' && properties[key] !== undefined
+      );
+      if (!keys.length) return;
+      keys.forEach((key) => f.set(key, JSON.stringify(properties[key]), true));
+      f.set(jsonKeys, JSON.stringify(keys), true);
+    });
+  }
+  return olFormat(format).writeFeatures(ol, projections);
+}
+
+/** Media type for a format, for downloads. */
+export function formatMediaType(format: GeoFileFormat): string {
+  if (format === 'kml') return 'application/vnd.google-earth.kml+xml';
+  if (format === 'gpx') return 'application/gpx+xml';
+  return 'application/geo+json';
+}
+
+function positions(geometry: GeoJSONGeometry): LonLat[] {
+  switch (geometry.type) {
+    case 'Point':
+      return [geometry.coordinates];
+    case 'MultiPoint':
+    case 'LineString':
+      return geometry.coordinates;
+    case 'MultiLineString':
+      return geometry.coordinates.flat();
+    default:
+      return [];
+  }
+}
+
+/** A feature for a single position. */
+export function pointToFeatures(position: LonLat, properties: Record<string, unknown> = {}): GeoFeature[] {
+  return [{ type: 'Feature', geometry: { type: 'Point', coordinates: position }, properties }];
+}
+
+/** The first position among the features, for `GeoPointPicker`. */
+export function featuresToPoint(features: GeoFeature[]): LonLat {
+  for (const f of features) {
+    const [first] = positions(f.geometry);
+    if (first) return first;
+  }
+  throw new Error('No point or line in file');
+}
+
+/**
+ * Features for a route: a point per waypoint, with its `name` and
+ * `meta` as properties, and a line joining them.
+ */
+export function waypointsToFeatures<M>(waypoints: Waypoint<M>[], name = 'Route'): GeoFeature[] {
+  const points = waypoints.map(
+    (w): GeoFeature => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: w.position },
+      properties: {
+        ...(w.meta as Record<string, unknown> | undefined),
+        ...(w.name !== undefined && { name: w.name }),
+      },
+    })
+  );
+  if (waypoints.length < 2) return points;
+  const line: GeoFeature = {
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates: waypoints.map((w) => w.position) },
+    properties: { name },
+  };
+  return [...points, line];
+}
+
+/**
+ * Waypoints for `RoutePicker`. Point features become waypoints, named
+ * after their `name` property with the other properties as `meta`.
+ * Files with no points, such as GPX tracks, use the vertices of their
+ * first line instead.
+ */
+export function featuresToWaypoints(features: GeoFeature[]): Waypoint[] {
+  const points = features.filter((f) => f.geometry.type === 'Point' || f.geometry.type === 'MultiPoint');
+  if (points.length) {
+    return points.flatMap((f) => {
+      const { name, ...rest } = f.properties;
+      // GPX leaves its unused fields undefined
+      const meta = Object.entries(rest).filter(([, v]) => v !== undefined);
+      return positions(f.geometry).map((position) => ({
+        position,
+        ...(name != null && { name: String(name) }),
+        ...(meta.length > 0 && { meta: Object.fromEntries(meta) }),
+      }));
+    });
+  }
+  const line = features.find((f) => f.geometry.type === 'LineString' || f.geometry.type === 'MultiLineString');
+  if (!line) throw new Error('No points or lines in file');
+  return positions(line.geometry).map((position) => ({ position }));
+}
+
+/**
+ * Features for an area: its polygon, with `properties` and, for circles
+ * and boxes, the original shape so it can be read back exactly.
+ */
+export function areaToFeatures(
+  area: Area,
+  geometry: PolygonGeometry,
+  properties: Record<string, unknown> = {}
+): GeoFeature[] {
+  const shape =
+    area.type === 'circle'
+      ? { shape: 'circle', center: area.center, radius: area.radius }
+      : area.type === 'bbox'
+        ? { shape: 'bbox', bbox: area.bbox }
+        : {};
+  return [{ type: 'Feature', geometry, properties: { ...properties, ...shape } }];
+}
+
+/**
+ * The first polygon among the features as an area, for `AreaPicker`.
+ * Circle and box properties that do not hold a valid shape are ignored
+ * and the polygon itself is used.
+ */
+export function featuresToArea(features: GeoFeature[]): Area {
+  type Polygonal = Extract<GeoJSONGeometry, { type: 'Polygon' | 'MultiPolygon' }>;
+  const feature = features.find(
+    (f): f is GeoFeature<Polygonal> => f.geometry.type === 'Polygon' || f.geometry.type === 'MultiPolygon'
+  );
+  if (!feature) throw new Error('No polygon in file');
+  const { shape, center, radius, bbox } = feature.properties;
+  if (shape === 'circle' && isLonLat(center) && isRadius(radius)) {
+    return { type: 'circle', center, radius };
+  }
+  if (shape === 'bbox' && isBbox(bbox)) return { type: 'bbox', bbox };
+  const { geometry } = feature;
+  const ring = geometry.type === 'Polygon' ? geometry.coordinates[0] : geometry.coordinates[0][0];
+  return { type: 'polygon', ring: ring.slice(0, -1) };
+}
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n);
+
+function isLonLat(value: unknown): value is LonLat {
+  return Array.isArray(value) && value.length === 2 && value.every(isFiniteNumber) && Math.abs(value[1]) <= 90;
+}
+
+function isRadius(value: unknown): value is Quantity<LengthUnit> {
+  if (typeof value !== 'object' || value === null) return false;
+  const { value: n, unit } = value as Record<string, unknown>;
+  return isFiniteNumber(n) && n > 0 && typeof unit === 'string' && isUnit(unit) && dimensionOf(unit) === 'length';
+}
+
+function isBbox(value: unknown): value is [number, number, number, number] {
+  if (!Array.isArray(value) || value.length !== 4 || !value.every(isFiniteNumber)) return false;
+  const [west, south, east, north] = value;
+  return west < east && south >= -90 && south < north && north <= 90;
+}
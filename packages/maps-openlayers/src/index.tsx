@@ -1 +1,10 @@
-export { default as GeoPointPicker } from './GeoPointPicker';
\ No newline at end of file
+export { default as GeoPointPicker } from './GeoPointPicker';
+export type { GeoPointPickerProps, MapView } from './GeoPointPicker';
+export { default as RoutePicker } from './RoutePicker';
+export type { RoutePickerProps, Waypoint } from './RoutePicker';
+export { default as AreaPicker, areaSize, areaToGeometry } from './AreaPicker';
+export type { Area, AreaMode, AreaPickerProps } from './AreaPicker';
+export * from './baseLayers';
+export * from './useBaseLayers';
+export * from './formats';
+export * from './useFileDrop';
\ No newline at end of file
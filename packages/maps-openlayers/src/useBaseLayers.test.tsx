@@ -0,0 +1,101 @@
+import React from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import BaseLayer from 'ol/layer/Base';
+import TileLayer from 'ol/layer/Tile';
+import Graticule from 'ol/layer/Graticule';
+import TileSource from 'ol/source/Tile';
+import { BaseLayerSpec } from './baseLayers';
+import { BaseLayers, useBaseLayers } from './useBaseLayers';
+
+const specs: BaseLayerSpec[] = [
+  { type: 'xyz', url: 'http://tiles.invalid/{z}/{x}/{y}.png', title: 'Local tiles' },
+  { type: 'osm' },
+  { type: 'background', color: '#123456' },
+];
+
+let base: BaseLayers;
+
+function Basemaps({ specs, switcher }: { specs: BaseLayerSpec[]; switcher?: boolean }) {
+  base = useBaseLayers(specs, switcher);
+  return <>{base.controls}</>;
+}
+
+function tileSource(layer: BaseLayer): TileSource {
+  if (!(layer instanceof TileLayer)) throw new Error('expected a tile layer');
+  return layer.getSource();
+}
+
+const visible = () => base.layers.map((l) => l.getVisible());
+
+test('useBaseLayers falls back to a graticule when tiles fail before any load', () => {
+  render(<Basemaps specs={specs} />);
+  const [local] = base.layers;
+  expect(base.layers[base.layers.length - 1]).toBeInstanceOf(Graticule);
+  expect(visible()).toEqual([true, false, false]);
+
+  act(() => {
+    tileSource(local).dispatchEvent('tileloaderror');
+  });
+  expect(screen.getByRole('status')).toHaveTextContent('Local tiles is unavailable; showing a graticule instead.');
+  expect(visible()).toEqual([true, false, true]);
+  expect(base.background).toBe('#f4f1ea');
+
+  // tiles arriving later take over again
+  act(() => {
+    tileSource(local).dispatchEvent('tileloadend');
+  });
+  expect(screen.queryByRole('status')).toBeNull();
+  expect(visible()).toEqual([true, false, false]);
+});
+
+test('useBaseLayers ignores failed tiles once some have loaded', () => {
+  render(<Basemaps specs={specs} />);
+  const source = tileSource(base.layers[0]);
+  act(() => {
+    source.dispatchEvent('tileloadend');
+    source.dispatchEvent('tileloaderror');
+  });
+  expect(screen.queryByRole('status')).toBeNull();
+});
+
+test('useBaseLayers switches basemaps and watches the new one', () => {
+  render(<Basemaps specs={specs} />);
+  const [local, osm] = base.layers;
+  const select = screen.getByRole('combobox', { name: 'Base map' });
+  expect(Array.from((select as HTMLSelectElement).options, (o) => o.text)).toEqual([
+    'Local tiles',
+    'OpenStreetMap',
+    'Plain',
+  ]);
+
+  act(() => {
+    tileSource(local).dispatchEvent('tileloaderror');
+  });
+  fireEvent.change(select, { target: { value: '1' } });
+  // the failure belonged to the previous basemap
+  expect(screen.queryByRole('status')).toBeNull();
+  expect(visible()).toEqual([false, true, false]);
+
+  act(() => {
+    tileSource(local).dispatchEvent('tileloaderror');
+  });
+  expect(screen.queryByRole('status')).toBeNull();
+  act(() => {
+    tileSource(osm).dispatchEvent('tileloaderror');
+  });
+  expect(screen.getByRole('status')).toHaveTextContent('OpenStreetMap is unavailable');
+
+  // a plain background has no layer and no tiles to fail
+  fireEvent.change(select, { target: { value: '2' } });
+  expect(screen.queryByRole('status')).toBeNull();
+  expect(visible()).toEqual([false, false, false]);
+  expect(base.background).toBe('#123456');
+});
+
+test('useBaseLayers shows a switcher only when there is a choice', () => {
+  const { unmount } = render(<Basemaps specs={[{ type: 'osm' }]} />);
+  expect(screen.queryByRole('combobox')).toBeNull();
+  unmount();
+  render(<Basemaps specs={specs} switcher={false} />);
+  expect(screen.queryByRole('combobox')).toBeNull();
+});
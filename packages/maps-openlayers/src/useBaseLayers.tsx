@@ -0,0 +1,91 @@
+import React, { useEffect, useRef, useState } from 'react';
+import BaseLayer from 'ol/layer/Base';
+import TileLayer from 'ol/layer/Tile';
+import Graticule from 'ol/layer/Graticule';
+import TileSource from 'ol/source/Tile';
+import {
+  BaseLayerSpec,
+  baseLayerBackground,
+  baseLayerTitle,
+  createBaseLayer,
+  createGraticule,
+} from './baseLayers';
+
+export interface BaseLayers {
+  /** Layers to put at the bottom of the map, in order. */
+  layers: BaseLayer[];
+  /** Colour for the map element's background. */
+  background?: string;
+  /** Switcher and fallback notice, to render next to the map. */
+  controls: React.ReactNode;
+}
+
+/**
+ * Basemap handling shared by the map pickers. Creates a layer per spec
+ * (once, at mount), shows the selected one, and renders a switcher when
+ * there is a choice. When the selected tiles fail to load before any
+ * has loaded, for instance without network access, a blank graticule
+ * basemap is shown instead until tiles arrive.
+ */
+export function useBaseLayers(specs: BaseLayerSpec[], switcher = specs.length > 1): BaseLayers {
+  const [active, setActive] = useState(0);
+  const [failed, setFailed] = useState(false);
+  const built = useRef<{ layers: Array<BaseLayer | null>; fallback: Graticule }>();
+  if (!built.current) {
+    built.current = { layers: specs.map(createBaseLayer), fallback: createGraticule() };
+  }
+  const { layers, fallback } = built.current;
+
+  useEffect(() => {
+    layers.forEach((layer, i) => layer?.setVisible(i === active));
+    fallback.setVisible(failed);
+  }, [active, failed]);
+
+  // watch the selected tiles; failed tiles leave the layer transparent,
+  // so the graticule drawn above it shows through
+  useEffect(() => {
+    setFailed(false);
+    const layer = layers[active];
+    if (!(layer instanceof TileLayer)) return;
+    const source = layer.getSource() as TileSource | null;
+    if (!source) return;
+    let loaded = false;
+    const onLoad = () => {
+      loaded = true;
+      setFailed(false);
+    };
+    const onError = () => {
+      if (!loaded) setFailed(true);
+    };
+    source.on('tileloadend', onLoad);
+    source.on('tileloaderror', onError);
+    return () => {
+      source.un('tileloadend', onLoad);
+      source.un('tileloaderror', onError);
+    };
+  }, [active]);
+
+  const spec = specs[active];
+  return {
+    layers: [...layers.filter((l): l is BaseLayer => l !== null), fallback],
+    background: failed ? baseLayerBackground({ type: 'graticule' }) : spec && baseLayerBackground(spec),
+    controls: (
+      <>
+        {failed && (
+          <div role="status" style={{ fontSize: 12 }}>
+            {baseLayerTitle(spec)} is unavailable; showing a graticule instead.
+          </div>
+        )}
+        {switcher && (
+          <select aria-label="Base map" value={active} onChange={(e) => setActive(Number(e.target.value))}>
+            {specs.map((s, i) => (
+              <option key={i} value={i}>
+                {baseLayerTitle(s)}
+              </option>
+            ))}
+          </select>
+        )}
+      </>
+    ),
+  };
+}
@@ -0,0 +1,40 @@
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { vi } from 'vitest';
+import { GeoFeature } from './formats';
+import { useFileDrop } from './useFileDrop';
+
+function DropTarget({ load }: { load: (features: GeoFeature[]) => void }) {
+  const drop = useFileDrop(true, load);
+  return (
+    <div>
+      <div data-testid="target" {...drop.dropProps} />
+      {drop.controls}
+    </div>
+  );
+}
+
+function dropFile(name: string, text: string) {
+  // jsdom's File has no text()
+  const file = { name, text: async () => text };
+  fireEvent.drop(screen.getByTestId('target'), { dataTransfer: { files: [file], types: ['Files'] } });
+}
+
+test('useFileDrop loads the features of a dropped file', async () => {
+  const load = vi.fn();
+  render(<DropTarget load={load} />);
+  dropFile('point.geojson', '{"type": "Point", "coordinates": [2, 1]}');
+  await waitFor(() => expect(load).toHaveBeenCalledTimes(1));
+  expect(load.mock.calls[0][0][0].geometry).toEqual({ type: 'Point', coordinates: [2, 1] });
+});
+
+test('useFileDrop shows parse and load errors with the file name', async () => {
+  const load = vi.fn(() => {
+    throw new Error('No polygon in file');
+  });
+  render(<DropTarget load={load} />);
+  dropFile('broken.kml', '<kml><Placemark>');
+  expect(await screen.findByRole('alert')).toHaveTextContent(/^broken\.kml: Invalid KML: /);
+  dropFile('point.geojson', '{"type": "Point", "coordinates": [2, 1]}');
+  await waitFor(() => expect(screen.getByRole('alert')).toHaveTextContent('point.geojson: No polygon in file'));
+});
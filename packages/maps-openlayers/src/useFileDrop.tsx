@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import Map from 'ol/Map';
+import { boundingExtent } from 'ol/extent';
+import { fromLonLat } from 'ol/proj';
+import { themeColor } from '@vizctrl/react';
+import { GeoFeature, GeoJSONGeometry, detectFormat, readFeatures } from './formats';
+
+export interface FileDrop {
+  /** Handlers and drag highlight for the element files are dropped on. */
+  dropProps: Pick<React.HTMLAttributes<HTMLElement>, 'onDragOver' | 'onDragLeave' | 'onDrop' | 'style'>;
+  /** Error from the last dropped file, to render next to the map. */
+  controls: React.ReactNode;
+}
+
+/**
+ * Drop-a-file support shared by the map pickers. A dropped GeoJSON, KML
+ * or GPX file is parsed and its features passed to `load`, which turns
+ * them into the picker's value and may throw if they do not fit. Parse
+ * and load errors are shown with the file name.
+ */
+export function useFileDrop(enabled: boolean, load: (features: GeoFeature[]) => void): FileDrop {
+  const [dragging, setDragging] = useState(false);
+  const [problem, setProblem] = useState<string | null>(null);
+  if (!enabled) return { dropProps: {}, controls: null };
+
+  return {
+    dropProps: {
+      onDragOver: (e) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+        setDragging(true);
+      },
+      onDragLeave: () => setDragging(false),
+      onDrop: async (e) => {
+        const file = e.dataTransfer.files[0];
+        if (!file) return;
+        e.preventDefault();
+        setDragging(false);
+        try {
+          const text = await file.text();
+          load(readFeatures(text, detectFormat(text, file.name)));
+          setProblem(null);
+        } catch (err) {
+          setProblem(`${file.name}: ${(err as Error).message}`);
+        }
+      },
+      style: dragging ? { outline: `2px dashed ${themeColor('fill')}`, outlineOffset: -2 } : undefined,
+    },
+    controls: problem && (
+      <div role="alert" className="vizctrl-error" style={{ color: themeColor('warning'), fontSize: 12 }}>
+        {problem}
+      </div>
+    ),
+  };
+}
+
+/** Bring imported features into view. */
+export function fitFeatures(map: Map | null, features: GeoFeature[]) {
+  const coords = features.flatMap((f) => flatten(f.geometry)).map((p) => fromLonLat(p));
+  if (!map || !coords.length) return;
+  map.getView().fit(boundingExtent(coords), { padding: [24, 24, 24, 24], maxZoom: 14 });
+}
+
+function flatten(geometry: GeoJSONGeometry): [number, number][] {
+  const walk = (c: unknown): [number, number][] =>
+    Array.isArray(c) && typeof c[0] === 'number' ? [[c[0], c[1]]] : (c as unknown[]).flatMap(walk);
+  return walk(geometry.coordinates);
+}
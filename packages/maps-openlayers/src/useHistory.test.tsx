@@ -0,0 +1,22 @@
+import { act, renderHook } from '@testing-library/react';
+import { useState } from 'react';
+import { useHistory } from './useHistory';
+
+function useCounter(limit?: number) {
+  const [value, setValue] = useState(0);
+  return { value, history: useHistory(value, setValue, limit) };
+}
+
+test('useHistory undoes and redoes commits and keeps at most `limit` steps', () => {
+  const { result } = renderHook(() => useCounter(2));
+  [1, 2, 3].forEach((n) => act(() => result.current.history.commit(n)));
+  act(() => result.current.history.undo());
+  expect(result.current.value).toBe(2);
+  act(() => result.current.history.undo());
+  expect(result.current.value).toBe(1);
+  expect(result.current.history.canUndo).toBe(false);
+  act(() => result.current.history.redo());
+  act(() => result.current.history.redo());
+  expect(result.current.value).toBe(3);
+  expect(result.current.history.canRedo).toBe(false);
+});
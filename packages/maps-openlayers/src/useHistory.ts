@@ -0,0 +1,57 @@
+import { KeyboardEvent, useState } from 'react';
+
+export interface History<T> {
+  /** Set a new value, remembering the current one for undo. */
+  commit: (next: T) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * Undo and redo for the map editors. Wraps a value setter, typically
+ * from `useControllableState`, and keeps up to `limit` earlier values.
+ */
+export function useHistory<T>(value: T, setValue: (next: T) => void, limit = 100): History<T> {
+  const [past, setPast] = useState<T[]>([]);
+  const [future, setFuture] = useState<T[]>([]);
+  return {
+    commit: (next) => {
+      setPast([...past, value].slice(-limit));
+      setFuture([]);
+      setValue(next);
+    },
+    undo: () => {
+      if (!past.length) return;
+      setPast(past.slice(0, -1));
+      setFuture([value, ...future]);
+      setValue(past[past.length - 1]);
+    },
+    redo: () => {
+      if (!future.length) return;
+      setPast([...past, value]);
+      setFuture(future.slice(1));
+      setValue(future[0]);
+    },
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+  };
+}
+
+/**
+ * Keyboard shortcuts for `useHistory`: Ctrl/Cmd+Z undoes, with Shift or
+ * Ctrl+Y redoes. Text fields keep their own undo.
+ */
+export function historyKeyDown(history: Pick<History<unknown>, 'undo' | 'redo'>) {
+  return (e: KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) history.undo();
+    else if (key === 'y' || (key === 'z' && e.shiftKey)) history.redo();
+    else return;
+    e.preventDefault();
+  };
+}
@@ -1,7 +1,7 @@
 import React from 'react';
-import { render } from '@testing-library/react';
+import { act, render } from '@testing-library/react';
 import { axe, toHaveNoViolations } from 'jest-axe';
-import { AltitudeControl } from './AltitudeControl';
+import { AltitudeControl, AltitudeRangeControl } from './AltitudeControl';
 import '@testing-library/jest-dom';
 
 expect.extend(toHaveNoViolations);
@@ -16,4 +16,44 @@ test('AltitudeControl is accessible', async () => {
   );
   const results = await axe(container);
   expect(results).toHaveNoViolations();
-});
\ No newline at end of file
+});
+
+test('AltitudeControl reads as a flight level above the transition altitude', () => {
+  const { getByRole } = render(
+    <AltitudeControl value={{ value: 35000, unit: 'ft', reference: 'PA' }} onChange={() => {}} flightLevels />
+  );
+  expect(getByRole('slider')).toHaveAttribute('aria-valuetext', 'FL350');
+});
+
+
+test('AltitudeRangeControl is accessible', async () => {
+  const { container, getAllByRole } = render(
+    <AltitudeRangeControl
+      value={[{ value: 5000, unit: 'ft' }, { value: 9000, unit: 'ft' }]}
+      onChange={() => {}}
+    />
+  );
+  expect(getAllByRole('slider')).toHaveLength(2);
+  const results = await axe(container);
+  expect(results).toHaveNoViolations();
+});
+
+test('AltitudeControl submits its value and blocks invalid forms', () => {
+  const { container, getByRole } = render(
+    <form>
+      <AltitudeControl
+        name="altitude"
+        value={{ value: 1000, unit: 'ft' }}
+        validate={(q) => (q.value < 1500 ? 'Stay above 1,500 ft' : undefined)}
+      />
+    </form>
+  );
+  const form = container.querySelector('form') as HTMLFormElement;
+  expect(new FormData(form).get('altitude')).toBe('1000 ft');
+  let valid = true;
+  act(() => {
+    valid = form.checkValidity();
+  });
+  expect(valid).toBe(false);
+  expect(getByRole('alert')).toHaveTextContent('Stay above 1,500 ft');
+});
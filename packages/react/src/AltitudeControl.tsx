@@ -1,19 +1,42 @@
-import React from 'react';
-import Dial from './Dial';
-import { Quantity, convert } from '@vizctrl/core';
+import React, { forwardRef } from 'react';
+import { themeColor } from './theme';
+import {
+  Altitude,
+  AltitudeReference,
+  PressureUnit,
+  Quantity,
+  convert,
+  convertAltitudeReference,
+  formatFlightLevel,
+  formatQuantity,
+} from '@vizctrl/core';
+import {
+  QuantityControl,
+  QuantityControlConfig,
+  QuantityControlProps,
+  QuantityRangeControlProps,
+  createQuantityRangeControl,
+} from './QuantityControl';
+import { ChangeEvents, ControlHandle } from './useControllableState';
+import { FormFieldProps, serializeQuantity } from './form';
 
 type AltUnit = 'ft' | 'm';
+type AltitudeValue = Quantity<AltUnit> & { reference?: AltitudeReference };
 
-export interface AltitudeControlProps {
+export interface AltitudeControlProps extends ChangeEvents<Altitude<AltUnit>>, FormFieldProps<Altitude<AltUnit>> {
   /**
-   * Current altitude quantity. Value must correspond to the unit.
+   * Current altitude quantity. Value must correspond to the unit and,
+   * if given, the reference. Without a reference MSL is assumed. Omit
+   * to leave the control uncontrolled.
    */
-  value: Quantity<AltUnit>;
+  value?: AltitudeValue;
+  /** Initial altitude of an uncontrolled control. Defaults to 0 ft. */
+  defaultValue?: AltitudeValue;
   /**
    * Called when the altitude changes. The unit will match the current
-   * `value.unit`.
+   * `value.unit`, and the reference is always set.
    */
-  onChange: (q: Quantity<AltUnit>) => void;
+  onChange?: (q: Altitude<AltUnit>) => void;
   /** Minimum allowable altitude in the current unit. Defaults to 0. */
   min?: Quantity<AltUnit>;
   /** Maximum allowable altitude in the current unit. Defaults to ~60k ft or ~18k m. */
@@ -22,128 +45,163 @@ export interface AltitudeControlProps {
   step?: number;
   /** Optional preset altitudes. Units need not match the current value. */
   presets?: Array<Quantity<AltUnit>>;
+  /** Locale for the readout and numeric entry. Defaults to the runtime locale. */
+  locale?: string;
   /** Optional label shown above the dial. */
   label?: string;
+  /**
+   * How altitudes are spread around the dial. Default linear; `'log'`
+   * or piecewise breakpoints give low altitudes more room.
+   */
+  scale?: QuantityControlProps<AltUnit>['scale'];
+  /**
+   * References offered in the reference toggle. The toggle is hidden
+   * when only one is given. Default `['MSL']`.
+   */
+  references?: AltitudeReference[];
+  /** Terrain elevation, required for AGL conversions. */
+  terrain?: Quantity<AltUnit>;
+  /** Altimeter setting used for pressure altitude. Defaults to 1013.25 hPa. */
+  qnh?: Quantity<PressureUnit>;
+  /**
+   * Show flight levels ("FL350") at or above `transitionAltitude`.
+   * Default false.
+   */
+  flightLevels?: boolean;
+  /** Altitude (MSL) from which flight levels are shown. Defaults to 18,000 ft. */
+  transitionAltitude?: Quantity<AltUnit>;
+  /** Draw a round dial or a vertical tape as on a primary flight display. Default `'dial'`. */
+  variant?: 'dial' | 'tape';
 }
 
+const altitude: QuantityControlConfig<AltUnit> = {
+  dimension: 'length',
+  units: ['ft', 'm'],
+  defaults: {
+    ft: { max: 60000, step: 10, ticks: { every: 500, majorEvery: 2000 } },
+    m: { max: 18288, step: 5, ticks: { every: 100, majorEvery: 500 } }, // ~60k ft in metres
+  },
+  name: 'Altitude',
+  defaultRange: [0, 10000],
+  tape: { width: 120 },
+};
+
 /**
  * Altitude selection control built on top of the `Dial` primitive. Allows
  * switching between feet and metres, direct numeric entry and preset
  * buttons. Presets are converted into the current unit automatically.
+ * The altitude can be expressed above MSL, above ground level or as a
+ * pressure altitude, and optionally reads as a flight level above the
+ * transition altitude.
  */
-export function AltitudeControl({
-  value,
-  onChange,
-  min,
-  max,
-  step,
-  presets = [],
-  label = 'Altitude',
-}: AltitudeControlProps) {
-  const u = value.unit;
-  const toCurrent = (q: Quantity<AltUnit>) => (q.unit === u ? q : convert(q, u));
-
-  const vmin = min ? toCurrent(min).value : 0;
-  const vmax = max
-    ? toCurrent(max).value
-    : u === 'ft'
-    ? 60000
-    : 18288; // ~60k ft in metres
-  const stp = step ?? (u === 'ft' ? 10 : 5);
+export const AltitudeControl = forwardRef(function AltitudeControl(
+  {
+    onChange,
+    onChangeStart,
+    onChangeCommitted,
+    validate,
+    locale,
+    references = ['MSL'],
+    terrain,
+    qnh,
+    flightLevels = false,
+    transitionAltitude = { value: 18000, unit: 'ft' },
+    ...props
+  }: AltitudeControlProps,
+  ref: React.ForwardedRef<ControlHandle<Altitude<AltUnit>>>
+) {
+  const context = { terrain, qnh };
+  // without a reference MSL is assumed
+  const withReference = (q: AltitudeValue): Altitude<AltUnit> => ({ ...q, reference: q.reference ?? 'MSL' });
 
-  const formatValue = (v: number) => (u === 'ft' ? `${Math.round(v)} ft` : `${Math.round(v)} m`);
+  const formatValue = (q: AltitudeValue) => {
+    const alt = withReference(q);
+    if (flightLevels) {
+      // AGL without terrain cannot be related to pressure; show the plain value
+      if (alt.reference !== 'AGL' || terrain) {
+        const msl = convertAltitudeReference(alt, 'MSL', context);
+        if (msl.value >= convert(transitionAltitude, q.unit).value) {
+          return formatFlightLevel(convertAltitudeReference(alt, 'PA', context));
+        }
+      }
+    }
+    const text = formatQuantity(q, { locale, precision: 0 });
+    return q.reference ? `${text} ${alt.reference}` : text;
+  };
 
   return (
-    <div style={{ display: 'grid', gap: 8 }}>
-      <Dial
-        label={label}
-        value={value.value}
-        onChange={(n) => onChange({ value: n, unit: u })}
-        min={vmin}
-        max={vmax}
-        step={stp}
-        ticks={{ every: u === 'ft' ? 500 : 100, majorEvery: u === 'ft' ? 2000 : 500 }}
-        formatValue={formatValue}
-      />
-      <div
-        style={{
-          display: 'flex',
-          gap: 8,
-          alignItems: 'center',
-          justifyContent: 'center',
-        }}
-      >
-        <UnitToggle unit={u} onChange={(nu) => onChange(convert(value, nu))} />
-        <NumberField
-          ariaLabel={`${label} numeric`}
-          value={Math.round(value.value)}
-          onChange={(n) => onChange({ value: clamp(n, vmin, vmax), unit: u })}
-          step={stp}
-        />
-      </div>
-      {presets.length > 0 && (
-        <div
-          style={{ display: 'flex', gap: 6, flexWrap: 'wrap', justifyContent: 'center' }}
-        >
-          {presets.map((p, i) => {
-            const pv = Math.round(toCurrent(p).value);
-            return (
-              <button key={i} type="button" onClick={() => onChange({ value: pv, unit: u })}>
-                {formatValue(pv)}
-              </button>
-            );
-          })}
-        </div>
-      )}
-    </div>
+    <QuantityControl<AltUnit, AltitudeValue>
+      {...props}
+      ref={ref}
+      config={altitude}
+      locale={locale}
+      onChange={onChange && ((q) => onChange(withReference(q)))}
+      onChangeStart={onChangeStart && ((q) => onChangeStart(withReference(q)))}
+      onChangeCommitted={onChangeCommitted && ((q) => onChangeCommitted(withReference(q)))}
+      validate={validate && ((q) => validate(withReference(q)))}
+      formatValue={formatValue}
+      serialize={(q) => (q.reference ? `${serializeQuantity(q)} ${q.reference}` : serializeQuantity(q))}
+      toolbar={(value, commit) =>
+        references.length > 1 && (
+          <ReferenceToggle
+            reference={value.reference ?? 'MSL'}
+            references={references}
+            onChange={(to) => {
+              const next = convertAltitudeReference(withReference(value), to, context);
+              commit({ ...next, value: Math.round(next.value) });
+            }}
+            canUseAGL={!!terrain}
+          />
+        )
+      }
+    />
   );
-}
+});
+
+export type AltitudeRangeControlProps = QuantityRangeControlProps<AltUnit>;
+
+/**
+ * Range variant of `AltitudeControl` for altitude blocks such as
+ * 5,000–9,000 ft. Renders a two-thumb dial with numeric entry for
+ * each end; defaults to 0–10,000 ft.
+ */
+export const AltitudeRangeControl = createQuantityRangeControl({ ...altitude, label: 'Altitude block' });
 
-function UnitToggle({ unit, onChange }: { unit: AltUnit; onChange: (u: AltUnit) => void }) {
+function ReferenceToggle({
+  reference,
+  references,
+  onChange,
+  canUseAGL,
+}: {
+  reference: AltitudeReference;
+  references: AltitudeReference[];
+  onChange: (r: AltitudeReference) => void;
+  canUseAGL: boolean;
+}) {
   return (
     <div
       role="radiogroup"
-      aria-label="Altitude unit"
-      style={{ display: 'inline-flex', border: '1px solid #ddd', borderRadius: 8, overflow: 'hidden' }}
+      aria-label="Altitude reference"
+      style={{ display: 'inline-flex', border: `1px solid ${themeColor('controlBorder')}`, borderRadius: 8, overflow: 'hidden' }}
     >
-      {(['ft', 'm'] as const).map((u) => (
+      {references.map((r) => (
         <button
-          key={u}
+          key={r}
           type="button"
           role="radio"
-          aria-checked={unit === u}
-          onClick={() => onChange(u)}
+          aria-checked={reference === r}
+          disabled={(r === 'AGL' || reference === 'AGL') && r !== reference && !canUseAGL}
+          onClick={() => onChange(r)}
           style={{
             padding: '6px 10px',
-            background: unit === u ? '#111' : 'white',
-            color: unit === u ? 'white' : 'black',
+            background: reference === r ? themeColor('controlActiveBackground') : themeColor('controlBackground'),
+            color: reference === r ? themeColor('controlActiveText') : themeColor('controlText'),
             border: 'none',
           }}
         >
-          {u}
+          {r}
         </button>
       ))}
     </div>
   );
 }
-
-function NumberField({ value, onChange, step, ariaLabel }: { value: number; onChange: (n: number) => void; step: number; ariaLabel?: string }) {
-  return (
-    <input
-      type="number"
-      inputMode="numeric"
-      aria-label={ariaLabel}
-      value={value}
-      onChange={(e) => onChange(Number(e.target.value))}
-      onKeyDown={(e) => {
-        if (e.key === 'ArrowUp') onChange(value + step);
-        if (e.key === 'ArrowDown') onChange(value - step);
-      }}
-      style={{ width: 100 }}
-    />
-  );
-}
-
-function clamp(n: number, a: number, b: number) {
-  return Math.min(b, Math.max(a, n));
-}
\ No newline at end of file
@@ -0,0 +1,32 @@
+import React from 'react';
+import { fireEvent, render } from '@testing-library/react';
+import { axe, toHaveNoViolations } from 'jest-axe';
+import { vi } from 'vitest';
+import { AttitudeControl } from './AttitudeControl';
+import '@testing-library/jest-dom';
+
+expect.extend(toHaveNoViolations);
+
+test('AttitudeControl is accessible', async () => {
+  const { container } = render(<AttitudeControl defaultValue={{ pitch: 5, roll: -15 }} />);
+  const results = await axe(container);
+  expect(results).toHaveNoViolations();
+});
+
+test('AttitudeControl moves pitch and roll with the keyboard within the limits', () => {
+  const onChange = vi.fn();
+  const { getByRole } = render(<AttitudeControl rollLimit={30} onChange={onChange} />);
+  const pitch = getByRole('slider', { name: 'Pitch' });
+  const roll = getByRole('slider', { name: 'Roll' });
+
+  fireEvent.keyDown(pitch, { key: 'ArrowUp', shiftKey: true });
+  expect(onChange).toHaveBeenLastCalledWith({ pitch: 10, roll: 0 });
+  expect(pitch).toHaveAttribute('aria-valuetext', '10° nose up');
+
+  fireEvent.keyDown(roll, { key: 'ArrowLeft', shiftKey: true });
+  fireEvent.keyDown(roll, { key: 'ArrowLeft', shiftKey: true });
+  fireEvent.keyDown(roll, { key: 'ArrowLeft', shiftKey: true });
+  fireEvent.keyDown(roll, { key: 'ArrowLeft', shiftKey: true });
+  expect(onChange).toHaveBeenLastCalledWith({ pitch: 10, roll: -30 });
+  expect(roll).toHaveAttribute('aria-valuetext', '30° left');
+});
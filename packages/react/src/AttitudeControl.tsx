@@ -0,0 +1,304 @@
+import React, { forwardRef, useId, useImperativeHandle, useRef } from 'react';
+import { AngleUnit, convert, formatQuantity, shortestAngleDelta } from '@vizctrl/core';
+import { themeColor, themeFont } from './theme';
+import { ChangeEvents, ControlHandle, useControllableState } from './useControllableState';
+import { FormFieldProps, useFormField } from './form';
+
+/** Aircraft attitude. Positive pitch is nose up, positive roll is right wing down. */
+export interface Attitude {
+  pitch: number;
+  roll: number;
+}
+
+export interface AttitudeControlProps extends ChangeEvents<Attitude>, FormFieldProps<Attitude> {
+  /** Current attitude, in `unit`. Omit to leave the control uncontrolled. */
+  value?: Attitude;
+  /** Initial attitude of an uncontrolled control. Defaults to level. */
+  defaultValue?: Attitude;
+  /** Called when pitch or roll changes, in `unit`. */
+  onChange?: (attitude: Attitude) => void;
+  /** Angle unit of values, limits and step. Default `'deg'`. */
+  unit?: AngleUnit;
+  /** Lowest and highest pitch. Defaults to ±30°. */
+  pitchLimits?: [number, number];
+  /** Largest bank either way. Defaults to 60°. */
+  rollLimit?: number;
+  /** Step for the arrow keys. Defaults to 1°; Shift moves ten steps. */
+  step?: number;
+  /** Diameter of the instrument in pixels. Default 200. */
+  size?: number;
+  /** Optional label displayed above the instrument. */
+  label?: string;
+  /** Disable interactions. */
+  disabled?: boolean;
+}
+
+// pitch shown from the centre to the edge of the instrument
+const visiblePitch = 35;
+// bank angles marked on the roll scale
+const bankTicks = [10, 20, 30, 45, 60, 90];
+const rad = (deg: number) => (deg * Math.PI) / 180;
+
+/**
+ * Attitude indicator for commanding pitch and roll. Draws an artificial
+ * horizon: drag inside it vertically to change pitch, or drag around
+ * the roll scale at the rim to bank. Pitch and roll are separate ARIA
+ * sliders; the arrow keys move the focused one and Home levels it.
+ */
+export const AttitudeControl = forwardRef(function AttitudeControl(
+  {
+    value: valueProp,
+    defaultValue = { pitch: 0, roll: 0 },
+    onChange,
+    onChangeStart,
+    onChangeCommitted,
+    name,
+    form,
+    required,
+    validate,
+    error,
+    unit = 'deg',
+    pitchLimits,
+    rollLimit,
+    step,
+    size = 200,
+    label = 'Attitude',
+    disabled,
+  }: AttitudeControlProps,
+  ref: React.ForwardedRef<ControlHandle<Attitude>>
+) {
+  const [value, setValue, reset] = useControllableState(valueProp, defaultValue, onChange);
+  const pitchRef = useRef<SVGGElement>(null);
+  const rollRef = useRef<SVGPolygonElement>(null);
+  useImperativeHandle(ref, () => ({ focus: () => pitchRef.current?.focus(), reset, setValue }));
+  const id = useId();
+
+  // everything below works in degrees; values cross the boundary in `unit`
+  const toDeg = (v: number) => convert({ value: v, unit }, 'deg').value;
+  const fromDeg = (v: number) => convert({ value: v, unit: 'deg' }, unit).value;
+  const [pitchMin, pitchMax] = (pitchLimits ?? [fromDeg(-30), fromDeg(30)]).map(toDeg);
+  const rollMax = toDeg(rollLimit ?? fromDeg(60));
+  const stepDeg = toDeg(step ?? fromDeg(1));
+  const pitch = toDeg(value.pitch);
+  const roll = toDeg(value.roll);
+
+  const latest = useRef(value);
+  latest.current = value;
+  const clampPitch = (p: number) => Math.min(pitchMax, Math.max(pitchMin, p));
+  const clampRoll = (r: number) => Math.min(rollMax, Math.max(-rollMax, r));
+  const set = (p: number, r: number) => {
+    const next = { pitch: fromDeg(clampPitch(p)), roll: fromDeg(clampRoll(r)) };
+    if (next.pitch === latest.current.pitch && next.roll === latest.current.roll) return false;
+    latest.current = next;
+    setValue(next);
+    return true;
+  };
+
+  const radius = size / 2;
+  const perDeg = radius / visiblePitch;
+  const rimWidth = 24;
+
+  // pointer handling: the rim rolls, the inside pitches
+  const svg = useRef<SVGSVGElement>(null);
+  const drag = useRef<{
+    pointerId: number;
+    mode: 'pitch' | 'roll';
+    x: number;
+    y: number;
+    pitch: number;
+    roll: number;
+  } | null>(null);
+
+  const local = (clientX: number, clientY: number) => {
+    const box = svg.current!.getBoundingClientRect();
+    return { x: clientX - (box.left + box.width / 2), y: clientY - (box.top + box.height / 2) };
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (disabled || !svg.current) return;
+    (e.currentTarget as Element).setPointerCapture?.(e.pointerId);
+    const p = local(e.clientX, e.clientY);
+    const mode = Math.hypot(p.x, p.y) > radius - rimWidth ? 'roll' : 'pitch';
+    (mode === 'roll' ? rollRef : pitchRef).current?.focus();
+    drag.current = { pointerId: e.pointerId, mode, x: p.x, y: p.y, pitch, roll };
+    onChangeStart?.(value);
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const d = drag.current;
+    if (!d || e.pointerId !== d.pointerId) return;
+    const p = local(e.clientX, e.clientY);
+    if (d.mode === 'pitch') {
+      // pulling the horizon down raises the nose
+      set(d.pitch + (p.y - d.y) / perDeg, d.roll);
+    } else {
+      // turning the horizon clockwise banks left
+      const turned = shortestAngleDelta(
+        (Math.atan2(d.y, d.x) * 180) / Math.PI,
+        (Math.atan2(p.y, p.x) * 180) / Math.PI
+      );
+      set(d.pitch, d.roll - turned);
+    }
+  };
+
+  const endDrag = (e: React.PointerEvent) => {
+    const d = drag.current;
+    if (!d || e.pointerId !== d.pointerId) return;
+    drag.current = null;
+    onChangeCommitted?.(latest.current);
+  };
+
+  const onKeyDown = (axis: 'pitch' | 'roll') => (e: React.KeyboardEvent) => {
+    if (disabled) return;
+    const delta = e.shiftKey ? stepDeg * 10 : stepDeg;
+    const current = axis === 'pitch' ? pitch : roll;
+    const keys: Record<string, number> =
+      axis === 'pitch'
+        ? { ArrowUp: current + delta, ArrowDown: current - delta, Home: 0 }
+        : { ArrowRight: current + delta, ArrowLeft: current - delta, Home: 0 };
+    if (!(e.key in keys)) return;
+    e.preventDefault();
+    const before = latest.current;
+    const changed = axis === 'pitch' ? set(keys[e.key], roll) : set(pitch, keys[e.key]);
+    if (!changed) return;
+    onChangeStart?.(before);
+    onChangeCommitted?.(latest.current);
+  };
+
+  const field = useFormField(
+    value,
+    { name, form, required, validate, error },
+    (a) => [`${a.pitch} ${unit}`, `${a.roll} ${unit}`],
+    () => pitchRef.current?.focus()
+  );
+
+  const format = (deg: number) => formatQuantity({ value: fromDeg(Math.abs(deg)), unit });
+  const pitchText = pitch === 0 ? 'level' : `${format(pitch)} nose ${pitch > 0 ? 'up' : 'down'}`;
+  const rollText = roll === 0 ? 'wings level' : `${format(roll)} ${roll > 0 ? 'right' : 'left'}`;
+
+  // pitch ladder rungs every 5°, labelled every 10°
+  const rungs: JSX.Element[] = [];
+  for (let p = -90; p <= 90; p += 5) {
+    if (p === 0 || Math.abs(p - pitch) > visiblePitch) continue;
+    const half = p % 10 === 0 ? radius * 0.3 : radius * 0.15;
+    const ry = -p * perDeg;
+    rungs.push(
+      <g key={p}>
+        <line x1={-half} y1={ry} x2={half} y2={ry} stroke="white" strokeWidth={1.5} />
+        {p % 10 === 0 && (
+          <text
+            x={half + 4}
+            y={ry}
+            dominantBaseline="central"
+            fill="white"
+            fontFamily={themeFont}
+            fontSize="10"
+            aria-hidden="true"
+          >
+            {Math.abs(p)}
+          </text>
+        )}
+      </g>
+    );
+  }
+
+  const rim = radius - rimWidth / 2;
+  const rollTicks = [0, ...bankTicks.filter((b) => b <= Math.max(60, rollMax)).flatMap((b) => [b, -b])];
+
+  return (
+    <div
+      className="vizctrl-attitude"
+      style={{ display: 'inline-flex', flexDirection: 'column', alignItems: 'center', gap: 8 }}
+    >
+      <span id={`${id}-label`}>{label}</span>
+      <svg
+        ref={svg}
+        width={size}
+        height={size}
+        viewBox={`${-radius} ${-radius} ${size} ${size}`}
+        role="group"
+        aria-labelledby={`${id}-label`}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        onLostPointerCapture={endDrag}
+        style={{ touchAction: 'none', cursor: disabled ? 'not-allowed' : 'grab' }}
+      >
+        <defs>
+          <clipPath id={`${id}-clip`}>
+            <circle r={radius} />
+          </clipPath>
+        </defs>
+        <g clipPath={`url(#${id}-clip)`}>
+          {/* horizon, pitch ladder and bank pointer move with the aircraft */}
+          <g
+            ref={pitchRef}
+            transform={`rotate(${-roll}) translate(0 ${pitch * perDeg})`}
+            role="slider"
+            aria-label="Pitch"
+            aria-orientation="vertical"
+            aria-valuemin={fromDeg(pitchMin)}
+            aria-valuemax={fromDeg(pitchMax)}
+            aria-valuenow={value.pitch}
+            aria-valuetext={pitchText}
+            aria-describedby={field.describedBy}
+            aria-invalid={field.invalid || undefined}
+            tabIndex={disabled ? -1 : 0}
+            onKeyDown={onKeyDown('pitch')}
+          >
+            <rect x={-size} y={-size * 2} width={size * 2} height={size * 2} fill={themeColor('sky')} />
+            <rect x={-size} y={0} width={size * 2} height={size * 2} fill={themeColor('ground')} />
+            <line x1={-size} y1={0} x2={size} y2={0} stroke="white" strokeWidth={2} />
+            {rungs}
+          </g>
+        </g>
+        {/* roll scale, fixed to the instrument */}
+        {rollTicks.map((b) => {
+          const a = rad(b - 90);
+          const long = b % 30 === 0;
+          const inner = radius - (long ? rimWidth : rimWidth * 0.6);
+          return (
+            <line
+              key={b}
+              x1={inner * Math.cos(a)}
+              y1={inner * Math.sin(a)}
+              x2={radius * Math.cos(a)}
+              y2={radius * Math.sin(a)}
+              stroke="white"
+              strokeWidth={long ? 2 : 1}
+            />
+          );
+        })}
+        {/* bank pointer, turning with the horizon */}
+        <polygon
+          ref={rollRef}
+          points={`0,${-rim + 8} -6,${-rim + 18} 6,${-rim + 18}`}
+          transform={`rotate(${-roll})`}
+          fill={themeColor('bug')}
+          stroke="white"
+          role="slider"
+          aria-label="Roll"
+          aria-valuemin={fromDeg(-rollMax)}
+          aria-valuemax={fromDeg(rollMax)}
+          aria-valuenow={value.roll}
+          aria-valuetext={rollText}
+          aria-describedby={field.describedBy}
+          aria-invalid={field.invalid || undefined}
+          tabIndex={disabled ? -1 : 0}
+          onKeyDown={onKeyDown('roll')}
+        />
+        {/* fixed aircraft symbol */}
+        <g stroke={themeColor('caution')} strokeWidth={4} strokeLinecap="round" fill="none">
+          <path d={`M ${-radius * 0.5} 0 H ${-radius * 0.15} L 0 ${radius * 0.08} L ${radius * 0.15} 0 H ${radius * 0.5}`} />
+          <circle r={2} />
+        </g>
+      </svg>
+      <output style={{ fontFamily: themeFont }}>
+        {pitchText}, {rollText}
+      </output>
+      {field.inputs}
+      {field.message}
+    </div>
+  );
+});
@@ -0,0 +1,43 @@
+import React from 'react';
+import { fireEvent, render } from '@testing-library/react';
+import { axe, toHaveNoViolations } from 'jest-axe';
+import { vi } from 'vitest';
+import { CoordinateInput } from './CoordinateInput';
+import '@testing-library/jest-dom';
+
+expect.extend(toHaveNoViolations);
+
+test('CoordinateInput is accessible', async () => {
+  const { container } = render(<CoordinateInput defaultValue={[-122.44, 37.77]} />);
+  const results = await axe(container);
+  expect(results).toHaveNoViolations();
+});
+
+test('CoordinateInput normalises pasted DMS to [lon, lat] and shows it in the chosen format', () => {
+  const onChange = vi.fn();
+  const { getByLabelText, getByRole } = render(<CoordinateInput onChange={onChange} />);
+  const input = getByLabelText('Coordinate');
+
+  fireEvent.change(input, { target: { value: `37°46'12"N 122°26'24"W` } });
+  fireEvent.keyDown(input, { key: 'Enter' });
+  const [lon, lat] = onChange.mock.calls[0][0];
+  expect(lon).toBeCloseTo(-122.44);
+  expect(lat).toBeCloseTo(37.77);
+  expect(input).toHaveValue('37.77000, -122.44000');
+
+  fireEvent.click(getByRole('radio', { name: 'DMS' }));
+  expect(input).toHaveValue(`37°46'12"N 122°26'24"W`);
+});
+
+test('CoordinateInput explains an out-of-range latitude and keeps the text', () => {
+  const onChange = vi.fn();
+  const { getByLabelText, getByRole } = render(<CoordinateInput onChange={onChange} />);
+  const input = getByLabelText('Coordinate');
+
+  fireEvent.change(input, { target: { value: '95, 10' } });
+  fireEvent.blur(input);
+  expect(onChange).not.toHaveBeenCalled();
+  expect(getByRole('alert')).toHaveTextContent('Latitude 95 is out of range (-90 to 90)');
+  expect(input).toHaveValue('95, 10');
+  expect(input).toHaveAttribute('aria-invalid', 'true');
+});
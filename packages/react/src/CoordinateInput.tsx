@@ -0,0 +1,185 @@
+import React, { forwardRef, useId, useImperativeHandle, useRef, useState } from 'react';
+import { CoordinateFormat, LonLat, formatCoordinate, parseCoordinate } from '@vizctrl/core';
+import { themeColor } from './theme';
+import { ChangeEvents, ControlHandle, useControllableState } from './useControllableState';
+import { FormFieldProps, useFormField } from './form';
+
+export interface CoordinateInputProps extends ChangeEvents<LonLat>, FormFieldProps<LonLat> {
+  /** Current position as [longitude, latitude]. Omit to leave the input uncontrolled. */
+  value?: LonLat;
+  /** Initial position of an uncontrolled input. Defaults to [0, 0]. */
+  defaultValue?: LonLat;
+  /** Called with [longitude, latitude] when an entry is committed. */
+  onChange?: (coord: LonLat) => void;
+  /** Notation the position is displayed in. Omit to let the switcher manage it. */
+  format?: CoordinateFormat;
+  /** Initial notation when `format` is not given. Default `'decimal'`. */
+  defaultFormat?: CoordinateFormat;
+  /** Called when the user picks another notation. */
+  onFormatChange?: (format: CoordinateFormat) => void;
+  /** Axis order assumed for unlabelled pairs such as `37.77, -122.44`. Default `'latlon'`. */
+  order?: 'latlon' | 'lonlat';
+  /** Optional label displayed above the input. */
+  label?: string;
+  /** Disable interactions. */
+  disabled?: boolean;
+}
+
+const formats: CoordinateFormat[] = ['decimal', 'dms', 'ddm', 'utm', 'mgrs'];
+const formatLabels: Record<CoordinateFormat, string> = {
+  decimal: 'Decimal',
+  dms: 'DMS',
+  ddm: 'DDM',
+  utm: 'UTM',
+  mgrs: 'MGRS',
+};
+
+/**
+ * Keyboard-first entry of a geographic position. Accepts typed or
+ * pasted text in any notation `parseCoordinate` understands (decimal
+ * degrees, DMS, degrees and decimal minutes, UTM or MGRS) and
+ * normalises it to `[lon, lat]`. Entries are committed on Enter or
+ * blur; text that cannot be read stays for correction with the reason
+ * shown beneath it, and Escape restores the last valid position. The
+ * switcher chooses the notation the position is displayed in.
+ */
+export const CoordinateInput = forwardRef(function CoordinateInput(
+  {
+    value: valueProp,
+    defaultValue = [0, 0],
+    onChange,
+    onChangeStart,
+    onChangeCommitted,
+    name,
+    form,
+    required,
+    validate,
+    error,
+    format: formatProp,
+    defaultFormat = 'decimal',
+    onFormatChange,
+    order,
+    label = 'Coordinate',
+    disabled,
+  }: CoordinateInputProps,
+  ref: React.ForwardedRef<ControlHandle<LonLat>>
+) {
+  const [value, setValue, reset] = useControllableState(valueProp, defaultValue, onChange);
+  const [format, setFormat] = useControllableState(formatProp, defaultFormat, onFormatChange);
+  const input = useRef<HTMLInputElement>(null);
+  useImperativeHandle(ref, () => ({ focus: () => input.current?.focus(), reset, setValue }));
+  const id = useId();
+
+  const [draft, setDraft] = useState<string | null>(null);
+  const [problem, setProblem] = useState<string | null>(null);
+
+  // UTM and MGRS stop at 80°S and 84°N; beyond them fall back to decimal
+  let shown: string;
+  try {
+    shown = formatCoordinate(value, format);
+  } catch {
+    shown = formatCoordinate(value, 'decimal');
+  }
+
+  const commit = () => {
+    if (draft === null) return true;
+    let next: LonLat;
+    try {
+      next = parseCoordinate(draft, { order });
+    } catch (e) {
+      setProblem((e as Error).message);
+      return false;
+    }
+    setDraft(null);
+    setProblem(null);
+    onChangeStart?.(value);
+    setValue(next);
+    onChangeCommitted?.(next);
+    return true;
+  };
+  const revert = () => {
+    setDraft(null);
+    setProblem(null);
+  };
+
+  const field = useFormField(
+    value,
+    { name, form, required, validate, error },
+    ([lon, lat]) => `${lat},${lon}`,
+    () => input.current?.focus()
+  );
+  const problemId = `${id}-problem`;
+  const describedBy = [problem ? problemId : undefined, field.describedBy].filter(Boolean).join(' ');
+
+  return (
+    <div className="vizctrl-coordinate" style={{ display: 'grid', gap: 6 }}>
+      <label htmlFor={id}>{label}</label>
+      <input
+        ref={input}
+        id={id}
+        type="text"
+        spellCheck={false}
+        autoComplete="off"
+        disabled={disabled}
+        aria-invalid={!!problem || field.invalid || undefined}
+        aria-describedby={describedBy || undefined}
+        value={draft ?? shown}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          setProblem(null);
+        }}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') revert();
+        }}
+        style={{ minWidth: 240 }}
+      />
+      {problem && (
+        <div
+          id={problemId}
+          role="alert"
+          className="vizctrl-error"
+          style={{ color: themeColor('warning'), fontSize: 12 }}
+        >
+          {problem}
+        </div>
+      )}
+      <div
+        role="radiogroup"
+        aria-label={`${label} format`}
+        style={{
+          display: 'inline-flex',
+          justifySelf: 'start',
+          border: `1px solid ${themeColor('controlBorder')}`,
+          borderRadius: 8,
+          overflow: 'hidden',
+        }}
+      >
+        {formats.map((f) => (
+          <button
+            key={f}
+            type="button"
+            role="radio"
+            aria-checked={format === f}
+            disabled={disabled}
+            onClick={() => {
+              revert();
+              setFormat(f);
+            }}
+            style={{
+              padding: '6px 10px',
+              background: format === f ? themeColor('controlActiveBackground') : themeColor('controlBackground'),
+              color: format === f ? themeColor('controlActiveText') : themeColor('controlText'),
+              border: 'none',
+            }}
+          >
+            {formatLabels[f]}
+          </button>
+        ))}
+      </div>
+      {field.inputs}
+      {field.message}
+    </div>
+  );
+});
@@ -0,0 +1,93 @@
+import React from 'react';
+import { fireEvent, render } from '@testing-library/react';
+import { axe, toHaveNoViolations } from 'jest-axe';
+import { vi } from 'vitest';
+import { DateTimeInput, TimeInput } from './DateTimeInput';
+import '@testing-library/jest-dom';
+
+expect.extend(toHaveNoViolations);
+
+test('DateTimeInput is accessible', async () => {
+  const { container } = render(
+    <DateTimeInput
+      defaultValue="2024-03-10T14:30:00Z"
+      timeZones={['UTC', 'Europe/Paris']}
+      referenceZones={['Europe/Paris']}
+    />
+  );
+  const results = await axe(container);
+  expect(results).toHaveNoViolations();
+});
+
+test('TimeInput carries past midnight and emits ISO timestamps in the selected zone', () => {
+  const onChange = vi.fn();
+  const { getByLabelText } = render(
+    <TimeInput defaultValue="2024-03-10T23:59:00Z" timeZones={['UTC', 'Europe/Paris']} onChange={onChange} />
+  );
+
+  fireEvent.keyDown(getByLabelText('Minutes'), { key: 'ArrowUp' });
+  expect(onChange).toHaveBeenLastCalledWith('2024-03-11T00:00:00Z');
+  expect(getByLabelText('Hours')).toHaveValue('00');
+
+  fireEvent.change(getByLabelText('Time zone'), { target: { value: 'Europe/Paris' } });
+  expect(onChange).toHaveBeenLastCalledWith('2024-03-11T01:00:00+01:00');
+  expect(getByLabelText('Hours')).toHaveValue('01');
+});
+
+test('DateTimeInput rejects a day the month does not have', () => {
+  const onChange = vi.fn();
+  const { getByLabelText, getByRole } = render(
+    <DateTimeInput defaultValue="2023-02-10T08:00:00Z" onChange={onChange} />
+  );
+  const day = getByLabelText('Day');
+
+  fireEvent.change(day, { target: { value: '29' } });
+  fireEvent.blur(day);
+  expect(onChange).not.toHaveBeenCalled();
+  expect(getByRole('alert')).toHaveTextContent('Day must be from 1 to 28');
+});
+
+test('DateTimeInput keeps years to four digits', () => {
+  const onChange = vi.fn();
+  const { getByLabelText, getByRole, queryByRole } = render(
+    <DateTimeInput defaultValue="1000-06-10T08:00:00Z" onChange={onChange} />
+  );
+  const year = getByLabelText('Year');
+
+  // Date.UTC would read 99 as 1999
+  fireEvent.change(year, { target: { value: '99' } });
+  fireEvent.blur(year);
+  expect(getByRole('alert')).toHaveTextContent('Year must be from 1000 to 9999');
+  fireEvent.change(year, { target: { value: '0050-01-01T00:00:00Z' } });
+  fireEvent.blur(year);
+  expect(getByRole('alert')).toHaveTextContent('Year must be from 1000 to 9999');
+  fireEvent.keyDown(year, { key: 'ArrowDown' });
+  expect(onChange).not.toHaveBeenCalled();
+
+  fireEvent.change(year, { target: { value: '1999' } });
+  fireEvent.blur(year);
+  expect(queryByRole('alert')).toBeNull();
+  expect(onChange).toHaveBeenLastCalledWith('1999-06-10T08:00:00Z');
+});
+
+test('DateTimeInput falls back to UTC for an unknown time zone', () => {
+  const onChange = vi.fn();
+  const { getByLabelText, getByRole } = render(
+    <DateTimeInput
+      value="2024-03-10T14:30:00Z"
+      timeZone="Mars/Olympus_Mons"
+      timeZones={['UTC', 'Mars/Olympus_Mons', 'Europe/Paris']}
+      referenceZones={['Mars/Olympus_Mons', 'Europe/Paris']}
+      onChange={onChange}
+    />
+  );
+  expect(getByRole('alert')).toHaveTextContent('Unknown time zone "Mars/Olympus_Mons"; showing UTC');
+  expect(getByLabelText('Hours')).toHaveValue('14');
+  expect(getByLabelText('Time zone')).toHaveValue('UTC');
+  expect(Array.from((getByLabelText('Time zone') as HTMLSelectElement).options, (o) => o.value)).toEqual([
+    'UTC',
+    'Europe/Paris',
+  ]);
+  fireEvent.keyDown(getByLabelText('Minutes'), { key: 'ArrowUp' });
+  expect(onChange).toHaveBeenLastCalledWith('2024-03-10T14:31:00Z');
+});
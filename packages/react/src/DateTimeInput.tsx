@@ -0,0 +1,310 @@
+import React, { forwardRef, useId, useImperativeHandle, useRef, useState } from 'react';
+import {
+  ZonedParts,
+  daysInMonth,
+  formatISOInZone,
+  fromZonedParts,
+  isTimeZone,
+  localTimeZone,
+  timeZoneName,
+  toZonedParts,
+} from '@vizctrl/core';
+import { themeColor } from './theme';
+import { SegmentField } from './SegmentField';
+import { ChangeEvents, ControlHandle, useControllableState } from './useControllableState';
+import { FormFieldProps, useFormField } from './form';
+
+export interface DateTimeInputProps extends ChangeEvents<string>, FormFieldProps<string> {
+  /**
+   * Current instant as an ISO 8601 timestamp with an offset, e.g.
+   * `2024-03-10T14:30:00Z`. Omit to leave the control uncontrolled.
+   */
+  value?: string;
+  /** Initial instant of an uncontrolled control. Defaults to the current minute. */
+  defaultValue?: string;
+  /**
+   * Called with an ISO 8601 timestamp carrying the offset of the
+   * selected time zone (`Z` for UTC).
+   */
+  onChange?: (iso: string) => void;
+  /** IANA time zone the segments are edited in. Omit to let the selector manage it. */
+  timeZone?: string;
+  /** Initial time zone when `timeZone` is not given. Default `'UTC'`. */
+  defaultTimeZone?: string;
+  /** Called when the user selects another time zone. */
+  onTimeZoneChange?: (timeZone: string) => void;
+  /** IANA zones offered by the selector. Defaults to UTC and the local zone. */
+  timeZones?: string[];
+  /**
+   * Zones in which the instant is also shown, beside the edited one.
+   * Defaults to whichever of UTC and the local zone is not selected.
+   */
+  referenceZones?: string[];
+  /** Use a 12-hour clock with an AM/PM segment. Default false. */
+  hour12?: boolean;
+  /** Show a seconds segment. Default false. */
+  seconds?: boolean;
+  /** Show year, month and day segments. Default true. */
+  showDate?: boolean;
+  /** Locale for the reference readouts. Defaults to the runtime locale. */
+  locale?: string;
+  /** Optional label displayed above the control. */
+  label?: string;
+}
+
+type TimeSegment = keyof ZonedParts | 'period';
+
+const segmentNames: Record<TimeSegment, string> = {
+  year: 'Year',
+  month: 'Month',
+  day: 'Day',
+  hour: 'Hours',
+  minute: 'Minutes',
+  second: 'Seconds',
+  period: 'AM/PM',
+};
+
+/**
+ * Date and time-of-day entry in a chosen IANA time zone, built from the
+ * same segment fields as `DurationInput`. Stepping a segment carries
+ * into the others (one minute past 23:59 is the next day), and typed
+ * values are checked against the calendar. A full ISO 8601 timestamp
+ * or a `14:30` time can be typed or pasted into any segment. Zones come
+ * from the runtime's `Intl` data. The value is the instant as an ISO
+ * timestamp in the selected zone; it is also shown in the reference
+ * zones, so Zulu and local time can be read side by side.
+ */
+export const DateTimeInput = forwardRef(function DateTimeInput(
+  {
+    value: valueProp,
+    defaultValue,
+    onChange,
+    onChangeStart,
+    onChangeCommitted,
+    name,
+    form,
+    required,
+    validate,
+    error,
+    timeZone: timeZoneProp,
+    defaultTimeZone = 'UTC',
+    onTimeZoneChange,
+    timeZones,
+    referenceZones,
+    hour12 = false,
+    seconds = false,
+    showDate = true,
+    locale,
+    label = showDate ? 'Date and time' : 'Time',
+  }: DateTimeInputProps,
+  ref: React.ForwardedRef<ControlHandle<string>>
+) {
+  const [selectedZone, setZone] = useControllableState(timeZoneProp, defaultTimeZone, onTimeZoneChange);
+  // Intl throws on zones it does not know; edit those in UTC instead
+  const zone = isTimeZone(selectedZone) ? selectedZone : 'UTC';
+  const [value, setValue, reset] = useControllableState(
+    valueProp,
+    defaultValue ?? formatISOInZone(new Date(Math.floor(Date.now() / 60000) * 60000), zone),
+    onChange
+  );
+  const first = useRef<HTMLInputElement>(null);
+  useImperativeHandle(ref, () => ({ focus: () => first.current?.focus(), reset, setValue }));
+  const id = useId();
+  // why the last typed entry was rejected
+  const [problem, setProblem] = useState<string | null>(null);
+
+  const date = new Date(value);
+  const parts = toZonedParts(date, zone);
+  const local = localTimeZone();
+  const offered = Array.from(new Set([...(timeZones ?? ['UTC', local]), zone])).filter(isTimeZone);
+  const references = (referenceZones ?? ['UTC', local]).filter(
+    (z, i, all) => z !== zone && all.indexOf(z) === i && isTimeZone(z)
+  );
+
+  // every edit is a complete change on its own
+  const commit = (next: Date, z = zone) => {
+    const iso = formatISOInZone(next, z);
+    if (iso === value) return;
+    onChangeStart?.(value);
+    setValue(iso);
+    onChangeCommitted?.(iso);
+  };
+  const commitParts = (p: ZonedParts) => commit(fromZonedParts(p, zone));
+
+  const step = (segment: TimeSegment, by: number) => {
+    if (segment === 'period') {
+      commitParts({ ...parts, hour: (parts.hour + 12) % 24 });
+      return;
+    }
+    const next = { ...parts, [segment]: parts[segment] + by };
+    // a month or year later keeps the day within the month
+    if (segment === 'year' || segment === 'month') {
+      const normal = toZonedParts(new Date(Date.UTC(next.year, next.month - 1, 1)), 'UTC');
+      next.year = normal.year;
+      next.month = normal.month;
+      next.day = Math.min(next.day, daysInMonth(next.year, next.month));
+      if (next.year < ranges.year[0] || next.year > ranges.year[1]) return;
+    }
+    commitParts(next);
+  };
+
+  const accept = (segment: TimeSegment, text: string): boolean => {
+    const t = text.trim();
+    try {
+      if (segment === 'period' && /^[ap]/i.test(t)) {
+        const pm = /^p/i.test(t);
+        commitParts({ ...parts, hour: (parts.hour % 12) + (pm ? 12 : 0) });
+      } else if (/^\d+$/.test(t) && segment !== 'period') {
+        commitParts(withSegment(parts, segment, Number(t), hour12));
+      } else if (/^\d{4}-\d{2}-\d{2}T/i.test(t) && !isNaN(Date.parse(t))) {
+        const pasted = new Date(t);
+        // throws for years the segment would refuse
+        withSegment(parts, 'year', toZonedParts(pasted, zone).year, false);
+        commit(pasted);
+      } else {
+        const clock = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(t);
+        if (!clock) throw new Error(`Enter a number, a time such as 14:30 or an ISO 8601 timestamp`);
+        let p = withSegment(parts, 'hour', Number(clock[1]), false);
+        p = withSegment(p, 'minute', Number(clock[2]), false);
+        p = withSegment(p, 'second', Number(clock[3] ?? 0), false);
+        commitParts(p);
+      }
+      setProblem(null);
+      return true;
+    } catch (e) {
+      setProblem((e as Error).message);
+      return false;
+    }
+  };
+
+  const field = useFormField(value, { name, form, required, validate, error }, String, () =>
+    first.current?.focus()
+  );
+  const problemId = `${id}-problem`;
+  const describedBy = [problem ? problemId : undefined, field.describedBy].filter(Boolean).join(' ') || undefined;
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const shown: Array<[TimeSegment, string, number]> = [
+    ...(showDate
+      ? ([
+          ['year', String(parts.year), 60],
+          ['month', pad(parts.month), 40],
+          ['day', pad(parts.day), 40],
+        ] as Array<[TimeSegment, string, number]>)
+      : []),
+    ['hour', pad(hour12 ? parts.hour % 12 || 12 : parts.hour), 40],
+    ['minute', pad(parts.minute), 40],
+    ...(seconds ? ([['second', pad(parts.second), 40]] as Array<[TimeSegment, string, number]>) : []),
+    ...(hour12 ? ([['period', parts.hour < 12 ? 'AM' : 'PM', 48]] as Array<[TimeSegment, string, number]>) : []),
+  ];
+
+  const readout = (z: string) =>
+    new Intl.DateTimeFormat(locale, {
+      timeZone: z,
+      ...(showDate && { year: 'numeric', month: 'short', day: 'numeric' }),
+      hour: '2-digit',
+      minute: '2-digit',
+      ...(seconds && { second: '2-digit' }),
+      hour12,
+      timeZoneName: 'short',
+    }).format(date);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+      <span id={`${id}-label`}>{label}</span>
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+        <div role="group" aria-labelledby={`${id}-label`} style={{ display: 'flex', gap: 4 }}>
+          {shown.map(([segment, text, width], i) => (
+            <SegmentField
+              key={segment}
+              inputRef={i === 0 ? first : undefined}
+              name={segmentNames[segment]}
+              text={text}
+              width={width}
+              inputMode={segment === 'period' ? 'text' : 'numeric'}
+              onCommit={(t) => accept(segment, t)}
+              onEdit={() => setProblem(null)}
+              onStep={(by) => step(segment, by)}
+              invalid={field.invalid || !!problem}
+              describedBy={describedBy}
+            />
+          ))}
+        </div>
+        <select
+          aria-label="Time zone"
+          value={zone}
+          onChange={(e) => {
+            setProblem(null);
+            setZone(e.target.value);
+            commit(date, e.target.value);
+          }}
+        >
+          {offered.map((z) => (
+            <option key={z} value={z}>
+              {z === 'UTC' ? 'UTC (Zulu)' : `${z.replace(/_/g, ' ')} (${timeZoneName(date, z, locale)})`}
+            </option>
+          ))}
+        </select>
+      </div>
+      {zone !== selectedZone && (
+        <div role="alert" className="vizctrl-error" style={{ color: themeColor('warning'), fontSize: 12 }}>
+          Unknown time zone "{selectedZone}"; showing UTC
+        </div>
+      )}
+      {problem && (
+        <div
+          id={problemId}
+          role="alert"
+          className="vizctrl-error"
+          style={{ color: themeColor('warning'), fontSize: 12 }}
+        >
+          {problem}
+        </div>
+      )}
+      {references.length > 0 && (
+        <output style={{ display: 'flex', gap: 12, fontSize: 12 }}>
+          {references.map((z) => (
+            <span key={z}>{readout(z)}</span>
+          ))}
+        </output>
+      )}
+      {field.inputs}
+      {field.message}
+    </div>
+  );
+});
+
+export type TimeInputProps = Omit<DateTimeInputProps, 'showDate'>;
+
+/**
+ * Time-of-day entry: a `DateTimeInput` without the date segments. The
+ * value is still a full ISO timestamp; stepping past midnight moves to
+ * the next day.
+ */
+export const TimeInput = forwardRef(function TimeInput(
+  props: TimeInputProps,
+  ref: React.ForwardedRef<ControlHandle<string>>
+) {
+  return <DateTimeInput {...props} ref={ref} showDate={false} />;
+});
+
+const ranges: Record<keyof ZonedParts, [number, number]> = {
+  // Date.UTC reads years below 100 as 19xx
+  year: [1000, 9999],
+  month: [1, 12],
+  day: [1, 31],
+  hour: [0, 23],
+  minute: [0, 59],
+  second: [0, 59],
+};
+
+// replace one field of a wall-clock reading, checking it against the calendar
+function withSegment(parts: ZonedParts, segment: keyof ZonedParts, n: number, hour12: boolean): ZonedParts {
+  let [lo, hi] = ranges[segment];
+  if (segment === 'day') hi = daysInMonth(parts.year, parts.month);
+  if (segment === 'hour' && hour12) [lo, hi] = [1, 12];
+  if (n < lo || n > hi) throw new Error(`${segmentNames[segment]} must be from ${lo} to ${hi}`);
+  // on a 12-hour clock the typed hour keeps the current half of the day
+  if (segment === 'hour' && hour12) n = (n % 12) + (parts.hour >= 12 ? 12 : 0);
+  return { ...parts, [segment]: n };
+}
@@ -1,7 +1,10 @@
 import React from 'react';
-import { render } from '@testing-library/react';
+import { act, fireEvent, render } from '@testing-library/react';
+import { vi } from 'vitest';
 import { axe, toHaveNoViolations } from 'jest-axe';
-import Dial from './Dial';
+import Dial, { DialHandle } from './Dial';
+import { VizCtrlThemeProvider, darkTheme } from './theme';
+import '@testing-library/jest-dom';
 
 // extend jest assertions for accessibility
 expect.extend(toHaveNoViolations);
@@ -10,4 +13,90 @@ test('Dial renders and is accessible', async () => {
   const { container } = render(<Dial value={50} onChange={() => {}} min={0} max={100} />);
   const results = await axe(container);
   expect(results).toHaveNoViolations();
-});
\ No newline at end of file
+});
+
+test('Dial in wrap mode steps across the seam', () => {
+  const onChange = vi.fn();
+  const { getByRole } = render(<Dial value={359} onChange={onChange} min={0} max={360} wrap ariaLabel="Heading" />);
+  fireEvent.keyDown(getByRole('slider'), { key: 'ArrowRight' });
+  expect(onChange).toHaveBeenLastCalledWith(0);
+});
+
+
+test('Dial announces the band of the current value', () => {
+  const onBandEnter = vi.fn();
+  const bands = [
+    { from: 0, to: 150, zone: 'normal' as const },
+    { from: 150, to: 200, zone: 'caution' as const },
+  ];
+  const { getByRole, rerender } = render(
+    <Dial value={140} onChange={() => {}} min={0} max={250} bands={bands} onBandEnter={onBandEnter} ariaLabel="Airspeed" />
+  );
+  expect(onBandEnter).not.toHaveBeenCalled();
+  rerender(
+    <Dial value={180} onChange={() => {}} min={0} max={250} bands={bands} onBandEnter={onBandEnter} ariaLabel="Airspeed" formatValue={(v) => `${v} kt`} />
+  );
+  expect(getByRole('slider')).toHaveAttribute('aria-valuetext', '180 kt, caution');
+  expect(onBandEnter).toHaveBeenCalledWith(bands[1]);
+});
+
+test('Dial picks up theme tokens and slot classes', async () => {
+  const { container } = render(
+    <VizCtrlThemeProvider theme={darkTheme}>
+      <Dial value={50} onChange={() => {}} ariaLabel="Throttle" classNames={{ thumb: 'my-thumb' }} />
+    </VizCtrlThemeProvider>
+  );
+  const theme = container.querySelector('.vizctrl-theme') as HTMLElement;
+  expect(theme.style.getPropertyValue('--vizctrl-track')).toBe(darkTheme.colors.track);
+  expect(container.querySelector('.vizctrl-dial__thumb')).toHaveClass('my-thumb');
+  expect(await axe(container)).toHaveNoViolations();
+});
+
+test('Dial steps with the mouse wheel', () => {
+  const onChange = vi.fn();
+  const { getByRole } = render(<Dial value={50} onChange={onChange} ariaLabel="Throttle" wheelStep={2} />);
+  fireEvent.wheel(getByRole('slider'), { deltaY: -100 });
+  expect(onChange).toHaveBeenLastCalledWith(52);
+  fireEvent.wheel(getByRole('slider'), { deltaY: 100, shiftKey: true });
+  expect(onChange).toHaveBeenLastCalledWith(30);
+});
+
+test('Dial lands on fractional steps from the keyboard and wheel', () => {
+  const onChange = vi.fn();
+  const { getByRole } = render(
+    <Dial value={0.2} onChange={onChange} min={0} max={1} step={0.1} wheelStep={1} ariaLabel="Mix" />
+  );
+  const slider = getByRole('slider');
+  fireEvent.keyDown(slider, { key: 'ArrowUp' });
+  expect(onChange).toHaveBeenLastCalledWith(0.3);
+  fireEvent.keyDown(slider, { key: 'ArrowUp', shiftKey: true });
+  expect(onChange).toHaveBeenLastCalledWith(1);
+  fireEvent.keyDown(slider, { key: 'PageDown' });
+  expect(onChange).toHaveBeenLastCalledWith(0);
+  fireEvent.wheel(slider, { deltaY: -100 });
+  expect(onChange).toHaveBeenLastCalledWith(0.3);
+  fireEvent.wheel(slider, { deltaY: 100 });
+  expect(onChange).toHaveBeenLastCalledWith(0.1);
+});
+
+test('Uncontrolled Dial keeps its own value and reports commits', () => {
+  const onChangeStart = vi.fn();
+  const onChangeCommitted = vi.fn();
+  const ref = React.createRef<DialHandle>();
+  const { getByRole } = render(
+    <Dial
+      ref={ref}
+      defaultValue={20}
+      ariaLabel="Throttle"
+      onChangeStart={onChangeStart}
+      onChangeCommitted={onChangeCommitted}
+    />
+  );
+  const slider = getByRole('slider');
+  fireEvent.keyDown(slider, { key: 'ArrowUp' });
+  expect(slider).toHaveAttribute('aria-valuenow', '21');
+  expect(onChangeStart).toHaveBeenCalledWith(20);
+  expect(onChangeCommitted).toHaveBeenCalledWith(21);
+  act(() => ref.current?.reset());
+  expect(slider).toHaveAttribute('aria-valuenow', '20');
+});
@@ -1,18 +1,75 @@
-import React, { useCallback, useEffect, useId, useMemo, useRef } from 'react';
+import React, { forwardRef, useImperativeHandle } from 'react';
+import type { ScaleSpec } from '@vizctrl/core';
+import { themeColor, themeFont } from './theme';
+import { useDial } from './useDial';
+import { ChangeEvents, ControlHandle } from './useControllableState';
 
 /**
  * A radial dial control. Displays a circular track with a draggable
  * thumb and optional tick marks. It is fully accessible via keyboard
  * and screen readers, exposing ARIA slider semantics. Consumers
  * provide a numeric `value` along with `onChange` handler and range
- * constraints. Optional formatting functions customise the textual
- * value readout.
+ * constraints, or a `defaultValue` to leave the dial uncontrolled.
+ * Optional formatting functions customise the textual value readout.
+ *
+ * Passing a `[low, high]` pair as `value` switches to range mode: two
+ * thumbs, each its own focusable slider, with the band between them
+ * filled. Range mode cannot be combined with `wrap`.
  */
-export type DialProps = {
-  /** Current numeric value represented by the dial. */
+export type DialProps<V extends DialValue = number> = DialBaseProps &
+  ChangeEvents<V> & {
+    /**
+     * Current numeric value, or `[low, high]` in range mode. Omit to
+     * leave the dial uncontrolled.
+     */
+    value?: V;
+    /** Initial value of an uncontrolled dial. Defaults to `min`. */
+    defaultValue?: V;
+    /** Callback when a new value is selected via drag, wheel or keyboard. */
+    onChange?: (next: V) => void;
+    /** Range mode: smallest allowed distance between the two thumbs. Default 0. */
+    minGap?: number;
+  };
+
+export type DialValue = number | [number, number];
+
+/** Severity of a band, in increasing order: green, yellow, red. */
+export type DialZone = 'normal' | 'caution' | 'warning';
+
+/** A coloured arc marking a value range, like the arcs on an airspeed indicator. */
+export interface DialBand {
+  from: number;
+  to: number;
+  zone: DialZone;
+  /** Overrides the colour for the zone. */
+  color?: string;
+  /** Spoken in place of the zone name, e.g. "flap range". */
+  label?: string;
+}
+
+/** A reference marker ("bug") at a target value, set independently of the thumb. */
+export interface DialBug {
   value: number;
-  /** Callback when a new value is selected via drag, wheel or keyboard. */
-  onChange: (next: number) => void;
+  /** Tooltip and accessible description of the bug. */
+  label?: string;
+  color?: string;
+}
+
+/** Parts of the dial that accept a `className` or `style` override. */
+export type DialSlot =
+  | 'root'
+  | 'label'
+  | 'svg'
+  | 'track'
+  | 'fill'
+  | 'band'
+  | 'tick'
+  | 'tickLabel'
+  | 'bug'
+  | 'thumb'
+  | 'value';
+
+type DialBaseProps = {
   /** Minimum allowed value. Default 0. */
   min?: number;
   /** Maximum allowed value. Default 100. */
@@ -29,233 +86,229 @@ export type DialProps = {
   label?: string;
   /** ARIA label if no visual label is supplied. */
   ariaLabel?: string;
+  /** Id of an element describing the dial, such as an error message. */
+  ariaDescribedBy?: string;
+  /** Mark the value as invalid for assistive technology. */
+  invalid?: boolean;
   /** Function to convert the numeric value into a display string. */
   formatValue?: (v: number) => string;
   /** Tick configuration. Draws tick marks every `every` units and major ticks every `majorEvery` units. */
   ticks?: { every: number; majorEvery?: number };
   /** Disable interactions. */
   disabled?: boolean;
+  /**
+   * Full-circle mode. The track becomes a closed ring covering
+   * [min, max), and values wrap across the seam: stepping up from the
+   * last value lands on `min`. `startAngle`/`endAngle` are ignored.
+   */
+  wrap?: boolean;
+  /** In wrap mode, the angle (radians) at which `min` sits. Default -π/2 (top). */
+  zeroAngle?: number;
+  /** In wrap mode, the sense in which values increase. Default `'cw'`. */
+  direction?: 'cw' | 'ccw';
+  /** Text labels drawn inside the track at the given values, e.g. compass points. */
+  labels?: Array<{ value: number; text: string }>;
+  /**
+   * Coloured bands drawn inside the track. Where bands overlap, the
+   * most severe zone wins. The zone of the current value is appended to
+   * `aria-valuetext`, e.g. "180 kt, caution".
+   */
+  bands?: DialBand[];
+  /** Reference markers drawn on the track. */
+  bugs?: DialBug[];
+  /** Called when a value moves into a band. */
+  onBandEnter?: (band: DialBand) => void;
+  /** Called when a value moves out of a band. */
+  onBandLeave?: (band: DialBand) => void;
+  /**
+   * How values are spread along the track: `'linear'` (default),
+   * `'log'`, or piecewise-linear between breakpoints. Ticks follow the
+   * scale, and crowded ticks are thinned out.
+   */
+  scale?: ScaleSpec;
+  /**
+   * Steps moved per mouse wheel notch; Shift multiplies by ten. Default
+   * 1; 0 disables the wheel. In range mode the wheel moves the last
+   * focused thumb.
+   */
+  wheelStep?: number;
+  /**
+   * `'absolute'` (default) jumps the thumb to the pointer. `'relative'`
+   * moves it by the distance dragged, wherever the drag starts.
+   */
+  dragMode?: 'absolute' | 'relative';
+  /**
+   * Scale applied to drag movement while Alt or Shift is held, for fine
+   * adjustment. Fine drags are always relative. Default 0.1.
+   */
+  fineDragFactor?: number;
+  /** Keep the thumb moving, slowing down, after a flick. Default false. */
+  inertia?: boolean;
+  /** Track width in pixels. Defaults to the theme's `strokeWidth`. */
+  strokeWidth?: number;
+  /**
+   * Extra class names per slot, added to the default
+   * `vizctrl-dial__<slot>` class.
+   */
+  classNames?: Partial<Record<DialSlot, string>>;
+  /** Inline style overrides per slot. */
+  styles?: Partial<Record<DialSlot, React.CSSProperties>>;
 };
 
-export default function Dial({
-  value,
-  onChange,
-  min = 0,
-  max = 100,
-  step = 1,
-  size = 160,
-  startAngle = -Math.PI * 0.75,
-  endAngle = Math.PI * 0.75,
-  label,
-  ariaLabel,
-  formatValue = (v) => String(v),
-  ticks,
-  disabled,
-}: DialProps) {
-  // internal state for drag operations
-  const id = useId();
-  const radius = size / 2;
-  const stroke = 10;
-  const center = { x: radius, y: radius };
-  const clamp = (v: number) => Math.min(max, Math.max(min, v));
-  const range = max - min;
-
-  const angleFromValue = useCallback(
-    (v: number) => {
-      const t = (v - min) / range;
-      return startAngle + t * (endAngle - startAngle);
-    },
-    [min, range, startAngle, endAngle]
-  );
-
-  const valueFromAngle = useCallback(
-    (ang: number) => {
-      let t = (ang - startAngle) / (endAngle - startAngle);
-      t = Math.min(1, Math.max(0, t));
-      const raw = min + t * range;
-      return clamp(round(raw, step));
-    },
-    [startAngle, endAngle, min, range, step, clamp]
-  );
-
-  const round = (v: number, s: number) => {
-    const k = Math.round(v / s) * s;
-    const d = (s.toString().split('.')[1] || '').length;
-    return +k.toFixed(d);
-  };
-
-  const angle = angleFromValue(value);
-
-  const polar = (c: { x: number; y: number }, r: number, ang: number) => ({
-    x: c.x + r * Math.cos(ang),
-    y: c.y + r * Math.sin(ang),
-  });
-
-  const describeArc = (from: number, to: number) => {
-    const largeArc = to - from > Math.PI ? 1 : 0;
-    const a = polar(center, radius - stroke / 2, from);
-    const b = polar(center, radius - stroke / 2, to);
-    return `M ${a.x} ${a.y} A ${radius - stroke / 2} ${radius - stroke / 2} 0 ${largeArc} 1 ${b.x} ${b.y}`;
-  };
-
-  // pointer handling
-  const ref = useRef<SVGSVGElement | null>(null);
-  const dragging = useRef(false);
-
-  const setFromPointer = useCallback(
-    (clientX: number, clientY: number) => {
-      if (!ref.current) return;
-      const box = ref.current.getBoundingClientRect();
-      const x = clientX - (box.left + box.width / 2);
-      const y = clientY - (box.top + box.height / 2);
-      const ang = Math.atan2(y, x);
-      onChange(valueFromAngle(ang));
-    },
-    [onChange, valueFromAngle]
-  );
-
-  useEffect(() => {
-    const move = (e: PointerEvent) => {
-      if (!dragging.current) return;
-      setFromPointer(e.clientX, e.clientY);
-    };
-    const up = () => {
-      dragging.current = false;
-    };
-    window.addEventListener('pointermove', move);
-    window.addEventListener('pointerup', up);
-    return () => {
-      window.removeEventListener('pointermove', move);
-      window.removeEventListener('pointerup', up);
-    };
-  }, [setFromPointer]);
+export type DialHandle<V extends DialValue = number> = ControlHandle<V>;
 
-  const onPointerDown = (e: React.PointerEvent) => {
-    if (disabled) return;
-    dragging.current = true;
-    (e.currentTarget as Element).setPointerCapture(e.pointerId);
-    setFromPointer(e.clientX, e.clientY);
+function DialImpl<V extends DialValue = number>(
+  props: DialProps<V>,
+  ref: React.ForwardedRef<DialHandle<V>>
+) {
+  const { label, disabled, classNames = {}, styles = {} } = props;
+  const dial = useDial(props);
+  useImperativeHandle(ref, () => ({
+    focus: dial.focus,
+    reset: dial.reset,
+    setValue: dial.setValue,
+  }));
+  const { size, center, stroke, isRange } = dial;
+  const cls = (slot: DialSlot) => {
+    const base = slot === 'root' ? 'vizctrl-dial' : `vizctrl-dial__${slot}`;
+    return classNames[slot] ? `${base} ${classNames[slot]}` : base;
   };
-
-  // keyboard handling
-  const coarse = Math.max(step * 10, step);
-  const onKeyDown = (e: React.KeyboardEvent) => {
-    if (disabled) return;
-    let next = value;
-    const delta = e.shiftKey ? coarse : step;
-    switch (e.key) {
-      case 'ArrowRight':
-      case 'ArrowUp':
-        next = clamp(value + delta);
-        break;
-      case 'ArrowLeft':
-      case 'ArrowDown':
-        next = clamp(value - delta);
-        break;
-      case 'PageUp':
-        next = clamp(value + coarse);
-        break;
-      case 'PageDown':
-        next = clamp(value - coarse);
-        break;
-      case 'Home':
-        next = min;
-        break;
-      case 'End':
-        next = max;
-        break;
-      default:
-        return;
-    }
-    e.preventDefault();
-    onChange(next);
-  };
-
-  // tick generation
-  const tickEls = useMemo(() => {
-    if (!ticks) return null;
-    const { every, majorEvery = every * 5 } = ticks;
-    const els: JSX.Element[] = [];
-    for (let v = min; v <= max + 1e-9; v += every) {
-      const a = angleFromValue(v);
-      const inner = radius - stroke - 6;
-      const outer = inner + (v % majorEvery === 0 ? 12 : 6);
-      const p1 = polar(center, inner, a);
-      const p2 = polar(center, outer, a);
-      els.push(
-        <line
-          key={v}
-          x1={p1.x}
-          y1={p1.y}
-          x2={p2.x}
-          y2={p2.y}
-          stroke="currentColor"
-          strokeWidth={1}
-          opacity={0.6}
-        />
-      );
-    }
-    return els;
-  }, [ticks, min, max, radius, stroke, angleFromValue]);
-
-  const valText = formatValue(value);
+  const rootProps = dial.getRootProps();
 
   return (
     <div
-      className="vizctrl-dial"
-      style={{ display: 'inline-flex', flexDirection: 'column', alignItems: 'center' }}
+      className={cls('root')}
+      style={{ display: 'inline-flex', flexDirection: 'column', alignItems: 'center', ...styles.root }}
     >
-      {label && <label htmlFor={id} style={{ marginBottom: 8 }}>{label}</label>}
+      {label && (
+        <label
+          id={dial.labelId}
+          htmlFor={isRange ? undefined : rootProps.id}
+          className={cls('label')}
+          style={{ marginBottom: 8, ...styles.label }}
+        >
+          {label}
+        </label>
+      )}
       <svg
-        ref={ref}
-        id={id}
         width={size}
         height={size}
-        role="slider"
-        aria-label={ariaLabel || label}
-        aria-valuemin={min}
-        aria-valuemax={max}
-        aria-valuenow={value}
-        aria-valuetext={valText}
-        tabIndex={disabled ? -1 : 0}
-        onPointerDown={onPointerDown}
-        onKeyDown={onKeyDown}
-        style={{ touchAction: 'none', cursor: disabled ? 'not-allowed' : 'pointer' }}
+        {...rootProps}
+        className={cls('svg')}
+        style={{ touchAction: 'none', cursor: disabled ? 'not-allowed' : 'pointer', ...styles.svg }}
       >
         {/* track */}
         <path
-          d={describeArc(startAngle, endAngle)}
-          stroke="#ddd"
-          strokeWidth={stroke}
-          fill="none"
-          strokeLinecap="round"
-        />
-        {/* filled arc */}
-        <path
-          d={describeArc(startAngle, angle)}
-          stroke="#555"
+          d={dial.trackPath}
+          stroke={themeColor('track')}
           strokeWidth={stroke}
           fill="none"
           strokeLinecap="round"
+          className={cls('track')}
+          style={styles.track}
         />
+        {/* filled arc, or the band between the thumbs in range mode */}
+        {dial.fillPath && (
+          <path
+            d={dial.fillPath}
+            stroke={themeColor('fill')}
+            strokeWidth={stroke}
+            fill="none"
+            strokeLinecap="round"
+            className={cls('fill')}
+            style={styles.fill}
+          />
+        )}
+        {/* bands, drawn just inside the track */}
+        {dial.bands.map(({ band, path }, i) => (
+          <path
+            key={`band-${i}`}
+            d={path}
+            stroke={band.color ?? themeColor(band.zone)}
+            strokeWidth={4}
+            fill="none"
+            className={`${cls('band')} vizctrl-dial__band--${band.zone}`}
+            style={styles.band}
+          />
+        ))}
         {/* ticks */}
-        {tickEls}
-        {/* thumb */}
-        {(() => {
-          const p = polar(center, radius - stroke / 2, angle);
-          return <circle cx={p.x} cy={p.y} r={stroke / 2 + 2} fill="#111" />;
-        })()}
+        {dial.ticks.map((t) => (
+          <line
+            key={t.value}
+            x1={t.x}
+            y1={t.y}
+            x2={t.x2}
+            y2={t.y2}
+            stroke={themeColor('tick')}
+            strokeWidth={1}
+            opacity={0.6}
+            className={cls('tick')}
+            style={styles.tick}
+          />
+        ))}
+        {dial.labels.map((l) => (
+          <text
+            key={`${l.value}-${l.text}`}
+            x={l.x}
+            y={l.y}
+            textAnchor="middle"
+            dominantBaseline="central"
+            fill={themeColor('text')}
+            fontFamily={themeFont}
+            fontSize="12"
+            aria-hidden="true"
+            className={cls('tickLabel')}
+            style={styles.tickLabel}
+          >
+            {l.text}
+          </text>
+        ))}
+        {/* bugs */}
+        {dial.bugs.map(({ bug, points }, i) => (
+          <polygon
+            key={`bug-${i}`}
+            points={points}
+            fill={bug.color ?? themeColor('bug')}
+            className={cls('bug')}
+            style={styles.bug}
+          >
+            {bug.label && <title>{bug.label}</title>}
+          </polygon>
+        ))}
+        {/* thumbs */}
+        {dial.thumbs.map((t, i) => (
+          <circle
+            key={i}
+            cx={t.x}
+            cy={t.y}
+            r={stroke / 2 + 2}
+            fill={themeColor('thumb')}
+            {...dial.getThumbProps(i)}
+            className={cls('thumb')}
+            style={styles.thumb}
+          />
+        ))}
         {/* value readout */}
         <text
           x={center.x}
           y={center.y + 6}
           textAnchor="middle"
-          fontFamily="system-ui, sans-serif"
-          fontSize="16"
+          fill={themeColor('text')}
+          fontFamily={themeFont}
+          fontSize={isRange ? 13 : 16}
+          className={cls('value')}
+          style={styles.value}
         >
-          {valText}
+          {dial.valueText}
         </text>
       </svg>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// forwardRef drops the type parameter; restore it for callers
+const Dial = forwardRef(DialImpl) as <V extends DialValue = number>(
+  props: DialProps<V> & { ref?: React.Ref<DialHandle<V>> }
+) => JSX.Element;
+
+export default Dial;
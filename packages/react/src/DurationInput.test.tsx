@@ -1,6 +1,7 @@
 import React from 'react';
-import { render } from '@testing-library/react';
+import { fireEvent, render } from '@testing-library/react';
 import { axe, toHaveNoViolations } from 'jest-axe';
+import { vi } from 'vitest';
 import { DurationInput } from './DurationInput';
 import '@testing-library/jest-dom';
 
@@ -10,4 +11,28 @@ test('DurationInput is accessible', async () => {
   const { container } = render(<DurationInput value={3661} onChange={() => {}} />);
   const results = await axe(container);
   expect(results).toHaveNoViolations();
-});
\ No newline at end of file
+});
+test('DurationInput carries into the next segment and normalises typed values', () => {
+  const onChange = vi.fn();
+  const { getByLabelText, getByRole } = render(<DurationInput defaultValue={59 * 60} onChange={onChange} />);
+  const minutes = getByLabelText('Minutes');
+
+  fireEvent.keyDown(minutes, { key: 'ArrowUp' });
+  expect(onChange).toHaveBeenLastCalledWith(3600);
+  expect(getByLabelText('Hours')).toHaveValue('1');
+  expect(minutes).toHaveValue('0');
+
+  fireEvent.change(minutes, { target: { value: '90' } });
+  fireEvent.blur(minutes);
+  expect(onChange).toHaveBeenLastCalledWith(9000);
+  expect(getByLabelText('Hours')).toHaveValue('2');
+  expect(minutes).toHaveValue('30');
+
+  fireEvent.change(minutes, { target: { value: 'PT1H15M' } });
+  fireEvent.keyDown(minutes, { key: 'Enter' });
+  expect(onChange).toHaveBeenLastCalledWith(4500);
+
+  fireEvent.change(minutes, { target: { value: 'soon' } });
+  fireEvent.blur(minutes);
+  expect(getByRole('alert')).toHaveTextContent('"soon" is not a recognised duration');
+});
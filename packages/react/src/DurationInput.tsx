@@ -1,100 +1,176 @@
-import React from 'react';
+import React, { forwardRef, useId, useImperativeHandle, useRef, useState } from 'react';
+import {
+  DurationFormat,
+  DurationSegment,
+  durationSegmentSeconds,
+  formatDuration,
+  joinDuration,
+  orderSegments,
+  parseDuration,
+  splitDuration,
+} from '@vizctrl/core';
+import { themeColor } from './theme';
+import { SegmentField } from './SegmentField';
+import { ChangeEvents, ControlHandle, useControllableState } from './useControllableState';
+import { FormFieldProps, useFormField } from './form';
 
-export interface DurationInputProps {
+export interface DurationInputProps extends ChangeEvents<number>, FormFieldProps<number> {
   /**
-   * Duration in seconds. Always non-negative.
+   * Duration in seconds. Always non-negative. Omit to leave the
+   * control uncontrolled.
    */
-  value: number;
+  value?: number;
+  /** Initial duration of an uncontrolled control. Defaults to `min`. */
+  defaultValue?: number;
   /**
    * Called when the duration changes.
    */
-  onChange: (s: number) => void;
+  onChange?: (s: number) => void;
+  /** Segments to edit, in any order. Default hours, minutes and seconds. */
+  segments?: DurationSegment[];
+  /** Shortest allowed duration in seconds. Default 0. */
+  min?: number;
+  /** Longest allowed duration in seconds. Unbounded by default. */
+  max?: number;
+  /** Quick-select durations in seconds, shown as buttons. */
+  presets?: number[];
+  /**
+   * How the value is submitted with a form: a number of seconds, ISO
+   * 8601 (`PT1H30M`) or compact text (`1h30m`). Default `'seconds'`.
+   */
+  valueFormat?: 'seconds' | DurationFormat;
   /** Optional label displayed above the control. */
   label?: string;
 }
 
+const segmentNames: Record<DurationSegment, { name: string; suffix: string }> = {
+  days: { name: 'Days', suffix: 'd' },
+  hours: { name: 'Hours', suffix: 'h' },
+  minutes: { name: 'Minutes', suffix: 'm' },
+  seconds: { name: 'Seconds', suffix: 's' },
+  milliseconds: { name: 'Milliseconds', suffix: 'ms' },
+};
+
 /**
- * Duration picker allowing editing hours, minutes and seconds. Each
- * segment supports arrow keys and mouse wheel to increment/decrement.
+ * Duration picker with one field per segment. The arrow keys, wheel and
+ * buttons step a segment and carry into or borrow from the others, so
+ * one minute up from 0h59m is 1h00m. Typed entries are normalised when
+ * the segment loses focus or on Enter: 90 minutes becomes 1h30m, 1.5
+ * hours carries the half hour down, and a negative entry borrows. A
+ * whole duration can be typed or pasted into any segment as ISO 8601
+ * (`PT1H30M`), compact text (`1h30m`) or a clock (`1:30:00`). The
+ * result is kept between `min` and `max`.
  */
-export function DurationInput({ value, onChange, label = 'Duration' }: DurationInputProps) {
-  const hours = Math.floor(value / 3600);
-  const minutes = Math.floor((value % 3600) / 60);
-  const seconds = value % 60;
+export const DurationInput = forwardRef(function DurationInput(
+  {
+    value: valueProp,
+    defaultValue,
+    onChange,
+    onChangeStart,
+    onChangeCommitted,
+    name,
+    form,
+    required,
+    validate,
+    error,
+    segments = ['hours', 'minutes', 'seconds'],
+    min = 0,
+    max = Infinity,
+    presets = [],
+    valueFormat = 'seconds',
+    label = 'Duration',
+  }: DurationInputProps,
+  ref: React.ForwardedRef<ControlHandle<number>>
+) {
+  const [value, setValue, reset] = useControllableState(valueProp, defaultValue ?? min, onChange);
+  const first = useRef<HTMLInputElement>(null);
+  useImperativeHandle(ref, () => ({ focus: () => first.current?.focus(), reset, setValue }));
+  const id = useId();
+  // why the last typed entry was rejected
+  const [problem, setProblem] = useState<string | null>(null);
 
-  const setParts = (h: number, m: number, s: number) => {
-    const total = Math.max(0, h * 3600 + m * 60 + s);
-    onChange(total);
+  const ordered = orderSegments(segments);
+  const smallest = durationSegmentSeconds[ordered[ordered.length - 1]];
+  const parts = splitDuration(value, ordered);
+
+  // round to the smallest segment, then keep within the bounds
+  const clamp = (s: number) =>
+    Math.min(max, Math.max(min, 0, +(Math.round(s / smallest) * smallest).toFixed(3)));
+  // every edit is a complete change on its own
+  const commit = (seconds: number) => {
+    const next = clamp(seconds);
+    if (next === value) return;
+    onChangeStart?.(value);
+    setValue(next);
+    onChangeCommitted?.(next);
   };
+  const step = (segment: DurationSegment, by: number) =>
+    commit(value + by * durationSegmentSeconds[segment]);
 
-  return (
-    <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
-      <label>{label}</label>
-      <div style={{ display: 'flex', gap: 4 }}>
-        <Segment
-          label="h"
-          value={hours}
-          onChange={(n) => setParts(n, minutes, seconds)}
-          onIncrement={() => setParts(hours + 1, minutes, seconds)}
-          onDecrement={() => setParts(Math.max(0, hours - 1), minutes, seconds)}
-        />
-        <Segment
-          label="m"
-          value={minutes}
-          onChange={(n) => setParts(hours, n, seconds)}
-          onIncrement={() => setParts(hours, (minutes + 1) % 60, seconds)}
-          onDecrement={() => setParts(hours, minutes > 0 ? minutes - 1 : 59, seconds)}
-        />
-        <Segment
-          label="s"
-          value={seconds}
-          onChange={(n) => setParts(hours, minutes, n)}
-          onIncrement={() => setParts(hours, minutes, (seconds + 1) % 60)}
-          onDecrement={() => setParts(hours, minutes, seconds > 0 ? seconds - 1 : 59)}
-        />
-      </div>
-    </div>
+  const problemId = `${id}-problem`;
+  const field = useFormField(
+    value,
+    { name, form, required, validate, error },
+    (v) => (valueFormat === 'seconds' ? String(v) : formatDuration(v, valueFormat)),
+    () => first.current?.focus()
   );
-}
 
-function Segment({
-  label,
-  value,
-  onChange,
-  onIncrement,
-  onDecrement,
-}: {
-  label: string;
-  value: number;
-  onChange: (n: number) => void;
-  onIncrement: () => void;
-  onDecrement: () => void;
-}) {
   return (
-    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
-      <button type="button" onClick={onIncrement} aria-label={`Increase ${label}`}>
-        ▲
-      </button>
-      <input
-        type="number"
-        inputMode="numeric"
-        aria-label={label}
-        value={value}
-        onChange={(e) => onChange(Number(e.target.value))}
-        onKeyDown={(e) => {
-          if (e.key === 'ArrowUp') onIncrement();
-          if (e.key === 'ArrowDown') onDecrement();
-        }}
-        onWheel={(e) => {
-          e.preventDefault();
-          if (e.deltaY < 0) onIncrement();
-          else onDecrement();
-        }}
-        style={{ width: 50, textAlign: 'center' }}
-      />
-      <button type="button" onClick={onDecrement} aria-label={`Decrease ${label}`}>
-        ▼
-      </button>
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+      <span id={`${id}-label`}>{label}</span>
+      <div role="group" aria-labelledby={`${id}-label`} style={{ display: 'flex', gap: 4 }}>
+        {ordered.map((segment, i) => (
+          <SegmentField
+            key={segment}
+            inputRef={i === 0 ? first : undefined}
+            name={segmentNames[segment].name}
+            suffix={segmentNames[segment].suffix}
+            text={String(parts[segment])}
+            width={segment === 'milliseconds' ? 56 : 50}
+            onCommit={(text) => {
+              // a plain number replaces this segment; anything else is a whole duration
+              const plain = text.trim().replace('−', '-').replace(',', '.');
+              try {
+                commit(
+                  /^-?\d*\.?\d+$/.test(plain)
+                    ? joinDuration({ ...parts, [segment]: Number(plain) })
+                    : parseDuration(text)
+                );
+                setProblem(null);
+                return true;
+              } catch (e) {
+                setProblem((e as Error).message);
+                return false;
+              }
+            }}
+            onEdit={() => setProblem(null)}
+            invalid={field.invalid || !!problem}
+            describedBy={[problem ? problemId : undefined, field.describedBy].filter(Boolean).join(' ') || undefined}
+            onStep={(by) => step(segment, by)}
+          />
+        ))}
+      </div>
+      {problem && (
+        <div
+          id={problemId}
+          role="alert"
+          className="vizctrl-error"
+          style={{ color: themeColor('warning'), fontSize: 12 }}
+        >
+          {problem}
+        </div>
+      )}
+      {presets.length > 0 && (
+        <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+          {presets.map((p) => (
+            <button key={p} type="button" onClick={() => commit(p)}>
+              {formatDuration(p, 'compact')}
+            </button>
+          ))}
+        </div>
+      )}
+      {field.inputs}
+      {field.message}
     </div>
   );
-}
\ No newline at end of file
+});
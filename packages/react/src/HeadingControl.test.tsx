@@ -10,4 +10,11 @@ test('HeadingControl is accessible', async () => {
   const { container } = render(<HeadingControl value={90} onChange={() => {}} />);
   const results = await axe(container);
   expect(results).toHaveNoViolations();
-});
\ No newline at end of file
+});
+
+test('HeadingControl shows true and magnetic headings when declination is known', () => {
+  const { getByText } = render(
+    <HeadingControl value={90} onChange={() => {}} reference="true" declination={13} />
+  );
+  expect(getByText('090°T / 077°M')).toBeInTheDocument();
+});
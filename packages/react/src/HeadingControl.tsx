@@ -1,72 +1,170 @@
-import React from 'react';
-import Dial from './Dial';
+import React, { forwardRef, useImperativeHandle, useRef } from 'react';
+import Dial, { DialHandle } from './Dial';
+import {
+  angularDistance,
+  magneticDeclination,
+  magneticToTrue,
+  nearestAngle,
+  normalizeDegrees,
+  trueToMagnetic,
+} from '@vizctrl/core';
+import { ChangeEvents, ControlHandle, useControllableState } from './useControllableState';
+import { FormFieldProps, useFormField } from './form';
 
-export interface HeadingControlProps {
+export type HeadingReference = 'true' | 'magnetic';
+
+export interface HeadingControlProps extends ChangeEvents<number>, FormFieldProps<number> {
   /**
    * Current heading in degrees. Should be between 0 and 359 inclusive.
+   * Interpreted relative to `reference`. Omit to leave the control
+   * uncontrolled.
    */
-  value: number;
+  value?: number;
+  /** Initial heading of an uncontrolled control. Defaults to 0. */
+  defaultValue?: number;
   /**
    * Called when the heading changes. Provided value will be normalised
    * into the [0, 360) range.
    */
-  onChange: (deg: number) => void;
+  onChange?: (deg: number) => void;
   /** Step increment when using keyboard/wheel. */
   step?: number;
   /** Snap heading to cardinal points (N/E/S/W) when close. */
   snap?: boolean;
   /** Optional label displayed above the dial. */
   label?: string;
+  /** North reference of `value`. Default `'true'`. */
+  reference?: HeadingReference;
+  /**
+   * Magnetic declination in degrees, east positive. Takes precedence
+   * over `position`.
+   */
+  declination?: number;
+  /**
+   * Position as [longitude, latitude] used to look up the declination
+   * from the embedded World Magnetic Model.
+   */
+  position?: [number, number];
+  /** Date for the magnetic model lookup. Defaults to now. */
+  date?: Date;
 }
 
+const compassLabels = ['N', 'E', 'S', 'W'].map((text, i) => ({ value: i * 90, text }));
+
 /**
- * Compass-style heading control. Builds upon the `Dial` primitive to
- * represent a 0–359 degree heading. Optionally snaps to cardinal
- * directions and offers quick-select buttons.
+ * Compass-style heading control. Builds upon the `Dial` primitive in
+ * wrap mode to draw a compass rose with north at the top, representing
+ * a 0–359 degree heading that wraps across north. Optionally snaps to cardinal
+ * directions and offers quick-select buttons. When a declination is
+ * known, the heading is shown against both true and magnetic north.
  */
-export function HeadingControl({
-  value,
-  onChange,
-  step = 1,
-  snap = false,
-  label = 'Heading',
-}: HeadingControlProps) {
-  const handleChange = (v: number) => {
-    let deg = ((v % 360) + 360) % 360;
+export const HeadingControl = forwardRef(function HeadingControl(
+  {
+    value: valueProp,
+    defaultValue = 0,
+    onChange,
+    onChangeStart,
+    onChangeCommitted,
+    name,
+    form,
+    required,
+    validate,
+    error,
+    step = 1,
+    snap = false,
+    label = 'Heading',
+    reference = 'true',
+    declination,
+    position,
+    date,
+  }: HeadingControlProps,
+  ref: React.ForwardedRef<ControlHandle<number>>
+) {
+  const [value, setValue, reset] = useControllableState(valueProp, defaultValue, onChange);
+  const dial = useRef<DialHandle>(null);
+  useImperativeHandle(ref, () => ({ focus: () => dial.current?.focus(), reset, setValue }));
+
+  const variation =
+    declination ?? (position ? magneticDeclination(position, { date }) : undefined);
+
+  const toHeading = (v: number) => {
+    let deg = normalizeDegrees(v);
     if (snap) {
-      const cardinals = [0, 90, 180, 270];
-      const closest = cardinals.reduce((acc, cur) => (Math.abs(cur - deg) < Math.abs(acc - deg) ? cur : acc), cardinals[0]);
-      if (Math.abs(closest - deg) < step) deg = closest;
+      const closest = nearestAngle(deg, [0, 90, 180, 270]);
+      if (angularDistance(closest, deg) < step) deg = closest;
     }
-    onChange(deg);
+    return deg;
   };
 
-  const formatValue = (v: number) => `${Math.round(((v % 360) + 360) % 360)}°`;
+  const suffix = reference === 'magnetic' ? 'M' : 'T';
+  const formatValue = (v: number) =>
+    `${Math.round(normalizeDegrees(v))}°${variation === undefined ? '' : ` ${suffix}`}`;
+
+  let both: { true: number; magnetic: number } | undefined;
+  if (variation !== undefined) {
+    both =
+      reference === 'magnetic'
+        ? { true: magneticToTrue(value, variation), magnetic: normalizeDegrees(value) }
+        : { true: normalizeDegrees(value), magnetic: trueToMagnetic(value, variation) };
+  }
+
+  const field = useFormField(
+    value,
+    { name, form, required, validate, error },
+    String,
+    () => dial.current?.focus()
+  );
 
   return (
     <div style={{ display: 'grid', gap: 8 }}>
       <Dial
+        ref={dial}
+        ariaDescribedBy={field.describedBy}
+        invalid={field.invalid}
         value={value}
-        onChange={handleChange}
+        onChange={(v) => setValue(toHeading(v))}
+        onChangeStart={() => onChangeStart?.(value)}
+        onChangeCommitted={(v) => onChangeCommitted?.(toHeading(v))}
         min={0}
-        max={359}
+        max={360}
         step={step}
-        startAngle={-Math.PI * 0.75}
-        endAngle={Math.PI * 0.75}
+        wrap
+        zeroAngle={-Math.PI / 2}
+        direction="cw"
         label={label}
         formatValue={formatValue}
         ticks={{ every: 10, majorEvery: 90 }}
+        labels={compassLabels}
       />
+      {both && (
+        <output style={{ textAlign: 'center' }}>
+          {pad(both.true)}°T / {pad(both.magnetic)}°M
+        </output>
+      )}
       <div style={{ display: 'flex', gap: 6, justifyContent: 'center' }}>
         {['N', 'E', 'S', 'W'].map((d, i) => {
           const deg = i * 90;
           return (
-            <button key={d} type="button" onClick={() => onChange(deg)}>
+            <button
+              key={d}
+              type="button"
+              onClick={() => {
+                onChangeStart?.(value);
+                setValue(deg);
+                onChangeCommitted?.(deg);
+              }}
+            >
               {d}
             </button>
           );
         })}
       </div>
+      {field.inputs}
+      {field.message}
     </div>
   );
-}
\ No newline at end of file
+});
+
+function pad(deg: number) {
+  return String(Math.round(deg) % 360).padStart(3, '0');
+}
@@ -0,0 +1,35 @@
+import React from 'react';
+import { fireEvent, render } from '@testing-library/react';
+import { axe, toHaveNoViolations } from 'jest-axe';
+import { vi } from 'vitest';
+import { createQuantityControl } from './QuantityControl';
+import '@testing-library/jest-dom';
+
+expect.extend(toHaveNoViolations);
+
+const DistanceControl = createQuantityControl({
+  dimension: 'length',
+  units: ['nm', 'km'],
+  defaults: { nm: { max: 250, step: 1 } },
+  name: 'Distance',
+});
+
+test('createQuantityControl builds an accessible control from a configuration', async () => {
+  const { container, getByRole } = render(
+    <DistanceControl defaultValue={{ value: 100, unit: 'nm' }} presets={[{ value: 50, unit: 'km' }]} />
+  );
+  expect(getByRole('radio', { name: 'NM' })).toHaveAttribute('aria-checked', 'true');
+  expect(getByRole('slider', { name: 'Distance' })).toHaveAttribute('aria-valuemax', '250');
+  const results = await axe(container);
+  expect(results).toHaveNoViolations();
+});
+
+test('createQuantityControl derives the range of other units from the registry', () => {
+  const onChange = vi.fn();
+  const { getByRole } = render(<DistanceControl defaultValue={{ value: 100, unit: 'nm' }} onChange={onChange} />);
+
+  fireEvent.click(getByRole('radio', { name: 'km' }));
+  expect(onChange).toHaveBeenLastCalledWith({ value: 185.2, unit: 'km' });
+  // 250 NM is 463 km, on a 2 km step
+  expect(getByRole('slider', { name: 'Distance' })).toHaveAttribute('aria-valuemax', '464');
+});
@@ -0,0 +1,531 @@
+import React, { forwardRef, useImperativeHandle, useRef } from 'react';
+import {
+  DimensionOf,
+  Quantity,
+  ScaleSpec,
+  Unit,
+  convert,
+  formatQuantity,
+  getUnit,
+  roundToStep,
+  scaleInUnit,
+  unitsOf,
+} from '@vizctrl/core';
+import { themeColor } from './theme';
+import Dial, { DialHandle, DialZone } from './Dial';
+import { QuantityField } from './QuantityField';
+import { Tape } from './Tape';
+import { ChangeEvents, ControlHandle, useControllableState } from './useControllableState';
+import { FormFieldProps, serializeQuantity, useFormField } from './form';
+
+/** Range, step and tick spacing of a quantity control in one unit. */
+export interface QuantityUnitDefaults {
+  /** Smallest value. Default 0. */
+  min?: number;
+  max: number;
+  step: number;
+  /** Dial ticks. Defaults to a tick every 10 steps and a major tick every 50. */
+  ticks?: { every: number; majorEvery?: number };
+  /** Tape ticks, which sit closer together. Defaults to `ticks`. */
+  tapeTicks?: { every: number; majorEvery?: number };
+}
+
+/**
+ * Describes a family of quantity controls. Everything not given is
+ * derived from the core unit registry: the units offered, their
+ * symbols in the unit toggle, and the range and step of units without
+ * `defaults`, converted from those of `defaultUnit`.
+ */
+export interface QuantityControlConfig<U extends Unit> {
+  /** Dimension of the quantity, e.g. `'speed'`. */
+  dimension: DimensionOf<U>;
+  /** Units offered by the toggle. Defaults to every registered unit of the dimension. */
+  units?: U[];
+  /** Unit of the default value. Defaults to the first of `units`. */
+  defaultUnit?: U;
+  /** Range, step and ticks per unit. */
+  defaults?: Partial<Record<U, QuantityUnitDefaults>>;
+  /** Readout text. Defaults to `formatQuantity` without decimals. */
+  format?: (q: Quantity<U>, locale?: string) => string;
+  /** What is measured, e.g. `Speed`. Names the unit toggle. */
+  name: string;
+  /** Default label of the control. Defaults to `name`. */
+  label?: string;
+  /** Default of range controls, in `defaultUnit`. Defaults to the whole range. */
+  defaultRange?: [number, number];
+  /** Tape presentation: width in pixels and the visible fraction of the range. */
+  tape?: { width?: number; span?: number };
+}
+
+export interface QuantityControlProps<U extends Unit, V extends Quantity<U> = Quantity<U>>
+  extends ChangeEvents<V>,
+    FormFieldProps<V> {
+  /**
+   * Current quantity. The numeric value corresponds to the unit. Omit
+   * to leave the control uncontrolled.
+   */
+  value?: V;
+  /** Initial quantity of an uncontrolled control. Defaults to the minimum of the default unit. */
+  defaultValue?: V;
+  /** Called when the quantity changes. The unit will match the current `value.unit`. */
+  onChange?: (q: V) => void;
+  /** Minimum allowed value. Units need not match current. */
+  min?: Quantity<U>;
+  /** Maximum allowed value. Units need not match current. */
+  max?: Quantity<U>;
+  /** Step increment, expressed in the current unit. */
+  step?: number;
+  /** Optional presets. Units need not match current. */
+  presets?: Array<Quantity<U>>;
+  /** Locale for the readout and numeric entry. Defaults to the runtime locale. */
+  locale?: string;
+  /** Optional label. */
+  label?: string;
+  /**
+   * How values are spread around the dial. Default linear; `'log'` or
+   * piecewise breakpoints give low values more room.
+   */
+  scale?: ScaleSpec<Quantity<U>>;
+  /** Coloured ranges such as caution or warning zones. Units need not match current. */
+  bands?: Array<{ from: Quantity<U>; to: Quantity<U>; zone: DialZone; label?: string }>;
+  /** Target markers. Units need not match current. */
+  bugs?: Array<{ value: Quantity<U>; label?: string }>;
+  /** Draw a round dial or a vertical tape as on a primary flight display. Default `'dial'`. */
+  variant?: 'dial' | 'tape';
+}
+
+/**
+ * Extension points for controls whose value carries more than a
+ * quantity, such as the reference of an altitude. Extra fields of the
+ * value are kept through edits and unit changes.
+ */
+export interface QuantityControlExtensions<V> {
+  /** Readout of a value. Overrides the config's `format`. */
+  formatValue?: (value: V) => string;
+  /** Form value. Defaults to the number and unit, e.g. `1000 ft`. */
+  serialize?: (value: V) => string | string[];
+  /** Extra controls rendered after the unit toggle. */
+  toolbar?: (value: V, commit: (next: V) => void) => React.ReactNode;
+}
+
+export type QuantityRangeValue<U extends Unit> = [Quantity<U>, Quantity<U>];
+
+export interface QuantityRangeControlProps<U extends Unit>
+  extends ChangeEvents<QuantityRangeValue<U>>,
+    FormFieldProps<QuantityRangeValue<U>> {
+  /**
+   * Current range as `[low, high]`. Both ends share the unit of `low`.
+   * Omit to leave the control uncontrolled.
+   */
+  value?: QuantityRangeValue<U>;
+  /** Initial range of an uncontrolled control. */
+  defaultValue?: QuantityRangeValue<U>;
+  /** Called when either end of the range changes. Both ends use the current unit. */
+  onChange?: (range: QuantityRangeValue<U>) => void;
+  /** Minimum allowed value. Units need not match current. */
+  min?: Quantity<U>;
+  /** Maximum allowed value. Units need not match current. */
+  max?: Quantity<U>;
+  /** Step increment, expressed in the current unit. */
+  step?: number;
+  /** Smallest allowed range width. Defaults to 0. */
+  minGap?: Quantity<U>;
+  /** Locale for the readout and numeric entry. Defaults to the runtime locale. */
+  locale?: string;
+  /** Optional label. */
+  label?: string;
+  /**
+   * How values are spread around the dial. Default linear; `'log'` or
+   * piecewise breakpoints give low values more room.
+   */
+  scale?: ScaleSpec<Quantity<U>>;
+}
+
+type Limits = Required<Pick<QuantityUnitDefaults, 'min' | 'max' | 'step'>> &
+  Pick<QuantityUnitDefaults, 'ticks' | 'tapeTicks'>;
+
+// convert between units the caller has already checked share a dimension
+function toUnit<U extends Unit>(q: Quantity<U>, unit: U): Quantity<U> {
+  return q.unit === unit ? q : convert(q, unit);
+}
+
+// 1, 2 or 5 times a power of ten, nearest to `v`
+function niceStep(v: number) {
+  const p = Math.pow(10, Math.floor(Math.log10(v)));
+  const m = v / p;
+  return +((m < 1.5 ? 1 : m < 3.5 ? 2 : m < 7.5 ? 5 : 10) * p).toPrecision(1);
+}
+
+function resolveConfig<U extends Unit>(config: QuantityControlConfig<U>) {
+  const units = config.units ?? unitsOf<U>(config.dimension);
+  const defaultUnit = config.defaultUnit ?? units[0];
+  const limits = (unit: U): Limits => {
+    const own = config.defaults?.[unit];
+    if (own) return { min: 0, ...own };
+    const base = config.defaults?.[defaultUnit] ?? { max: 100, step: 1 };
+    const step = niceStep(toUnit({ value: base.step, unit: defaultUnit }, unit).value);
+    const at = (v: number) => roundToStep(toUnit({ value: v, unit: defaultUnit }, unit).value, step);
+    return { min: at(base.min ?? 0), max: at(base.max), step };
+  };
+  const format =
+    config.format ?? ((q: Quantity<U>, locale?: string) => formatQuantity(q, { locale, precision: 0 }));
+  return { units, defaultUnit, limits, format };
+}
+
+// whole numbers for coarse steps, the step's precision for fine ones
+const roundForStep = (v: number, step: number) => roundToStep(v, Math.min(1, step));
+
+/** Segmented switch between units, labelled with their registered symbols. */
+export function QuantityUnitToggle<U extends Unit>({
+  unit,
+  units,
+  label,
+  onChange,
+}: {
+  unit: U;
+  units: U[];
+  /** Accessible name, e.g. `Speed unit`. */
+  label: string;
+  onChange: (u: U) => void;
+}) {
+  return (
+    <div
+      role="radiogroup"
+      aria-label={label}
+      style={{ display: 'inline-flex', border: `1px solid ${themeColor('controlBorder')}`, borderRadius: 8, overflow: 'hidden' }}
+    >
+      {units.map((u) => (
+        <button
+          key={u}
+          type="button"
+          role="radio"
+          aria-checked={unit === u}
+          onClick={() => onChange(u)}
+          style={{
+            padding: '6px 10px',
+            background: unit === u ? themeColor('controlActiveBackground') : themeColor('controlBackground'),
+            color: unit === u ? themeColor('controlActiveText') : themeColor('controlText'),
+            border: 'none',
+          }}
+        >
+          {getUnit(u).symbol}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function QuantityControlImpl<U extends Unit, V extends Quantity<U> = Quantity<U>>(
+  {
+    config,
+    value: valueProp,
+    defaultValue,
+    onChange,
+    onChangeStart,
+    onChangeCommitted,
+    name,
+    form,
+    required,
+    validate,
+    error,
+    min,
+    max,
+    step,
+    presets = [],
+    locale,
+    label = config.label ?? config.name,
+    scale,
+    bands = [],
+    bugs = [],
+    variant = 'dial',
+    formatValue: formatProp,
+    serialize = serializeQuantity,
+    toolbar,
+  }: QuantityControlProps<U, V> & QuantityControlExtensions<V> & { config: QuantityControlConfig<U> },
+  ref: React.ForwardedRef<ControlHandle<V>>
+) {
+  const { units, defaultUnit, limits, format } = resolveConfig(config);
+  const [value, setValue, reset] = useControllableState(
+    valueProp,
+    defaultValue ?? ({ value: limits(defaultUnit).min, unit: defaultUnit } as V),
+    onChange
+  );
+  const gaugeRef = useRef<ControlHandle<number>>(null);
+  useImperativeHandle(ref, () => ({ focus: () => gaugeRef.current?.focus(), reset, setValue }));
+  // entries, presets and toggles change the value in one go
+  const commit = (q: V) => {
+    onChangeStart?.(value);
+    setValue(q);
+    onChangeCommitted?.(q);
+  };
+
+  const unit = value.unit as U;
+  const at = (n: number): V => ({ ...value, value: n });
+  const toCurrent = (q: Quantity<U>) => toUnit(q, unit);
+  const own = limits(unit);
+  const vmin = min ? toCurrent(min).value : own.min;
+  const vmax = max ? toCurrent(max).value : own.max;
+  const stp = step ?? own.step;
+  const ticks = own.ticks ?? { every: stp * 10, majorEvery: stp * 50 };
+
+  const formatValue = (v: number) => (formatProp ? formatProp(at(v)) : format({ value: v, unit }, locale));
+
+  const field = useFormField(value, { name, form, required, validate, error }, serialize, () =>
+    gaugeRef.current?.focus()
+  );
+
+  // props shared by the dial and tape presentations
+  const gauge = {
+    ref: gaugeRef,
+    ariaDescribedBy: field.describedBy,
+    invalid: field.invalid,
+    label,
+    value: value.value,
+    onChange: (n: number) => setValue(at(n)),
+    onChangeStart: () => onChangeStart?.(value),
+    onChangeCommitted: (n: number) => onChangeCommitted?.(at(n)),
+    min: vmin,
+    max: vmax,
+    step: stp,
+    formatValue,
+    bands: bands.map((b) => ({
+      from: toCurrent(b.from).value,
+      to: toCurrent(b.to).value,
+      zone: b.zone,
+      label: b.label,
+    })),
+    bugs: bugs.map((b) => ({ value: toCurrent(b.value).value, label: b.label })),
+  };
+
+  return (
+    <div style={{ display: 'grid', gap: 8 }}>
+      {variant === 'tape' ? (
+        <Tape
+          {...gauge}
+          width={config.tape?.width}
+          span={(vmax - vmin) * (config.tape?.span ?? 1 / 6)}
+          ticks={own.tapeTicks ?? ticks}
+          formatTick={(v) => new Intl.NumberFormat(locale).format(v)}
+        />
+      ) : (
+        <Dial
+          {...gauge}
+          ticks={ticks}
+          scale={scale && scaleInUnit(scale, unit)}
+        />
+      )}
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center', justifyContent: 'center' }}>
+        <QuantityUnitToggle
+          unit={unit}
+          units={units}
+          label={`${config.name} unit`}
+          onChange={(u) => commit({ ...value, ...toUnit(value, u) })}
+        />
+        {toolbar?.(value, commit)}
+        <QuantityField
+          ariaLabel={`${label} numeric`}
+          value={roundForStep(value.value, stp)}
+          unit={unit}
+          locale={locale}
+          min={vmin}
+          max={vmax}
+          onChange={(n) => commit(at(n))}
+          step={stp}
+        />
+      </div>
+      {presets.length > 0 && (
+        <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', justifyContent: 'center' }}>
+          {presets.map((p, i) => {
+            const pv = roundForStep(toCurrent(p).value, stp);
+            return (
+              <button key={i} type="button" onClick={() => commit(at(pv))}>
+                {formatValue(pv)}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      {field.inputs}
+      {field.message}
+    </div>
+  );
+}
+
+/**
+ * Quantity control configured by `config`: a dial or tape with a unit
+ * toggle, numeric entry and presets. Use `createQuantityControl` for a
+ * control with a fixed configuration; use this directly for the
+ * extension points.
+ */
+// forwardRef drops the type parameters; restore them for callers
+export const QuantityControl = forwardRef(QuantityControlImpl) as <
+  U extends Unit,
+  V extends Quantity<U> = Quantity<U>
+>(
+  props: QuantityControlProps<U, V> &
+    QuantityControlExtensions<V> & { config: QuantityControlConfig<U>; ref?: React.Ref<ControlHandle<V>> }
+) => JSX.Element;
+
+function QuantityRangeControlImpl<U extends Unit>(
+  {
+    config,
+    value: valueProp,
+    defaultValue,
+    onChange,
+    onChangeStart,
+    onChangeCommitted,
+    name,
+    form,
+    required,
+    validate,
+    error,
+    min,
+    max,
+    step,
+    minGap,
+    locale,
+    label = config.label ?? config.name,
+    scale,
+  }: QuantityRangeControlProps<U> & { config: QuantityControlConfig<U> },
+  ref: React.ForwardedRef<ControlHandle<QuantityRangeValue<U>>>
+) {
+  const { units, defaultUnit, limits, format } = resolveConfig(config);
+  const initial = limits(defaultUnit);
+  const [from, to] = config.defaultRange ?? [initial.min, initial.max];
+  const [value, setValue, reset] = useControllableState(
+    valueProp,
+    defaultValue ?? [
+      { value: from, unit: defaultUnit },
+      { value: to, unit: defaultUnit },
+    ],
+    onChange
+  );
+  const dial = useRef<DialHandle<[number, number]>>(null);
+  useImperativeHandle(ref, () => ({ focus: () => dial.current?.focus(), reset, setValue }));
+
+  const unit = value[0].unit as U;
+  const toCurrent = (q: Quantity<U>) => toUnit(q, unit);
+  const lo = value[0].value;
+  const hi = toCurrent(value[1]).value;
+
+  const own = limits(unit);
+  const vmin = min ? toCurrent(min).value : own.min;
+  const vmax = max ? toCurrent(max).value : own.max;
+  const stp = step ?? own.step;
+  const gap = minGap ? toCurrent(minGap).value : 0;
+
+  const range = (a: number, b: number): QuantityRangeValue<U> => [
+    { value: a, unit },
+    { value: b, unit },
+  ];
+  const commit = (next: QuantityRangeValue<U>) => {
+    onChangeStart?.(value);
+    setValue(next);
+    onChangeCommitted?.(next);
+  };
+  const formatValue = (v: number) => format({ value: v, unit }, locale);
+
+  const field = useFormField(
+    value,
+    { name, form, required, validate, error },
+    (v) => v.map(serializeQuantity),
+    () => dial.current?.focus()
+  );
+
+  return (
+    <div style={{ display: 'grid', gap: 8 }}>
+      <Dial
+        ref={dial}
+        ariaDescribedBy={field.describedBy}
+        invalid={field.invalid}
+        label={label}
+        value={[lo, hi]}
+        onChange={([a, b]) => setValue(range(a, b))}
+        onChangeStart={() => onChangeStart?.(value)}
+        onChangeCommitted={([a, b]) => onChangeCommitted?.(range(a, b))}
+        min={vmin}
+        max={vmax}
+        step={stp}
+        minGap={gap}
+        ticks={own.ticks ?? { every: stp * 10, majorEvery: stp * 50 }}
+        scale={scale && scaleInUnit(scale, unit)}
+        formatValue={formatValue}
+      />
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center', justifyContent: 'center' }}>
+        <QuantityUnitToggle
+          unit={unit}
+          units={units}
+          label={`${config.name} unit`}
+          onChange={(u) => commit([toUnit(value[0], u), toUnit(value[1], u)])}
+        />
+        <QuantityField
+          ariaLabel={`${label} lower`}
+          value={roundForStep(lo, stp)}
+          unit={unit}
+          locale={locale}
+          min={vmin}
+          max={hi - gap}
+          onChange={(n) => commit(range(n, hi))}
+          step={stp}
+        />
+        <QuantityField
+          ariaLabel={`${label} upper`}
+          value={roundForStep(hi, stp)}
+          unit={unit}
+          locale={locale}
+          min={lo + gap}
+          max={vmax}
+          onChange={(n) => commit(range(lo, n))}
+          step={stp}
+        />
+      </div>
+      {field.inputs}
+      {field.message}
+    </div>
+  );
+}
+
+/**
+ * Two-thumb variant of `QuantityControl` for ranges such as altitude
+ * blocks or speed windows, with numeric entry for each end.
+ */
+export const QuantityRangeControl = forwardRef(QuantityRangeControlImpl) as <U extends Unit>(
+  props: QuantityRangeControlProps<U> & {
+    config: QuantityControlConfig<U>;
+    ref?: React.Ref<ControlHandle<QuantityRangeValue<U>>>;
+  }
+) => JSX.Element;
+
+/**
+ * Create a quantity control with a fixed configuration, e.g. for
+ * distances:
+ *
+ *     const DistanceControl = createQuantityControl({
+ *       dimension: 'length',
+ *       units: ['nm', 'km', 'mi'],
+ *       defaults: { nm: { max: 250, step: 1 } },
+ *       name: 'Distance',
+ *     });
+ */
+export function createQuantityControl<U extends Unit>(config: QuantityControlConfig<U>) {
+  const Control = forwardRef(function Control(
+    props: QuantityControlProps<U>,
+    ref: React.ForwardedRef<ControlHandle<Quantity<U>>>
+  ) {
+    return <QuantityControl<U> {...props} config={config} ref={ref} />;
+  });
+  Control.displayName = `${config.name.replace(/\W/g, '')}Control`;
+  return Control;
+}
+
+/** Create a range control with a fixed configuration. See `createQuantityControl`. */
+export function createQuantityRangeControl<U extends Unit>(config: QuantityControlConfig<U>) {
+  const Control = forwardRef(function Control(
+    props: QuantityRangeControlProps<U>,
+    ref: React.ForwardedRef<ControlHandle<QuantityRangeValue<U>>>
+  ) {
+    return <QuantityRangeControl<U> {...props} config={config} ref={ref} />;
+  });
+  Control.displayName = `${config.name.replace(/\W/g, '')}RangeControl`;
+  return Control;
+}
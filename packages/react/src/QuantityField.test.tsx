@@ -0,0 +1,51 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { vi } from 'vitest';
+import { axe, toHaveNoViolations } from 'jest-axe';
+import { QuantityField } from './QuantityField';
+import '@testing-library/jest-dom';
+
+expect.extend(toHaveNoViolations);
+
+test('QuantityField is accessible', async () => {
+  const { container } = render(
+    <QuantityField value={100} unit="kmh" onChange={() => {}} step={5} ariaLabel="Speed" />
+  );
+  const results = await axe(container);
+  expect(results).toHaveNoViolations();
+});
+
+test('QuantityField converts typed units into its own unit', () => {
+  const onChange = vi.fn();
+  render(<QuantityField value={0} unit="kmh" onChange={onChange} step={5} locale="en" ariaLabel="Speed" />);
+  const input = screen.getByLabelText('Speed');
+  fireEvent.change(input, { target: { value: '35 kts' } });
+  fireEvent.keyDown(input, { key: 'Enter' });
+  expect(onChange).toHaveBeenCalledTimes(1);
+  expect(onChange.mock.calls[0][0]).toBeCloseTo(64.82);
+});
+
+test('QuantityField rejects values out of range instead of clamping', () => {
+  const onChange = vi.fn();
+  render(<QuantityField value={0} unit="ft" onChange={onChange} step={10} min={0} max={1000} locale="en" ariaLabel="Altitude" />);
+  const input = screen.getByLabelText('Altitude') as HTMLInputElement;
+  fireEvent.change(input, { target: { value: '1500' } });
+  fireEvent.blur(input);
+  expect(onChange).not.toHaveBeenCalled();
+  expect(input).toHaveAttribute('aria-invalid', 'true');
+  expect(input.validationMessage).toBe('Enter a value from 0 ft to 1,000 ft');
+});
+
+test('QuantityField arrow keys land on the step', () => {
+  const onChange = vi.fn();
+  const { rerender } = render(
+    <QuantityField value={0.2} unit="nm" onChange={onChange} step={0.1} min={0} locale="en" ariaLabel="Range" />
+  );
+  const input = screen.getByLabelText('Range');
+  fireEvent.keyDown(input, { key: 'ArrowUp' });
+  expect(onChange).toHaveBeenLastCalledWith(0.3);
+  rerender(<QuantityField value={0.30000000000000004} unit="nm" onChange={onChange} step={0.1} min={0} locale="en" ariaLabel="Range" />);
+  expect(input).toHaveValue('0.3');
+  fireEvent.keyDown(input, { key: 'ArrowDown' });
+  expect(onChange).toHaveBeenLastCalledWith(0.2);
+});
@@ -0,0 +1,106 @@
+import React, { useRef, useState } from 'react';
+import { Unit, convert, dimensionOf, formatQuantity, parseQuantity, roundToStep } from '@vizctrl/core';
+
+export interface QuantityFieldProps {
+  /** Current numeric value, expressed in `unit`. */
+  value: number;
+  /** Unit of `value`. Typed text in another unit is converted into it. */
+  unit: Unit;
+  /** Called with the new value in `unit` when the user commits an edit. */
+  onChange: (n: number) => void;
+  /** Step applied by the arrow keys. */
+  step: number;
+  /** Smallest accepted value, in `unit`. */
+  min?: number;
+  /** Largest accepted value, in `unit`. */
+  max?: number;
+  /** Locale used to display and read numbers. Defaults to the runtime locale. */
+  locale?: string;
+  ariaLabel?: string;
+}
+
+/**
+ * Text entry for a quantity. Accepts locale-formatted numbers with an
+ * optional unit suffix, e.g. `35 kts` or `1.200,5 ft`, and converts them
+ * into the field's unit. Edits are committed on Enter or blur; text that
+ * cannot be read is discarded and the last valid value restored. Values
+ * outside `min`/`max` are not committed: the text stays for correction
+ * and the field is marked invalid with a message.
+ */
+export function QuantityField({
+  value,
+  unit,
+  onChange,
+  step,
+  min = -Infinity,
+  max = Infinity,
+  locale,
+  ariaLabel,
+}: QuantityFieldProps) {
+  const input = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [invalid, setInvalid] = useState(false);
+  // fifteen significant digits show the rounded value without binary noise
+  const shown = new Intl.NumberFormat(locale, {
+    maximumSignificantDigits: 15,
+    useGrouping: false,
+  }).format(roundToStep(value, step));
+
+  const setValidity = (message: string) => {
+    input.current?.setCustomValidity(message);
+    setInvalid(!!message);
+  };
+
+  // returns false when the draft was rejected
+  const commit = () => {
+    if (draft === null) return true;
+    const q = parseQuantity(draft, locale, { dimension: dimensionOf(unit), defaultUnit: unit });
+    const n = q && convert(q, unit).value;
+    if (n !== null && (n < min || n > max)) {
+      const bound = (v: number) => formatQuantity({ value: v, unit }, { locale });
+      setValidity(
+        n < min && max === Infinity
+          ? `Enter at least ${bound(min)}`
+          : n > max && min === -Infinity
+          ? `Enter at most ${bound(max)}`
+          : `Enter a value from ${bound(min)} to ${bound(max)}`
+      );
+      return false;
+    }
+    setDraft(null);
+    setValidity('');
+    if (n !== null) onChange(n);
+    return true;
+  };
+  const revert = () => {
+    setDraft(null);
+    setValidity('');
+  };
+
+  return (
+    <input
+      ref={input}
+      type="text"
+      inputMode="decimal"
+      aria-label={ariaLabel}
+      aria-invalid={invalid || undefined}
+      value={draft ?? shown}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        setValidity('');
+      }}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' && !commit()) input.current?.reportValidity();
+        if (e.key === 'Escape') revert();
+        if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+          e.preventDefault();
+          revert();
+          const next = roundToStep(e.key === 'ArrowUp' ? value + step : value - step, step);
+          onChange(Math.min(max, Math.max(min, next)));
+        }
+      }}
+      style={{ width: 100 }}
+    />
+  );
+}
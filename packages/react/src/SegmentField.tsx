@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+
+export interface SegmentFieldProps {
+  inputRef?: React.Ref<HTMLInputElement>;
+  /** Accessible name, e.g. `Minutes`. */
+  name: string;
+  /** Short unit shown after the field, hidden from assistive technology. */
+  suffix?: string;
+  /** Text shown while the segment is not being edited. */
+  text: string;
+  /**
+   * Called with typed text on Enter or blur. Return false to reject
+   * it; the text then stays for correction.
+   */
+  onCommit: (text: string) => boolean;
+  /** Called when typing starts over or is abandoned, e.g. to clear an error. */
+  onEdit: () => void;
+  /** Step the segment up (1) or down (-1). */
+  onStep: (by: number) => void;
+  invalid: boolean;
+  describedBy?: string;
+  /** Width of the field in pixels. Default 50. */
+  width?: number;
+  inputMode?: React.HTMLAttributes<HTMLInputElement>['inputMode'];
+}
+
+/**
+ * One segment of a segmented editor such as `DurationInput` or
+ * `DateTimeInput`: a text field with step buttons. The arrow keys, the
+ * wheel and the buttons step it; typed text is handed to `onCommit`
+ * on Enter or blur, and Escape abandons it.
+ */
+export function SegmentField({
+  inputRef,
+  name,
+  suffix,
+  text,
+  onCommit,
+  onEdit,
+  onStep,
+  invalid,
+  describedBy,
+  width = 50,
+  inputMode = 'numeric',
+}: SegmentFieldProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const commit = () => {
+    if (draft !== null && onCommit(draft)) setDraft(null);
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+      <button type="button" onClick={() => onStep(1)} aria-label={`Increase ${name.toLowerCase()}`}>
+        ▲
+      </button>
+      <span style={{ display: 'flex', alignItems: 'baseline', gap: 2 }}>
+        <input
+          ref={inputRef}
+          type="text"
+          inputMode={inputMode}
+          aria-label={name}
+          aria-invalid={invalid || undefined}
+          aria-describedby={describedBy}
+          value={draft ?? text}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            onEdit();
+          }}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit();
+            if (e.key === 'Escape') {
+              setDraft(null);
+              onEdit();
+            }
+            if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+              e.preventDefault();
+              setDraft(null);
+              onStep(e.key === 'ArrowUp' ? 1 : -1);
+            }
+          }}
+          onWheel={(e) => {
+            if (e.deltaY !== 0) onStep(e.deltaY < 0 ? 1 : -1);
+          }}
+          style={{ width, textAlign: 'center' }}
+        />
+        {suffix && <span aria-hidden="true">{suffix}</span>}
+      </span>
+      <button type="button" onClick={() => onStep(-1)} aria-label={`Decrease ${name.toLowerCase()}`}>
+        ▼
+      </button>
+    </div>
+  );
+}
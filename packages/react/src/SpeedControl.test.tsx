@@ -1,7 +1,8 @@
 import React from 'react';
-import { render } from '@testing-library/react';
+import { fireEvent, render } from '@testing-library/react';
+import { vi } from 'vitest';
 import { axe, toHaveNoViolations } from 'jest-axe';
-import { SpeedControl } from './SpeedControl';
+import { SpeedControl, SpeedRangeControl } from './SpeedControl';
 import '@testing-library/jest-dom';
 
 expect.extend(toHaveNoViolations);
@@ -16,4 +17,19 @@ test('SpeedControl is accessible', async () => {
   );
   const results = await axe(container);
   expect(results).toHaveNoViolations();
-});
\ No newline at end of file
+});
+
+test('SpeedRangeControl returns a pair of quantities', () => {
+  const onChange = vi.fn();
+  const { getByRole } = render(
+    <SpeedRangeControl
+      value={[{ value: 40, unit: 'kts' }, { value: 80, unit: 'kts' }]}
+      onChange={onChange}
+    />
+  );
+  fireEvent.keyDown(getByRole('slider', { name: 'Speed window maximum' }), { key: 'ArrowUp' });
+  expect(onChange).toHaveBeenLastCalledWith([
+    { value: 40, unit: 'kts' },
+    { value: 85, unit: 'kts' },
+  ]);
+});
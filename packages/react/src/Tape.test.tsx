@@ -0,0 +1,44 @@
+import React from 'react';
+import { fireEvent, render } from '@testing-library/react';
+import { vi } from 'vitest';
+import { axe, toHaveNoViolations } from 'jest-axe';
+import { Tape } from './Tape';
+import { AltitudeControl } from './AltitudeControl';
+import '@testing-library/jest-dom';
+
+expect.extend(toHaveNoViolations);
+
+test('Tape renders and is accessible', async () => {
+  const { container } = render(
+    <Tape value={500} onChange={() => {}} min={0} max={2000} ticks={{ every: 50, majorEvery: 100 }} label="Altitude" />
+  );
+  const results = await axe(container);
+  expect(results).toHaveNoViolations();
+});
+
+test('Tape steps with the keyboard and stays in range', () => {
+  const onChange = vi.fn();
+  const { getByRole } = render(<Tape value={95} onChange={onChange} min={0} max={100} step={5} ariaLabel="Speed" />);
+  const slider = getByRole('slider');
+  fireEvent.keyDown(slider, { key: 'ArrowUp' });
+  expect(onChange).toHaveBeenLastCalledWith(100);
+  fireEvent.keyDown(slider, { key: 'PageUp' });
+  expect(onChange).toHaveBeenCalledTimes(1);
+});
+
+test('AltitudeControl can be drawn as a tape', () => {
+  const { container, getByRole } = render(
+    <AltitudeControl value={{ value: 3000, unit: 'ft' }} onChange={() => {}} variant="tape" />
+  );
+  expect(container.querySelector('.vizctrl-tape')).toBeInTheDocument();
+  expect(getByRole('slider')).toHaveAttribute('aria-orientation', 'vertical');
+});
+
+test('Tape places fractional ticks exactly and labels every major one', () => {
+  const { container } = render(
+    <Tape value={1} onChange={() => {}} min={0} max={2} span={2} ticks={{ every: 0.1, majorEvery: 0.5 }} label="Mach" />
+  );
+  const labels = Array.from(container.querySelectorAll('.vizctrl-tape__tickLabel'), (el) => el.textContent);
+  expect(labels).toEqual(['0', '0.5', '1', '1.5', '2']);
+  expect(container.querySelectorAll('.vizctrl-tape__tick')).toHaveLength(21);
+});
@@ -0,0 +1,351 @@
+import React, { forwardRef, useEffect, useId, useImperativeHandle, useRef } from 'react';
+import { roundToStep } from '@vizctrl/core';
+import type { DialBand, DialBug, DialZone } from './Dial';
+import { themeColor, themeFont } from './theme';
+import { ChangeEvents, ControlHandle, useControllableState } from './useControllableState';
+
+/** Parts of the tape that accept a `className` or `style` override. */
+export type TapeSlot =
+  | 'root'
+  | 'label'
+  | 'svg'
+  | 'tape'
+  | 'band'
+  | 'tick'
+  | 'tickLabel'
+  | 'bug'
+  | 'pointer'
+  | 'value';
+
+export type TapeHandle = ControlHandle<number>;
+
+/**
+ * A vertical tape gauge, like the altitude and airspeed tapes of a
+ * primary flight display. The scale scrolls behind a fixed pointer
+ * window that shows the current value; higher values sit above. Shares
+ * the value contract of `Dial`: drag the tape, use the keyboard or the
+ * mouse wheel, and read it as an ARIA slider.
+ */
+export interface TapeProps extends ChangeEvents<number> {
+  /** Current value. Omit to leave the tape uncontrolled. */
+  value?: number;
+  /** Initial value of an uncontrolled tape. Defaults to `min`. */
+  defaultValue?: number;
+  /** Callback when a new value is selected via drag, wheel or keyboard. */
+  onChange?: (next: number) => void;
+  /** Minimum allowed value. Default 0. */
+  min?: number;
+  /** Maximum allowed value. Default 100. */
+  max?: number;
+  /** Step increment when using arrow keys or wheel. Default 1. */
+  step?: number;
+  /** Height of the tape in pixels. Default 240. */
+  height?: number;
+  /** Width of the tape in pixels. Default 96. */
+  width?: number;
+  /** Range of values visible at once. Default a sixth of the full range. */
+  span?: number;
+  /** Visual label rendered above the tape. */
+  label?: string;
+  /** ARIA label if no visual label is supplied. */
+  ariaLabel?: string;
+  /** Id of an element describing the tape, such as an error message. */
+  ariaDescribedBy?: string;
+  /** Mark the value as invalid for assistive technology. */
+  invalid?: boolean;
+  /** Function to convert the numeric value into a display string. */
+  formatValue?: (v: number) => string;
+  /** Text of the labels on major ticks. Defaults to the plain number. */
+  formatTick?: (v: number) => string;
+  /** Tick configuration. Draws tick marks every `every` units and labelled major ticks every `majorEvery` units. */
+  ticks?: { every: number; majorEvery?: number };
+  /** Coloured strips along the scale. The zone of the current value is appended to `aria-valuetext`. */
+  bands?: DialBand[];
+  /** Reference markers drawn beside the scale. */
+  bugs?: DialBug[];
+  /** Steps moved per mouse wheel notch; Shift multiplies by ten. Default 1; 0 disables the wheel. */
+  wheelStep?: number;
+  /** Disable interactions. */
+  disabled?: boolean;
+  /** Extra class names per slot, added to the default `vizctrl-tape__<slot>` class. */
+  classNames?: Partial<Record<TapeSlot, string>>;
+  /** Inline style overrides per slot. */
+  styles?: Partial<Record<TapeSlot, React.CSSProperties>>;
+}
+
+const zoneSeverity: Record<DialZone, number> = { normal: 0, caution: 1, warning: 2 };
+
+export const Tape = forwardRef(function Tape(
+  {
+    value: valueProp,
+    defaultValue,
+    onChange,
+    onChangeStart,
+    onChangeCommitted,
+    min = 0,
+    max = 100,
+    step = 1,
+    height = 240,
+    width = 96,
+    span = (max - min) / 6,
+    label,
+    ariaLabel,
+    ariaDescribedBy,
+    invalid,
+    formatValue = (v) => String(v),
+    formatTick = (v) => String(v),
+    ticks,
+    bands = [],
+    bugs = [],
+    wheelStep = 1,
+    disabled,
+    classNames = {},
+    styles = {},
+  }: TapeProps,
+  ref: React.ForwardedRef<TapeHandle>
+) {
+  const [value, setValue, reset] = useControllableState(valueProp, defaultValue ?? min, onChange);
+  const id = useId();
+  const svg = useRef<SVGSVGElement | null>(null);
+  useImperativeHandle(ref, () => ({ focus: () => svg.current?.focus(), reset, setValue }));
+
+  const clamp = (v: number) => Math.min(max, Math.max(min, v));
+  const perUnit = height / span;
+  const mid = height / 2;
+  // vertical position of a value, with the current value at the centre
+  const y = (v: number) => mid - (v - value) * perUnit;
+  const cls = (slot: TapeSlot) => {
+    const base = slot === 'root' ? 'vizctrl-tape' : `vizctrl-tape__${slot}`;
+    return classNames[slot] ? `${base} ${classNames[slot]}` : base;
+  };
+
+  // the most recent value, including changes the parent has not rendered yet
+  const latest = useRef(value);
+  latest.current = value;
+  const set = (v: number) => {
+    const next = clamp(roundToStep(v, step));
+    if (next === latest.current) return false;
+    latest.current = next;
+    setValue(next);
+    return true;
+  };
+  // a key press or wheel notch is a complete change on its own
+  const stepTo = (v: number) => {
+    const before = latest.current;
+    if (!set(v)) return;
+    onChangeStart?.(before);
+    onChangeCommitted?.(latest.current);
+  };
+
+  // dragging moves the tape with the pointer: pulling it down brings
+  // higher values into the window
+  const drag = useRef<{ pointerId: number; y: number; value: number } | null>(null);
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (disabled) return;
+    (e.currentTarget as Element).setPointerCapture?.(e.pointerId);
+    drag.current = { pointerId: e.pointerId, y: e.clientY, value };
+    onChangeStart?.(value);
+  };
+  const onPointerMove = (e: React.PointerEvent) => {
+    const d = drag.current;
+    if (!d || e.pointerId !== d.pointerId) return;
+    set(d.value + (e.clientY - d.y) / perUnit);
+  };
+  const endDrag = (e: React.PointerEvent) => {
+    const d = drag.current;
+    if (!d || e.pointerId !== d.pointerId) return;
+    drag.current = null;
+    onChangeCommitted?.(latest.current);
+  };
+
+  const coarse = step * 10;
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (disabled) return;
+    const delta = e.shiftKey ? coarse : step;
+    const next: Record<string, number> = {
+      ArrowUp: value + delta,
+      ArrowRight: value + delta,
+      ArrowDown: value - delta,
+      ArrowLeft: value - delta,
+      PageUp: value + coarse,
+      PageDown: value - coarse,
+      Home: min,
+      End: max,
+    };
+    if (!(e.key in next)) return;
+    e.preventDefault();
+    stepTo(next[e.key]);
+  };
+
+  // wheel; a native listener because React's is passive and cannot
+  // stop the page from scrolling
+  const wheelRef = useRef<(e: WheelEvent) => void>();
+  wheelRef.current = (e: WheelEvent) => {
+    if (disabled || !wheelStep || e.deltaY === 0) return;
+    e.preventDefault();
+    const notch = wheelStep * step * (e.shiftKey ? 10 : 1);
+    stepTo(latest.current + (e.deltaY < 0 ? notch : -notch));
+  };
+  useEffect(() => {
+    const el = svg.current;
+    if (!el) return;
+    const listener = (e: WheelEvent) => wheelRef.current?.(e);
+    el.addEventListener('wheel', listener, { passive: false });
+    return () => el.removeEventListener('wheel', listener);
+  }, []);
+
+  // ticks in view, plus one interval either side so labels slide in
+  const tickEls: JSX.Element[] = [];
+  if (ticks) {
+    const { every, majorEvery = every * 5 } = ticks;
+    // count whole intervals so float error cannot build up along the tape
+    const first = Math.ceil(Math.max(min, value - span / 2 - every) / every - 1e-9);
+    const last = Math.floor(Math.min(max, value + span / 2 + every) / every + 1e-9);
+    for (let k = first; k <= last; k++) {
+      const v = roundToStep(k * every, every);
+      const major = roundToStep(v, majorEvery) === v;
+      const ty = y(v);
+      tickEls.push(
+        <g key={v}>
+          <line
+            x1={width - (major ? 14 : 8)}
+            y1={ty}
+            x2={width}
+            y2={ty}
+            stroke={themeColor('tick')}
+            strokeWidth={1}
+            className={cls('tick')}
+            style={styles.tick}
+          />
+          {major && (
+            <text
+              x={width - 18}
+              y={ty}
+              textAnchor="end"
+              dominantBaseline="central"
+              fill={themeColor('text')}
+              fontFamily={themeFont}
+              fontSize="11"
+              aria-hidden="true"
+              className={cls('tickLabel')}
+              style={styles.tickLabel}
+            >
+              {formatTick(v)}
+            </text>
+          )}
+        </g>
+      );
+    }
+  }
+
+  // most severe band containing the value
+  let band: DialBand | undefined;
+  bands.forEach((b) => {
+    if (value < Math.min(b.from, b.to) || value > Math.max(b.from, b.to)) return;
+    if (!band || zoneSeverity[b.zone] > zoneSeverity[band.zone]) band = b;
+  });
+  const valueText = band ? `${formatValue(value)}, ${band.label ?? band.zone}` : formatValue(value);
+  const windowHeight = 28;
+
+  return (
+    <div
+      className={cls('root')}
+      style={{ display: 'inline-flex', flexDirection: 'column', alignItems: 'center', ...styles.root }}
+    >
+      {label && (
+        <label htmlFor={id} className={cls('label')} style={{ marginBottom: 8, ...styles.label }}>
+          {label}
+        </label>
+      )}
+      <svg
+        ref={svg}
+        id={id}
+        width={width}
+        height={height}
+        role="slider"
+        aria-label={ariaLabel || label}
+        aria-valuemin={min}
+        aria-valuemax={max}
+        aria-valuenow={value}
+        aria-valuetext={valueText}
+        aria-describedby={ariaDescribedBy}
+        aria-invalid={invalid || undefined}
+        aria-orientation="vertical"
+        tabIndex={disabled ? -1 : 0}
+        onKeyDown={onKeyDown}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        onLostPointerCapture={endDrag}
+        className={cls('svg')}
+        style={{ touchAction: 'none', cursor: disabled ? 'not-allowed' : 'ns-resize', ...styles.svg }}
+      >
+        <rect
+          width={width}
+          height={height}
+          fill={themeColor('track')}
+          className={cls('tape')}
+          style={styles.tape}
+        />
+        {/* bands, as a strip along the scale edge */}
+        {bands.map((b, i) => {
+          const top = y(Math.min(max, Math.max(b.from, b.to)));
+          const bottom = y(Math.max(min, Math.min(b.from, b.to)));
+          return (
+            <rect
+              key={`band-${i}`}
+              x={width - 4}
+              y={top}
+              width={4}
+              height={Math.max(0, bottom - top)}
+              fill={b.color ?? themeColor(b.zone)}
+              className={`${cls('band')} vizctrl-tape__band--${b.zone}`}
+              style={styles.band}
+            />
+          );
+        })}
+        {tickEls}
+        {bugs.map((b, i) => {
+          const by = y(b.value);
+          return (
+            <polygon
+              key={`bug-${i}`}
+              points={`${width},${by} ${width - 8},${by - 6} ${width - 8},${by + 6}`}
+              fill={b.color ?? themeColor('bug')}
+              className={cls('bug')}
+              style={styles.bug}
+            >
+              {b.label && <title>{b.label}</title>}
+            </polygon>
+          );
+        })}
+        {/* fixed pointer window with the value readout */}
+        <rect
+          x={2}
+          y={mid - windowHeight / 2}
+          width={width - 4}
+          height={windowHeight}
+          fill={themeColor('controlBackground')}
+          stroke={themeColor('thumb')}
+          strokeWidth={2}
+          className={cls('pointer')}
+          style={styles.pointer}
+        />
+        <text
+          x={width / 2}
+          y={mid}
+          textAnchor="middle"
+          dominantBaseline="central"
+          fill={themeColor('controlText')}
+          fontFamily={themeFont}
+          fontSize="13"
+          className={cls('value')}
+          style={styles.value}
+        >
+          {formatValue(value)}
+        </text>
+      </svg>
+    </div>
+  );
+});
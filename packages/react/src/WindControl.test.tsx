@@ -0,0 +1,51 @@
+import React from 'react';
+import { act, fireEvent, render } from '@testing-library/react';
+import { axe, toHaveNoViolations } from 'jest-axe';
+import { vi } from 'vitest';
+import { WindControl } from './WindControl';
+import '@testing-library/jest-dom';
+
+expect.extend(toHaveNoViolations);
+
+test('WindControl is accessible', async () => {
+  const { container } = render(
+    <WindControl
+      defaultValue={{ direction: 270, speed: { value: 15, unit: 'kts' }, gust: { value: 25, unit: 'kts' } }}
+    />
+  );
+  const results = await axe(container);
+  expect(results).toHaveNoViolations();
+});
+
+test('WindControl turns and strengthens the wind from the keyboard', () => {
+  const onChange = vi.fn();
+  const { getByRole } = render(
+    <WindControl defaultValue={{ direction: 350, speed: { value: 10, unit: 'kts' } }} onChange={onChange} />
+  );
+  const arrow = getByRole('slider', { name: 'Wind direction and speed' });
+
+  fireEvent.keyDown(arrow, { key: 'ArrowRight' });
+  expect(onChange).toHaveBeenLastCalledWith({ direction: 0, speed: { value: 10, unit: 'kts' } });
+
+  fireEvent.keyDown(arrow, { key: 'ArrowUp', shiftKey: true });
+  expect(onChange).toHaveBeenLastCalledWith({ direction: 0, speed: { value: 20, unit: 'kts' } });
+  expect(arrow).toHaveAttribute('aria-valuetext', 'From 000° at 20 kt');
+});
+
+test.each([
+  ['calm', { direction: 0, speed: { value: 0, unit: 'kts' as const } }, ['0', '0 kts']],
+  ['gust-free', { direction: 270, speed: { value: 12, unit: 'kts' as const } }, ['270', '12 kts']],
+])('a required %s WindControl lets its form submit', (_, value, submitted) => {
+  const { container } = render(
+    <form>
+      <WindControl name="wind" required value={value} />
+    </form>
+  );
+  const form = container.querySelector('form') as HTMLFormElement;
+  expect(new FormData(form).getAll('wind')).toEqual(submitted);
+  let valid = false;
+  act(() => {
+    valid = form.checkValidity();
+  });
+  expect(valid).toBe(true);
+});
@@ -0,0 +1,334 @@
+import React, { forwardRef, useId, useImperativeHandle, useRef } from 'react';
+import { Quantity, SpeedUnit, convert, formatQuantity, normalizeDegrees, roundToStep } from '@vizctrl/core';
+import { themeColor, themeFont } from './theme';
+import { QuantityField } from './QuantityField';
+import { SpeedUnitToggle } from './SpeedControl';
+import { ChangeEvents, ControlHandle, useControllableState } from './useControllableState';
+import { FormFieldProps, serializeQuantity, useFormField } from './form';
+
+/** Wind in meteorological convention. */
+export interface Wind {
+  /** Direction the wind blows from, in degrees true, 0–359. */
+  direction: number;
+  /** Sustained wind speed. */
+  speed: Quantity<SpeedUnit>;
+  /** Gust speed, when gusting. Shares the unit of `speed`. */
+  gust?: Quantity<SpeedUnit>;
+}
+
+export interface WindControlProps extends ChangeEvents<Wind>, FormFieldProps<Wind> {
+  /** Current wind. Omit to leave the control uncontrolled. */
+  value?: Wind;
+  /** Initial wind of an uncontrolled control. Defaults to calm, in knots. */
+  defaultValue?: Wind;
+  /** Called when direction, speed or gust changes. Speeds use the current unit. */
+  onChange?: (wind: Wind) => void;
+  /** Strongest wind shown at the rim of the rose. Defaults depend on unit. */
+  max?: Quantity<SpeedUnit>;
+  /** Direction step for dragging and the arrow keys. Default 10°. */
+  directionStep?: number;
+  /** Speed step for the arrow keys. Default 1. */
+  speedStep?: number;
+  /** Diameter of the compass rose in pixels. Default 200. */
+  size?: number;
+  /** Locale for the readout and numeric entry. Defaults to the runtime locale. */
+  locale?: string;
+  /** Optional label displayed above the rose. */
+  label?: string;
+  /** Disable interactions. */
+  disabled?: boolean;
+}
+
+// default strongest wind per unit, roughly storm force
+const defaultMax: Record<SpeedUnit, number> = { kts: 60, ms: 30, kmh: 110, mph: 70 };
+const cardinals = ['N', 'E', 'S', 'W'];
+
+/**
+ * Wind entry on a compass rose. The arrow's tail sits on the side the
+ * wind blows from, further out the stronger it blows, and points
+ * downwind to the centre. Dragging the tail sets direction and speed at
+ * once; the arrow keys turn it (Left/Right) or change the speed
+ * (Up/Down). Numeric fields cover direction, speed and gust, and the
+ * speed unit can be switched like in `SpeedControl`.
+ */
+export const WindControl = forwardRef(function WindControl(
+  {
+    value: valueProp,
+    defaultValue = { direction: 0, speed: { value: 0, unit: 'kts' } },
+    onChange,
+    onChangeStart,
+    onChangeCommitted,
+    name,
+    form,
+    required,
+    validate,
+    error,
+    max,
+    directionStep = 10,
+    speedStep = 1,
+    size = 200,
+    locale,
+    label = 'Wind',
+    disabled,
+  }: WindControlProps,
+  ref: React.ForwardedRef<ControlHandle<Wind>>
+) {
+  const [value, setValue, reset] = useControllableState(valueProp, defaultValue, onChange);
+  const handle = useRef<SVGGElement>(null);
+  useImperativeHandle(ref, () => ({ focus: () => handle.current?.focus(), reset, setValue }));
+  const id = useId();
+
+  const unit = value.speed.unit;
+  const vmax = max ? convert(max, unit).value : defaultMax[unit];
+  const speed = value.speed.value;
+  const gust = value.gust && convert(value.gust, unit).value;
+
+  const latest = useRef(value);
+  latest.current = value;
+  // a gust no stronger than the wind is no gust at all
+  const wind = (direction: number, s: number, g = gust): Wind => {
+    const next: Wind = { direction, speed: { value: s, unit } };
+    if (g !== undefined && g > s) next.gust = { value: g, unit };
+    return next;
+  };
+  const set = (direction: number, s: number) => {
+    const next = wind(
+      normalizeDegrees(Math.round(direction / directionStep) * directionStep),
+      Math.min(vmax, Math.max(0, roundToStep(s, speedStep)))
+    );
+    const prev = latest.current;
+    if (next.direction === prev.direction && next.speed.value === prev.speed.value) return false;
+    latest.current = next;
+    setValue(next);
+    return true;
+  };
+  // entries and the unit toggle change the value in one go
+  const commit = (next: Wind) => {
+    onChangeStart?.(value);
+    setValue(next);
+    onChangeCommitted?.(next);
+  };
+
+  const radius = size / 2;
+  const reach = radius - 16;
+  // point at `r` pixels from the centre on a compass bearing
+  const polar = (deg: number, r: number) => {
+    const a = ((deg - 90) * Math.PI) / 180;
+    return { x: r * Math.cos(a), y: r * Math.sin(a) };
+  };
+  const tail = polar(value.direction, (Math.min(speed, vmax) / vmax) * reach);
+  const gustTail = gust !== undefined ? polar(value.direction, (Math.min(gust, vmax) / vmax) * reach) : null;
+
+  const svg = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ pointerId: number } | null>(null);
+  const fromPointer = (e: React.PointerEvent) => {
+    const box = svg.current!.getBoundingClientRect();
+    const x = e.clientX - (box.left + box.width / 2);
+    const y = e.clientY - (box.top + box.height / 2);
+    const bearing = (Math.atan2(y, x) * 180) / Math.PI + 90;
+    set(bearing, (Math.hypot(x, y) / reach) * vmax);
+  };
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (disabled || !svg.current) return;
+    (e.currentTarget as Element).setPointerCapture?.(e.pointerId);
+    handle.current?.focus();
+    drag.current = { pointerId: e.pointerId };
+    onChangeStart?.(value);
+    fromPointer(e);
+  };
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (drag.current?.pointerId !== e.pointerId) return;
+    fromPointer(e);
+  };
+  const endDrag = (e: React.PointerEvent) => {
+    if (drag.current?.pointerId !== e.pointerId) return;
+    drag.current = null;
+    onChangeCommitted?.(latest.current);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (disabled) return;
+    const fine = e.shiftKey ? 10 : 1;
+    const { direction } = value;
+    const next: Record<string, [number, number]> = {
+      ArrowRight: [direction + directionStep, speed],
+      ArrowLeft: [direction - directionStep, speed],
+      ArrowUp: [direction, speed + speedStep * fine],
+      ArrowDown: [direction, speed - speedStep * fine],
+      PageUp: [direction, speed + speedStep * 10],
+      PageDown: [direction, speed - speedStep * 10],
+      Home: [direction, 0],
+    };
+    if (!(e.key in next)) return;
+    e.preventDefault();
+    const before = latest.current;
+    if (!set(...next[e.key])) return;
+    onChangeStart?.(before);
+    onChangeCommitted?.(latest.current);
+  };
+
+  const field = useFormField(
+    value,
+    { name, form, required, validate, error },
+    (w) => [String(w.direction), serializeQuantity(w.speed), ...(w.gust ? [serializeQuantity(w.gust)] : [])],
+    () => handle.current?.focus()
+  );
+
+  const formatSpeed = (v: number) => formatQuantity({ value: v, unit }, { locale, precision: 0 });
+  const bearing = String(Math.round(value.direction)).padStart(3, '0');
+  const valueText =
+    speed === 0
+      ? 'Calm'
+      : `From ${bearing}° at ${formatSpeed(speed)}${gust !== undefined ? `, gusting ${formatSpeed(gust)}` : ''}`;
+
+  // speed rings at quarters of the maximum
+  const rings = [0.25, 0.5, 0.75, 1];
+
+  return (
+    <div style={{ display: 'grid', gap: 8, justifyItems: 'center' }}>
+      <span id={`${id}-label`}>{label}</span>
+      <svg
+        ref={svg}
+        width={size}
+        height={size}
+        viewBox={`${-radius} ${-radius} ${size} ${size}`}
+        role="group"
+        aria-labelledby={`${id}-label`}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        onLostPointerCapture={endDrag}
+        style={{ touchAction: 'none', cursor: disabled ? 'not-allowed' : 'crosshair' }}
+      >
+        {rings.map((f) => (
+          <circle
+            key={f}
+            r={f * reach}
+            fill="none"
+            stroke={themeColor(f === 1 ? 'track' : 'tick')}
+            strokeWidth={f === 1 ? 2 : 1}
+            strokeDasharray={f === 1 ? undefined : '2 3'}
+          />
+        ))}
+        {Array.from({ length: 36 }, (_, i) => {
+          const deg = i * 10;
+          const inner = polar(deg, reach - (deg % 90 === 0 ? 8 : 4));
+          const outer = polar(deg, reach);
+          return (
+            <line
+              key={deg}
+              x1={inner.x}
+              y1={inner.y}
+              x2={outer.x}
+              y2={outer.y}
+              stroke={themeColor('tick')}
+              strokeWidth={1}
+            />
+          );
+        })}
+        {cardinals.map((c, i) => {
+          const p = polar(i * 90, radius - 7);
+          return (
+            <text
+              key={c}
+              x={p.x}
+              y={p.y}
+              textAnchor="middle"
+              dominantBaseline="central"
+              fill={themeColor('text')}
+              fontFamily={themeFont}
+              fontSize="11"
+              aria-hidden="true"
+            >
+              {c}
+            </text>
+          );
+        })}
+        {/* gusts extend the shaft, dashed */}
+        {gustTail && (
+          <line
+            x1={tail.x}
+            y1={tail.y}
+            x2={gustTail.x}
+            y2={gustTail.y}
+            stroke={themeColor('caution')}
+            strokeWidth={3}
+            strokeDasharray="4 3"
+          />
+        )}
+        <line x1={tail.x} y1={tail.y} x2={0} y2={0} stroke={themeColor('fill')} strokeWidth={3} />
+        {speed > 0 && (
+          <polygon
+            points="0,0 -5,-10 5,-10"
+            transform={`rotate(${value.direction})`}
+            fill={themeColor('fill')}
+          />
+        )}
+        <g
+          ref={handle}
+          role="slider"
+          aria-label={`${label} direction and speed`}
+          aria-valuemin={0}
+          aria-valuemax={359}
+          aria-valuenow={value.direction}
+          aria-valuetext={valueText}
+          aria-describedby={field.describedBy}
+          aria-invalid={field.invalid || undefined}
+          tabIndex={disabled ? -1 : 0}
+          onKeyDown={onKeyDown}
+        >
+          <circle cx={tail.x} cy={tail.y} r={8} fill={themeColor('thumb')} stroke="white" strokeWidth={2} />
+        </g>
+      </svg>
+      <output style={{ fontFamily: themeFont }}>
+        {bearing}° {formatSpeed(speed)}
+        {gust !== undefined && ` G${Math.round(gust)}`}
+      </output>
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center', justifyContent: 'center', flexWrap: 'wrap' }}>
+        <QuantityField
+          ariaLabel={`${label} direction`}
+          value={value.direction}
+          unit="deg"
+          locale={locale}
+          min={0}
+          max={360}
+          onChange={(n) => commit(wind(normalizeDegrees(Math.round(n)), speed))}
+          step={directionStep}
+        />
+        <QuantityField
+          ariaLabel={`${label} speed`}
+          value={speed}
+          unit={unit}
+          locale={locale}
+          min={0}
+          max={vmax}
+          onChange={(n) => commit(wind(value.direction, n))}
+          step={speedStep}
+        />
+        <QuantityField
+          ariaLabel={`${label} gust`}
+          value={gust ?? speed}
+          unit={unit}
+          locale={locale}
+          min={speed}
+          max={vmax}
+          onChange={(n) => commit(wind(value.direction, speed, n))}
+          step={speedStep}
+        />
+        <SpeedUnitToggle
+          unit={unit}
+          onChange={(u) =>
+            commit({
+              direction: value.direction,
+              speed: convert(value.speed, u),
+              ...(value.gust && { gust: convert(value.gust, u) }),
+            })
+          }
+        />
+      </div>
+      {field.inputs}
+      {field.message}
+    </div>
+  );
+});
@@ -0,0 +1,17 @@
+import { vi } from 'vitest';
+import { fromController, serializeQuantity, useFormField } from './index';
+
+test('form helpers are exported from the package entry', () => {
+  expect(typeof useFormField).toBe('function');
+  expect(serializeQuantity({ value: 1000, unit: 'ft' })).toBe('1000 ft');
+});
+
+test('fromController maps Controller render props onto control props', () => {
+  const field = { name: 'altitude', value: 1000, onChange: vi.fn(), onBlur: vi.fn(), ref: vi.fn() };
+  const props = fromController({ field, fieldState: { error: { message: 'Too low' } } });
+  expect(props).toMatchObject({ name: 'altitude', value: 1000, error: 'Too low', ref: field.ref });
+  props.onChange(2000);
+  expect(field.onChange).toHaveBeenCalledWith(2000);
+  props.onChangeCommitted();
+  expect(field.onBlur).toHaveBeenCalledTimes(1);
+});
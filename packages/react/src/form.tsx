@@ -0,0 +1,160 @@
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { Quantity } from '@vizctrl/core';
+import { themeColor } from './theme';
+
+/** Props that let a control take part in a native `<form>`. */
+export interface FormFieldProps<T> {
+  /** Name under which the value is submitted with the form. */
+  name?: string;
+  /** Id of the form the control belongs to, when it is not nested inside it. */
+  form?: string;
+  /** Mark the control as required. */
+  required?: boolean;
+  /**
+   * Check the value. Return an error message to mark the control
+   * invalid and block form submission, or nothing when it is valid.
+   */
+  validate?: (value: T) => string | null | undefined;
+  /** Error message set from outside, e.g. by a form library. Takes precedence over `validate`. */
+  error?: string;
+}
+
+export interface FormField {
+  /** Hidden inputs carrying the value and validity; render them inside the control. */
+  inputs: React.ReactNode;
+  /** The error message, once there is one to show. */
+  message: React.ReactNode;
+  invalid: boolean;
+  /** Id of the error message, for `aria-describedby`. */
+  describedBy?: string;
+}
+
+const visuallyHidden: React.CSSProperties = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  margin: -1,
+  padding: 0,
+  border: 0,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap',
+};
+
+/**
+ * Connect a control to the constraint validation API. The value is
+ * mirrored into visually hidden inputs (one per entry of
+ * `serialize`'s result), which are submitted with the form and carry
+ * the validator's message through `setCustomValidity`. A hidden input
+ * cannot be focused, so when the form reports it invalid, focus moves
+ * to the control itself via `focus`.
+ */
+export function useFormField<T>(
+  value: T,
+  { name, form, required, validate, error }: FormFieldProps<T>,
+  serialize: (value: T) => string | string[],
+  focus: () => void
+): FormField {
+  const id = useId();
+  const inputs = useRef<Array<HTMLInputElement | null>>([]);
+  // messages stay hidden until the form first checks the control
+  const [checked, setChecked] = useState(false);
+  const text = error ?? validate?.(value) ?? '';
+  const active = name !== undefined || required || validate !== undefined || error !== undefined;
+
+  useEffect(() => {
+    inputs.current.forEach((el) => el?.setCustomValidity(text));
+    if (!text) setChecked(false);
+  }, [text, active]);
+
+  const onInvalid = (e: React.FormEvent<HTMLInputElement>) => {
+    // suppress the browser's bubble, which would point at nothing
+    e.preventDefault();
+    setChecked(true);
+    // only the first invalid control in the form takes focus
+    const elements = Array.from(e.currentTarget.form?.elements ?? []) as HTMLInputElement[];
+    const first = elements.find((el) => el.validity && !el.validity.valid);
+    if (!first || first === e.currentTarget) focus();
+  };
+
+  const values = [serialize(value)].flat();
+  const shown = !!text && (checked || error !== undefined);
+  const messageId = `${id}-error`;
+
+  return {
+    inputs: active
+      ? values.map((v, i) => (
+          <input
+            key={i}
+            ref={(el) => {
+              inputs.current[i] = el;
+            }}
+            type="text"
+            name={name}
+            form={form}
+            required={required}
+            value={v}
+            onChange={() => {}}
+            onInvalid={onInvalid}
+            tabIndex={-1}
+            aria-hidden="true"
+            style={visuallyHidden}
+          />
+        ))
+      : null,
+    message: shown ? (
+      <div
+        id={messageId}
+        role="alert"
+        className="vizctrl-error"
+        style={{ color: themeColor('warning'), fontSize: 12, textAlign: 'center' }}
+      >
+        {text}
+      </div>
+    ) : null,
+    invalid: !!text,
+    describedBy: shown ? messageId : undefined,
+  };
+}
+
+/** Form value of a quantity: the number and unit, e.g. `1000 ft`. */
+export function serializeQuantity(q: Quantity): string {
+  return `${q.value} ${q.unit}`;
+}
+
+/**
+ * The parts of react-hook-form's `Controller` render props used here,
+ * declared structurally so the library is not a dependency.
+ */
+export interface ControllerRenderProps<T> {
+  field: {
+    name: string;
+    value: T;
+    onChange: (value: T) => void;
+    onBlur: () => void;
+    ref: (instance: { focus(): void } | null) => void;
+  };
+  fieldState?: { error?: { message?: string } };
+}
+
+/**
+ * Map react-hook-form `Controller` render props onto a control's
+ * props. The field is marked touched when a change is committed, and
+ * focused on submit errors through the control's ref.
+ *
+ *     <Controller
+ *       name="altitude"
+ *       control={control}
+ *       render={(props) => <AltitudeControl {...fromController(props)} />}
+ *     />
+ */
+export function fromController<T>({ field, fieldState }: ControllerRenderProps<T>) {
+  return {
+    name: field.name,
+    value: field.value,
+    onChange: field.onChange,
+    onChangeCommitted: () => field.onBlur(),
+    ref: field.ref,
+    error: fieldState?.error?.message,
+  };
+}
@@ -1,5 +1,17 @@
 export { default as Dial } from './Dial';
+export type { DialProps, DialValue, DialBand, DialBug, DialZone, DialSlot, DialHandle } from './Dial';
+export * from './useDial';
+export * from './Tape';
+export * from './QuantityControl';
+export * from './useControllableState';
 export * from './AltitudeControl';
 export * from './SpeedControl';
 export * from './HeadingControl';
-export * from './DurationInput';
\ No newline at end of file
+export * from './AttitudeControl';
+export * from './WindControl';
+export * from './DurationInput';
+export * from './DateTimeInput';
+export * from './CoordinateInput';
+export * from './QuantityField';
+export * from './theme';
+export * from './form';
\ No newline at end of file
@@ -0,0 +1,161 @@
+import React, { createContext, useContext } from 'react';
+
+/**
+ * Design tokens shared by all controls. Colours are published as CSS
+ * custom properties (`--vizctrl-track`, `--vizctrl-thumb`, ...) by
+ * `VizCtrlThemeProvider`, so they can also be overridden from a
+ * stylesheet. Numeric tokens that feed into geometry, such as the
+ * stroke width, are read from React context.
+ */
+export interface VizCtrlTheme {
+  colors: {
+    /** Unfilled part of a dial track. */
+    track: string;
+    /** Filled part of a dial track and range bands. */
+    fill: string;
+    /** Dial thumbs. */
+    thumb: string;
+    /** Value readouts and labels. */
+    text: string;
+    /** Tick marks. */
+    tick: string;
+    /** Reference markers. */
+    bug: string;
+    normal: string;
+    caution: string;
+    warning: string;
+    /** Sky and ground halves of the attitude indicator. */
+    sky: string;
+    ground: string;
+    /** Background, text and border of toggles and inputs. */
+    controlBackground: string;
+    controlText: string;
+    controlBorder: string;
+    /** Selected toggle option. */
+    controlActiveBackground: string;
+    controlActiveText: string;
+  };
+  fontFamily: string;
+  /** Width of dial tracks in pixels. */
+  strokeWidth: number;
+}
+
+export type VizCtrlColor = keyof VizCtrlTheme['colors'];
+
+export const lightTheme: VizCtrlTheme = {
+  colors: {
+    track: '#ddd',
+    fill: '#555',
+    thumb: '#111',
+    text: 'currentColor',
+    tick: 'currentColor',
+    bug: '#1565c0',
+    normal: '#2e7d32',
+    caution: '#f9a825',
+    warning: '#c62828',
+    sky: '#4a90d9',
+    ground: '#8d6e4a',
+    controlBackground: 'white',
+    controlText: 'black',
+    controlBorder: '#ddd',
+    controlActiveBackground: '#111',
+    controlActiveText: 'white',
+  },
+  fontFamily: 'system-ui, sans-serif',
+  strokeWidth: 10,
+};
+
+/** Low-glare preset for dark cockpit displays. */
+export const darkTheme: VizCtrlTheme = {
+  colors: {
+    track: '#3c4043',
+    fill: '#8ab4f8',
+    thumb: '#e8eaed',
+    text: '#e8eaed',
+    tick: '#9aa0a6',
+    bug: '#4fc3f7',
+    normal: '#66bb6a',
+    caution: '#ffca28',
+    warning: '#ef5350',
+    sky: '#1e3a5f',
+    ground: '#4e3b2a',
+    controlBackground: '#202124',
+    controlText: '#e8eaed',
+    controlBorder: '#5f6368',
+    controlActiveBackground: '#e8eaed',
+    controlActiveText: '#202124',
+  },
+  fontFamily: 'system-ui, sans-serif',
+  strokeWidth: 10,
+};
+
+/** Derive a theme from `base`, overriding individual tokens. */
+export function createTheme(
+  base: VizCtrlTheme,
+  overrides: Partial<Omit<VizCtrlTheme, 'colors'>> & { colors?: Partial<VizCtrlTheme['colors']> }
+): VizCtrlTheme {
+  return { ...base, ...overrides, colors: { ...base.colors, ...overrides.colors } };
+}
+
+const cssName = (token: string) => `--vizctrl-${token.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}`;
+
+/** CSS custom properties for a theme, e.g. `{ '--vizctrl-track': '#ddd' }`. */
+export function themeVars(theme: VizCtrlTheme): Record<string, string> {
+  const out: Record<string, string> = { '--vizctrl-font-family': theme.fontFamily };
+  (Object.keys(theme.colors) as VizCtrlColor[]).forEach((k) => {
+    out[cssName(k)] = theme.colors[k];
+  });
+  return out;
+}
+
+/**
+ * `var()` reference to a colour token, falling back to the light theme
+ * when no provider or stylesheet sets it.
+ */
+export function themeColor(token: VizCtrlColor): string {
+  return `var(${cssName(token)}, ${lightTheme.colors[token]})`;
+}
+
+export const themeFont = `var(--vizctrl-font-family, ${lightTheme.fontFamily})`;
+
+const ThemeContext = createContext<VizCtrlTheme>(lightTheme);
+
+/** The theme supplied by the nearest `VizCtrlThemeProvider`. */
+export function useVizCtrlTheme(): VizCtrlTheme {
+  return useContext(ThemeContext);
+}
+
+export interface VizCtrlThemeProviderProps {
+  /** Theme to apply. Default `lightTheme`. */
+  theme?: VizCtrlTheme;
+  className?: string;
+  style?: React.CSSProperties;
+  children?: React.ReactNode;
+}
+
+/**
+ * Applies a theme to all controls below it. Renders a wrapper `div`
+ * carrying the theme's CSS custom properties.
+ */
+export function VizCtrlThemeProvider({
+  theme = lightTheme,
+  className,
+  style,
+  children,
+}: VizCtrlThemeProviderProps) {
+  return (
+    <ThemeContext.Provider value={theme}>
+      <div
+        className={className ? `vizctrl-theme ${className}` : 'vizctrl-theme'}
+        style={{
+          ...(themeVars(theme) as React.CSSProperties),
+          color: theme.colors.text === 'currentColor' ? undefined : theme.colors.text,
+          fontFamily: theme.fontFamily,
+          ...style,
+        }}
+      >
+        {children}
+      </div>
+    </ThemeContext.Provider>
+  );
+}
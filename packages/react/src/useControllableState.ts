@@ -0,0 +1,53 @@
+import { useCallback, useRef, useState } from 'react';
+
+/** Imperative handle exposed through `ref` by every control. */
+export interface ControlHandle<T> {
+  /** Move focus to the control. */
+  focus(): void;
+  /**
+   * Restore `defaultValue`, or the value at mount for a controlled
+   * control. Calls `onChange`.
+   */
+  reset(): void;
+  /** Set the value from code. Calls `onChange` but not the commit events. */
+  setValue(value: T): void;
+}
+
+/**
+ * Events bracketing a user interaction. `onChange` fires for every
+ * intermediate value while dragging; these fire once per drag, key
+ * press or numeric entry.
+ */
+export interface ChangeEvents<T> {
+  /** Called with the value before a change starts, e.g. on pointer down. */
+  onChangeStart?: (value: T) => void;
+  /** Called with the final value once a change is complete, e.g. on release. */
+  onChangeCommitted?: (value: T) => void;
+}
+
+/**
+ * State that is either owned by the parent (`value` given) or kept
+ * internally, starting from `defaultValue`. Returns the current value,
+ * a setter that also calls `onChange`, and a reset back to the initial
+ * value.
+ */
+export function useControllableState<T>(
+  value: T | undefined,
+  defaultValue: T,
+  onChange?: (value: T) => void
+): [T, (next: T) => void, () => void] {
+  const [internal, setInternal] = useState(defaultValue);
+  const controlled = value !== undefined;
+  const current = controlled ? value : internal;
+  const initial = useRef(current);
+
+  const set = useCallback(
+    (next: T) => {
+      if (!controlled) setInternal(next);
+      onChange?.(next);
+    },
+    [controlled, onChange]
+  );
+  const reset = useCallback(() => set(initial.current), [set]);
+  return [current, set, reset];
+}
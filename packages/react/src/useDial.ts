@@ -0,0 +1,552 @@
+import React, { useCallback, useEffect, useId, useMemo, useRef } from 'react';
+import { Scale, createScale, roundToStep } from '@vizctrl/core';
+import type { DialBand, DialBug, DialProps, DialValue, DialZone } from './Dial';
+import { useVizCtrlTheme } from './theme';
+import { useControllableState } from './useControllableState';
+
+const zoneSeverity: Record<DialZone, number> = { normal: 0, caution: 1, warning: 2 };
+// share of momentum kept per 16 ms frame after a flick
+const friction = 0.95;
+
+export interface DialPoint {
+  x: number;
+  y: number;
+}
+
+export interface DialTick extends DialPoint {
+  value: number;
+  major: boolean;
+  /** Outer end of the tick; `x`/`y` is the inner end. */
+  x2: number;
+  y2: number;
+}
+
+export interface DialThumb extends DialPoint {
+  value: number;
+  angle: number;
+  /** Band the value falls in, if any. */
+  band?: DialBand;
+  /** Accessible text for the value, including its band. */
+  valueText: string;
+}
+
+/**
+ * Everything needed to draw a dial: geometry, precomputed paths and
+ * positions, and the props that wire up pointer, keyboard and ARIA
+ * behaviour. `Dial` renders its default visuals from this; custom
+ * renderers can do the same.
+ */
+export interface DialState<V extends DialValue = number> {
+  /** Current value, whether controlled or kept internally. */
+  value: V;
+  /** Set the value from code. Calls `onChange`. */
+  setValue: (value: V) => void;
+  /** Restore `defaultValue`, or the value at mount. */
+  reset: () => void;
+  /** Focus the slider, or the lower thumb in range mode. */
+  focus: () => void;
+  size: number;
+  radius: number;
+  center: DialPoint;
+  stroke: number;
+  isRange: boolean;
+  values: number[];
+  /** Formatted value(s), joined with an en dash in range mode. */
+  valueText: string;
+  /** Mapping between values and positions along the track. */
+  scale: Scale;
+  angleFromValue: (v: number) => number;
+  valueFromAngle: (angle: number) => number;
+  polar: (r: number, angle: number) => DialPoint;
+  /** SVG path for an arc between two angles, at radius `r` (default: track centre line). */
+  describeArc: (from: number, to: number, r?: number) => string;
+  trackPath: string;
+  /** Filled portion of the track, or the band between range thumbs; null in wrap mode. */
+  fillPath: string | null;
+  ticks: DialTick[];
+  labels: Array<DialPoint & { value: number; text: string }>;
+  bands: Array<{ band: DialBand; path: string }>;
+  bugs: Array<{ bug: DialBug; points: string }>;
+  thumbs: DialThumb[];
+  labelId: string;
+  /** Props for the root `svg` element. */
+  getRootProps: () => React.SVGProps<SVGSVGElement> & { ref: React.Ref<SVGSVGElement> };
+  /** Props for a thumb element. In single mode the root is the slider and this is empty. */
+  getThumbProps: (index: number) => React.SVGProps<SVGCircleElement> & {
+    ref?: React.Ref<SVGCircleElement>;
+  };
+}
+
+/**
+ * Headless dial. Takes the same props as `Dial` and returns geometry
+ * and event handlers without rendering anything, for fully custom
+ * visuals.
+ */
+export function useDial<V extends DialValue = number>(props: DialProps<V>): DialState<V> {
+  const theme = useVizCtrlTheme();
+  const {
+    min = 0,
+    max = 100,
+    step = 1,
+    size = 160,
+    startAngle = -Math.PI * 0.75,
+    endAngle = Math.PI * 0.75,
+    label,
+    ariaLabel,
+    ariaDescribedBy,
+    invalid,
+    formatValue = (v) => String(v),
+    ticks,
+    disabled,
+    wrap = false,
+    zeroAngle = -Math.PI / 2,
+    direction = 'cw',
+    labels,
+    bands = [],
+    bugs = [],
+    onBandEnter,
+    onBandLeave,
+    minGap = 0,
+    strokeWidth,
+    scale: scaleSpec,
+    wheelStep = 1,
+    dragMode = 'absolute',
+    fineDragFactor = 0.1,
+    inertia = false,
+    onChangeStart,
+    onChangeCommitted,
+  } = props;
+  const [value, setValue, reset] = useControllableState<V>(
+    props.value,
+    props.defaultValue ?? (min as V),
+    props.onChange
+  );
+  const isRange = Array.isArray(value);
+  const values: number[] = isRange ? (value as [number, number]) : [value as number];
+  const toValue = (next: number[]) => (isRange ? [next[0], next[1]] : next[0]) as V;
+  // the most recent value, including changes the parent has not rendered yet
+  const latest = useRef(values);
+  latest.current = values;
+  const emit = (next: number[]) => {
+    latest.current = next;
+    setValue(toValue(next));
+  };
+  const startChange = () => onChangeStart?.(toValue(latest.current));
+  const commitChange = () => onChangeCommitted?.(toValue(latest.current));
+
+  const id = useId();
+  const radius = size / 2;
+  const stroke = strokeWidth ?? theme.strokeWidth;
+  const center = { x: radius, y: radius };
+  const range = max - min;
+  // in wrap mode values are taken modulo the range instead of clamped
+  const clamp = (v: number) =>
+    wrap ? min + (((v - min) % range) + range) % range : Math.min(max, Math.max(min, v));
+  const sense = direction === 'ccw' ? -1 : 1;
+  const scale = useMemo(() => createScale(scaleSpec, min, max), [scaleSpec, min, max]);
+
+  const angleFromValue = useCallback(
+    (v: number) => {
+      const t = scale.toFraction(v);
+      if (wrap) return zeroAngle + sense * t * 2 * Math.PI;
+      return startAngle + t * (endAngle - startAngle);
+    },
+    [scale, startAngle, endAngle, wrap, zeroAngle, sense]
+  );
+
+  // position along the track, in [0, 1], of a pointer at `ang`
+  const fractionFromAngle = useCallback(
+    (ang: number) => {
+      if (wrap) {
+        const turn = 2 * Math.PI;
+        return ((((ang - zeroAngle) * sense) % turn) + turn) % turn / turn;
+      }
+      const t = (ang - startAngle) / (endAngle - startAngle);
+      return Math.min(1, Math.max(0, t));
+    },
+    [startAngle, endAngle, wrap, zeroAngle, sense]
+  );
+
+  const valueFromFraction = useCallback(
+    (t: number) => clamp(roundToStep(scale.fromFraction(t), step)),
+    [scale, step, clamp]
+  );
+
+  const valueFromAngle = useCallback(
+    (ang: number) => valueFromFraction(fractionFromAngle(ang)),
+    [valueFromFraction, fractionFromAngle]
+  );
+
+  const polar = (r: number, ang: number) => ({
+    x: center.x + r * Math.cos(ang),
+    y: center.y + r * Math.sin(ang),
+  });
+
+  const describeArc = (from: number, to: number, r = radius - stroke / 2) => {
+    const largeArc = to - from > Math.PI ? 1 : 0;
+    const a = polar(r, from);
+    const b = polar(r, to);
+    return `M ${a.x} ${a.y} A ${r} ${r} 0 ${largeArc} 1 ${b.x} ${b.y}`;
+  };
+
+  // pointer handling
+  const ref = useRef<SVGSVGElement | null>(null);
+  const thumbRefs = useRef<Array<SVGCircleElement | null>>([]);
+  // index of the thumb being dragged or last focused
+  const active = useRef(0);
+  // State of the current drag. `fraction` is the unrounded position of
+  // the dragged thumb, so fine adjustments below one step accumulate.
+  const drag = useRef<{
+    pointerId: number;
+    angle: number;
+    fraction: number;
+    time: number;
+    velocity: number;
+  } | null>(null);
+  const momentum = useRef<number | null>(null);
+
+  // Move one thumb, keeping range thumbs ordered and `minGap` apart.
+  const setThumb = useCallback(
+    (index: number, v: number) => {
+      let next = clamp(v);
+      if (isRange) {
+        next =
+          index === 0 ? Math.min(next, values[1] - minGap) : Math.max(next, values[0] + minGap);
+        next = Math.min(max, Math.max(min, next));
+      }
+      if (next === values[index]) return false;
+      const all = values.slice();
+      all[index] = next;
+      emit(all);
+      return true;
+    },
+    [isRange, values, minGap, min, max, clamp, emit]
+  );
+  // animation frames and native listeners outlive the render they were
+  // set up in, so they go through a ref to the latest setter
+  const setThumbRef = useRef(setThumb);
+  setThumbRef.current = setThumb;
+
+  const pointerAngle = (clientX: number, clientY: number) => {
+    if (!ref.current) return undefined;
+    const box = ref.current.getBoundingClientRect();
+    return Math.atan2(clientY - (box.top + box.height / 2), clientX - (box.left + box.width / 2));
+  };
+
+  // fraction of the track covered by one radian of pointer travel
+  const perRadian = wrap ? sense / (2 * Math.PI) : 1 / (endAngle - startAngle);
+  const moveTo = (fraction: number) => {
+    const t = wrap ? ((fraction % 1) + 1) % 1 : Math.min(1, Math.max(0, fraction));
+    setThumbRef.current(active.current, valueFromFraction(t));
+    return t;
+  };
+
+  // a drift cut short still ends the change it belongs to
+  const stopMomentum = () => {
+    if (momentum.current === null) return;
+    cancelAnimationFrame(momentum.current);
+    momentum.current = null;
+    commitChange();
+  };
+  useEffect(
+    () => () => {
+      if (momentum.current !== null) cancelAnimationFrame(momentum.current);
+    },
+    []
+  );
+
+  // keep drifting after a flick, slowing down until the thumb stops
+  const startMomentum = (fraction: number, velocity: number) => {
+    let last = performance.now();
+    const frame = (now: number) => {
+      const dt = now - last;
+      last = now;
+      fraction = moveTo(fraction + velocity * dt);
+      velocity *= Math.pow(friction, dt / 16);
+      const stuck = !wrap && (fraction === 0 || fraction === 1);
+      momentum.current =
+        Math.abs(velocity) > 1e-5 && !stuck ? requestAnimationFrame(frame) : null;
+      if (momentum.current === null) commitChange();
+    };
+    momentum.current = requestAnimationFrame(frame);
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (disabled) return;
+    stopMomentum();
+    const ang = pointerAngle(e.clientX, e.clientY);
+    if (ang === undefined) return;
+    (e.currentTarget as Element).setPointerCapture?.(e.pointerId);
+    startChange();
+    if (isRange) {
+      // grab whichever thumb is closer to the pointer
+      const v = valueFromAngle(ang);
+      active.current = Math.abs(v - values[0]) <= Math.abs(v - values[1]) ? 0 : 1;
+      // both thumbs parked together: pick by direction of travel
+      if (values[0] === values[1]) active.current = v < values[0] ? 0 : 1;
+      thumbRefs.current[active.current]?.focus();
+    }
+    let fraction = scale.toFraction(values[active.current]);
+    if (dragMode === 'absolute') fraction = moveTo(fractionFromAngle(ang));
+    drag.current = { pointerId: e.pointerId, angle: ang, fraction, time: e.timeStamp, velocity: 0 };
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const d = drag.current;
+    if (!d || e.pointerId !== d.pointerId) return;
+    const ang = pointerAngle(e.clientX, e.clientY);
+    if (ang === undefined) return;
+    const fine = e.altKey || e.shiftKey;
+    let fraction: number;
+    if (dragMode === 'absolute' && !fine) {
+      fraction = fractionFromAngle(ang);
+    } else {
+      // relative movement; the modulo keeps a pointer crossing the
+      // ±π seam of atan2 from reading as a full turn
+      const turn = 2 * Math.PI;
+      const delta = ((((ang - d.angle + Math.PI) % turn) + turn) % turn) - Math.PI;
+      fraction = d.fraction + delta * perRadian * (fine ? fineDragFactor : 1);
+    }
+    const dt = e.timeStamp - d.time;
+    if (dt > 0) d.velocity = (fraction - d.fraction) / dt;
+    d.fraction = moveTo(fraction);
+    d.angle = ang;
+    d.time = e.timeStamp;
+  };
+
+  const endDrag = (e: React.PointerEvent) => {
+    const d = drag.current;
+    if (!d || e.pointerId !== d.pointerId) return;
+    drag.current = null;
+    // a flick only counts if the pointer was still moving when released
+    if (inertia && e.type === 'pointerup' && e.timeStamp - d.time < 50 && Math.abs(d.velocity) > 1e-4) {
+      startMomentum(d.fraction, d.velocity);
+    } else {
+      commitChange();
+    }
+  };
+
+  // a key press or wheel notch is a complete change on its own
+  const stepThumb = (index: number, v: number) => {
+    const before = toValue(latest.current);
+    if (!setThumbRef.current(index, v)) return;
+    onChangeStart?.(before);
+    commitChange();
+  };
+
+  // wheel; a native listener because React's is passive and cannot
+  // stop the page from scrolling
+  const wheelRef = useRef<(e: WheelEvent) => void>();
+  wheelRef.current = (e: WheelEvent) => {
+    if (disabled || !wheelStep || e.deltaY === 0) return;
+    e.preventDefault();
+    stopMomentum();
+    const i = isRange ? active.current : 0;
+    const notch = wheelStep * step * (e.shiftKey ? 10 : 1);
+    stepThumb(i, roundToStep(values[i] + (e.deltaY < 0 ? notch : -notch), step));
+  };
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const listener = (e: WheelEvent) => wheelRef.current?.(e);
+    el.addEventListener('wheel', listener, { passive: false });
+    return () => el.removeEventListener('wheel', listener);
+  }, []);
+
+  // keyboard handling
+  const coarse = Math.max(step * 10, step);
+  const onKeyDown = (index: number) => (e: React.KeyboardEvent) => {
+    if (disabled) return;
+    const value = values[index];
+    let next = value;
+    const delta = e.shiftKey ? coarse : step;
+    switch (e.key) {
+      case 'ArrowRight':
+      case 'ArrowUp':
+        next = roundToStep(value + delta, step);
+        break;
+      case 'ArrowLeft':
+      case 'ArrowDown':
+        next = roundToStep(value - delta, step);
+        break;
+      case 'PageUp':
+        next = roundToStep(value + coarse, step);
+        break;
+      case 'PageDown':
+        next = roundToStep(value - coarse, step);
+        break;
+      case 'Home':
+        next = min;
+        break;
+      case 'End':
+        next = wrap ? roundToStep(max - step, step) : max;
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+    stepThumb(index, next);
+  };
+
+  // tick generation
+  const tickList = useMemo(() => {
+    if (!ticks) return [];
+    const { every, majorEvery = every * 5 } = ticks;
+    const out: DialTick[] = [];
+    scale.ticks(every, majorEvery).forEach(({ value: v, major }) => {
+      // the last tick of a closed ring would overlap the first
+      if (wrap && v >= max - 1e-9) return;
+      const a = angleFromValue(v);
+      const inner = radius - stroke - 6;
+      const p1 = polar(inner, a);
+      const p2 = polar(inner + (major ? 12 : 6), a);
+      out.push({ value: v, major, x: p1.x, y: p1.y, x2: p2.x, y2: p2.y });
+    });
+    return out;
+  }, [ticks, scale, max, radius, stroke, angleFromValue, wrap]);
+
+  // index of the most severe band containing v, or -1
+  const bandIndexAt = (v: number) => {
+    let found = -1;
+    bands.forEach((b, i) => {
+      if (v < Math.min(b.from, b.to) || v > Math.max(b.from, b.to)) return;
+      if (found < 0 || zoneSeverity[b.zone] > zoneSeverity[bands[found].zone]) found = i;
+    });
+    return found;
+  };
+  const bandIndices = values.map(bandIndexAt);
+
+  // fire enter/leave callbacks when a value changes band; nothing fires
+  // for the band a value starts out in
+  const prevBands = useRef<number[] | null>(null);
+  useEffect(() => {
+    const prev = prevBands.current;
+    prevBands.current = bandIndices;
+    if (!prev) return;
+    bandIndices.forEach((idx, i) => {
+      if (idx === prev[i]) return;
+      if (prev[i] >= 0 && bands[prev[i]]) onBandLeave?.(bands[prev[i]]);
+      if (idx >= 0) onBandEnter?.(bands[idx]);
+    });
+  });
+
+  const thumbs: DialThumb[] = values.map((v, i) => {
+    const angle = angleFromValue(v);
+    const band = bands[bandIndices[i]];
+    return {
+      ...polar(radius - stroke / 2, angle),
+      value: v,
+      angle,
+      band,
+      valueText: band ? `${formatValue(v)}, ${band.label ?? band.zone}` : formatValue(v),
+    };
+  });
+
+  const trackRadius = radius - stroke / 2;
+  const trackPath = wrap
+    ? `M ${center.x - trackRadius} ${center.y} A ${trackRadius} ${trackRadius} 0 1 1 ${center.x + trackRadius} ${center.y} A ${trackRadius} ${trackRadius} 0 1 1 ${center.x - trackRadius} ${center.y}`
+    : describeArc(startAngle, endAngle);
+  // a closed ring has no natural start to fill from
+  const fillPath = wrap
+    ? null
+    : isRange
+    ? describeArc(thumbs[0].angle, thumbs[1].angle)
+    : describeArc(startAngle, thumbs[0].angle);
+
+  const name = ariaLabel || label;
+  const labelId = `${id}-label`;
+  const thumbNames = ['minimum', 'maximum'];
+
+  return {
+    value,
+    setValue,
+    reset,
+    focus: () => (isRange ? thumbRefs.current[0] : ref.current)?.focus(),
+    size,
+    radius,
+    center,
+    stroke,
+    isRange,
+    values,
+    valueText: values.map((v) => formatValue(v)).join(' – '),
+    scale,
+    angleFromValue,
+    valueFromAngle,
+    polar,
+    describeArc,
+    trackPath,
+    fillPath,
+    ticks: tickList,
+    labels: (labels ?? []).map((l) => ({
+      ...l,
+      ...polar(radius - stroke - 28, angleFromValue(l.value)),
+    })),
+    bands: bands.map((band) => ({
+      band,
+      path: describeArc(
+        angleFromValue(Math.max(min, Math.min(band.from, band.to))),
+        angleFromValue(Math.min(max, Math.max(band.from, band.to))),
+        radius - stroke - 3
+      ),
+    })),
+    bugs: bugs.map((bug) => {
+      const a = angleFromValue(bug.value);
+      const tip = polar(radius - stroke, a);
+      const left = polar(radius, a - 0.08);
+      const right = polar(radius, a + 0.08);
+      return { bug, points: `${tip.x},${tip.y} ${left.x},${left.y} ${right.x},${right.y}` };
+    }),
+    thumbs,
+    labelId,
+    // in range mode the svg only groups the two thumb sliders
+    getRootProps: () => ({
+      ref,
+      id,
+      onPointerDown,
+      onPointerMove,
+      onPointerUp: endDrag,
+      onPointerCancel: endDrag,
+      onLostPointerCapture: endDrag,
+      ...(isRange
+        ? {
+            role: 'group',
+            'aria-labelledby': label ? labelId : undefined,
+            'aria-label': label ? undefined : name,
+          }
+        : {
+            role: 'slider',
+            'aria-label': name,
+            'aria-valuemin': min,
+            'aria-valuemax': max,
+            'aria-valuenow': values[0],
+            'aria-valuetext': thumbs[0].valueText,
+            'aria-describedby': ariaDescribedBy,
+            'aria-invalid': invalid || undefined,
+            tabIndex: disabled ? -1 : 0,
+            onKeyDown: onKeyDown(0),
+          }),
+    }),
+    getThumbProps: (i: number) =>
+      isRange
+        ? {
+            ref: (el: SVGCircleElement | null) => {
+              thumbRefs.current[i] = el;
+            },
+            role: 'slider',
+            'aria-label': `${name ?? 'Range'} ${thumbNames[i]}`,
+            'aria-valuemin': i === 0 ? min : values[0] + minGap,
+            'aria-valuemax': i === 0 ? values[1] - minGap : max,
+            'aria-valuenow': values[i],
+            'aria-valuetext': thumbs[i].valueText,
+            'aria-describedby': ariaDescribedBy,
+            'aria-invalid': invalid || undefined,
+            'aria-disabled': disabled || undefined,
+            tabIndex: disabled ? -1 : 0,
+            onFocus: () => {
+              active.current = i;
+            },
+            onKeyDown: onKeyDown(i),
+          }
+        : {},
+  };
+}
@@ -1 +1,9 @@
-import '@testing-library/jest-dom';
\ No newline at end of file
+import '@testing-library/jest-dom';
+
+// jsdom has no ResizeObserver; OpenLayers maps observe their target with one
+class ResizeObserverStub {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+globalThis.ResizeObserver ??= ResizeObserverStub as unknown as typeof ResizeObserver;